@@ -0,0 +1,103 @@
+// ============================================================================
+// CLOCK - Injectable time source and timer scheduler for gesture detection
+// ============================================================================
+//
+// Gesture state machines take a Clock instead of calling Date.now() and
+// setTimeout directly, so a VirtualClock can drive them deterministically.
+// Used by the client GestureManager, the macro-client PerKeyGestureManager
+// and the local agent's GestureDetector and SafetyInterlock.
+
+// Opaque: only ever passed back to the clock that created it
+export type TimerHandle = unknown;
+
+export interface Clock {
+  now(): number;
+  setTimeout(callback: () => void, ms: number): TimerHandle;
+  clearTimeout(handle: TimerHandle): void;
+}
+
+export const systemClock: Clock = {
+  now: () => Date.now(),
+  setTimeout: (callback, ms) => setTimeout(callback, ms),
+  clearTimeout: (handle) => clearTimeout(handle as ReturnType<typeof setTimeout>),
+};
+
+interface VirtualTimer {
+  due: number;
+  callback: () => void;
+}
+
+// Guards runAll() against timers that keep rescheduling themselves
+const MAX_VIRTUAL_TIMER_RUNS = 100_000;
+
+/**
+ * A clock that only moves when told to. Timers fire in due order (ties in
+ * scheduling order) and now() reports each timer's due time while it runs,
+ * exactly as if that much real time had passed.
+ */
+export class VirtualClock implements Clock {
+  private time: number;
+  private timers = new Map<number, VirtualTimer>();
+  private nextId = 1;
+
+  constructor(startTime = 0) {
+    this.time = startTime;
+  }
+
+  now(): number {
+    return this.time;
+  }
+
+  setTimeout(callback: () => void, ms: number): TimerHandle {
+    const id = this.nextId++;
+    this.timers.set(id, { due: this.time + Math.max(0, ms), callback });
+    return id;
+  }
+
+  clearTimeout(handle: TimerHandle): void {
+    this.timers.delete(handle as number);
+  }
+
+  get pendingTimers(): number {
+    return this.timers.size;
+  }
+
+  // Move time forward to `target`, firing every timer due on the way
+  advanceTo(target: number): void {
+    if (target < this.time) {
+      throw new Error(`VirtualClock cannot go backwards (${target} < ${this.time})`);
+    }
+    for (let next = this.nextDue(target); next; next = this.nextDue(target)) {
+      this.timers.delete(next.id);
+      this.time = next.timer.due;
+      next.timer.callback();
+    }
+    this.time = target;
+  }
+
+  advance(ms: number): void {
+    this.advanceTo(this.time + ms);
+  }
+
+  // Fire timers until none are left, advancing time as far as needed
+  runAll(): void {
+    for (let runs = 0; this.timers.size > 0; runs++) {
+      if (runs >= MAX_VIRTUAL_TIMER_RUNS) {
+        throw new Error("VirtualClock.runAll() did not settle; a timer keeps rescheduling itself");
+      }
+      const next = this.nextDue(Infinity)!;
+      this.advanceTo(next.timer.due);
+    }
+  }
+
+  private nextDue(limit: number): { id: number; timer: VirtualTimer } | null {
+    let next: { id: number; timer: VirtualTimer } | null = null;
+    this.timers.forEach((timer, id) => {
+      // Map iteration follows insertion order, so ties keep scheduling order
+      if (timer.due <= limit && (!next || timer.due < next.timer.due)) {
+        next = { id, timer };
+      }
+    });
+    return next;
+  }
+}
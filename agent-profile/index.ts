@@ -0,0 +1,1012 @@
+// ============================================================================
+// AGENT PROFILE - Versioned schema for local-macro-agent profile files
+// ============================================================================
+//
+// The single definition of what the agent accepts. The web app builds its
+// sequence builder schemas on top of these and validates exports with
+// validateAgentProfile(); the agent's ProfileLoader and executors validate
+// with the same functions. A profile without errors here loads in the agent.
+//
+// Problems are reported as Diagnostics (code, severity, JSON path, message,
+// suggested fix) so the builder can mark the offending field and the agent
+// can summarize them.
+//
+// Bump AGENT_PROFILE_SCHEMA_VERSION whenever an older agent would misread a
+// newer profile. Files without "schemaVersion" are read as version 1;
+// version 1 profiles have no "gestures" and get DEFAULT_GESTURES.
+
+import { z } from "zod";
+
+// Not part of the schema; shared here so the agent has one package to import
+export * from "./clock";
+export * from "./scheduler";
+export * from "./inputTrace";
+
+// 2: profiles define their own gestures (GESTURE GRAMMAR)
+// 3: bindings carry a concurrency policy
+// 4: panic/resume hotkeys (SAFETY INTERLOCK)
+// 5: step actions (down, up, hold) and modifier chords
+// 6: mouse button and scroll output steps
+// 7: call steps and onComplete follow-ups (CALLS)
+export const AGENT_PROFILE_SCHEMA_VERSION = 7;
+
+// Sequence step timing and size limits
+export const SEQUENCE_CONSTRAINTS = {
+  MIN_DELAY: 25,           // Never faster than 25ms
+  MIN_VARIANCE: 4,         // max - min must be >= 4ms
+  MAX_UNIQUE_KEYS: 4,      // Maximum 4 unique keys per sequence
+  MAX_STEPS_PER_KEY: 6,    // Maximum 6 steps per key (echoHits don't count toward this)
+  MAX_ECHO_HITS: 6,        // Each step can have 1-6 echo hits (repeats within the step)
+  MAX_HOLD_MS: 5000,       // "hold" steps keep the key down for MIN_DELAY to 5000ms
+} as const;
+
+// 22 input keys with their own gesture state machine
+export const INPUT_KEYS = [
+  "W", "A", "S", "D",
+  "B", "I", "T", "C", "H", "Y", "U", "P",
+  "1", "2", "3", "4", "5", "6",
+  "LEFT_CLICK", "RIGHT_CLICK", "MIDDLE_CLICK", "SCROLL_UP",
+] as const;
+
+export const inputKeySchema = z.enum(INPUT_KEYS);
+
+export type InputKey = z.infer<typeof inputKeySchema>;
+
+// Gesture names are identifiers so profiles can define their own (see
+// GESTURE GRAMMAR); a trigger must name one its profile defines
+export const gestureTypeSchema = z.string().regex(
+  /^[a-z][a-z0-9_]*$/,
+  "Gesture names use lowercase letters, digits and underscores"
+);
+
+export type GestureType = z.infer<typeof gestureTypeSchema>;
+
+// ============================================================================
+// DIAGNOSTICS
+// ============================================================================
+
+export const DIAGNOSTIC_CODES = [
+  "invalid_value",               // Wrong type, unknown key or gesture, setting out of range
+  "invalid_json",
+  "file_error",                  // Profile file could not be read or written
+  "unsupported_schema_version",
+  "empty_sequence",
+  "min_delay",
+  "min_variance",
+  "echo_hits_range",
+  "too_many_unique_keys",
+  "too_many_steps_per_key",
+  "hold_duration",
+  "invalid_step_action",         // Option the step's action does not support
+  "unmatched_key_up",            // "up" step for a key no earlier step holds down
+  "key_left_down",               // "down" step with no later "up"; the key would stay pressed
+  "unknown_call_target",         // Call step or onComplete names a binding the profile does not have
+  "call_cycle",                  // Calls or onComplete follow-ups loop back to a binding already running
+  "unknown_gesture",             // Trigger names a gesture the profile does not define
+  "duplicate_gesture",
+  "unreachable_gesture",         // An earlier definition already matches every press it would
+  "missing_gesture_settings",
+  "duplicate_trigger",
+  "binding_disabled",
+] as const;
+
+export type DiagnosticCode = typeof DIAGNOSTIC_CODES[number];
+
+export type DiagnosticSeverity = "error" | "warning";
+
+// JSON path into the validated value, e.g. ["macros", 0, "sequence", 2, "maxDelay"]
+export type DiagnosticPath = (string | number)[];
+
+export interface Diagnostic {
+  code: DiagnosticCode;
+  severity: DiagnosticSeverity;
+  path: DiagnosticPath;
+  message: string;
+  fix?: string;  // Suggested change, when there is an obvious one
+}
+
+export function hasErrors(diagnostics: Diagnostic[]): boolean {
+  return diagnostics.some((d) => d.severity === "error");
+}
+
+// ["macros", 0, "sequence", 2] -> "macros[0].sequence[2]"
+export function formatDiagnosticPath(path: DiagnosticPath): string {
+  return path.reduce<string>(
+    (out, part) => typeof part === "number" ? `${out}[${part}]` : out ? `${out}.${part}` : part,
+    ""
+  );
+}
+
+export function formatDiagnostic(diagnostic: Diagnostic): string {
+  const location = formatDiagnosticPath(diagnostic.path);
+  return location ? `${location}: ${diagnostic.message}` : diagnostic.message;
+}
+
+// Diagnostics ride through zod refinements in the issue params
+function addDiagnostic(ctx: z.RefinementCtx, diagnostic: Diagnostic): void {
+  ctx.addIssue({
+    code: z.ZodIssueCode.custom,
+    path: diagnostic.path,
+    message: diagnostic.message,
+    params: { code: diagnostic.code, severity: diagnostic.severity, fix: diagnostic.fix },
+  });
+}
+
+/**
+ * Structured form of a zod issue. Issues raised by the rules below keep
+ * their code and fix; anything else the schema rejects is "invalid_value".
+ */
+export function diagnosticFromZodIssue(issue: z.ZodIssue): Diagnostic {
+  if (issue.code === z.ZodIssueCode.custom && issue.params?.code) {
+    return {
+      code: issue.params.code,
+      severity: issue.params.severity ?? "error",
+      path: issue.path,
+      message: issue.message,
+      fix: issue.params.fix,
+    };
+  }
+  return {
+    code: "invalid_value",
+    severity: "error",
+    path: issue.path,
+    message: issue.message,
+    fix: issue.code === z.ZodIssueCode.invalid_enum_value
+      ? `Use one of ${issue.options.join(", ")}`
+      : undefined,
+  };
+}
+
+export function diagnosticsFromZodError(error: z.ZodError): Diagnostic[] {
+  return error.issues.map(diagnosticFromZodIssue);
+}
+
+// ============================================================================
+// SEQUENCES
+// ============================================================================
+
+// What a step does with its key:
+//   tap  - press and release (the default)
+//   down - press and keep held until a later "up" step
+//   up   - release a key an earlier "down" step pressed
+//   hold - press, keep held for holdMs, release
+export const STEP_ACTIONS = ["tap", "down", "up", "hold"] as const;
+
+export const stepActionSchema = z.enum(STEP_ACTIONS);
+
+export type StepAction = z.infer<typeof stepActionSchema>;
+
+// Held around a tap or hold for chords such as shift+1 or ctrl+f3
+export const MODIFIER_KEYS = ["ctrl", "shift", "alt"] as const;
+
+export const modifierKeySchema = z.enum(MODIFIER_KEYS);
+
+export type ModifierKey = z.infer<typeof modifierKeySchema>;
+
+// Mouse outputs are written as step keys. A button takes every action (a tap
+// is a click); each hit of a scroll step is one wheel notch, so scroll steps
+// only tap and echoHits sets how many notches.
+export const MOUSE_BUTTON_OUTPUTS = ["mouse_left", "mouse_right", "mouse_middle", "mouse_x1", "mouse_x2"] as const;
+
+export type MouseButtonOutput = typeof MOUSE_BUTTON_OUTPUTS[number];
+
+export const SCROLL_OUTPUTS = ["scroll_up", "scroll_down"] as const;
+
+export type ScrollOutput = typeof SCROLL_OUTPUTS[number];
+
+// Step keys are case-insensitive, like keyboard keys
+export function mouseButtonOutput(key: string): MouseButtonOutput | null {
+  const name = key.toLowerCase();
+  return MOUSE_BUTTON_OUTPUTS.find((button) => button === name) ?? null;
+}
+
+export function scrollOutput(key: string): ScrollOutput | null {
+  const name = key.toLowerCase();
+  return SCROLL_OUTPUTS.find((scroll) => scroll === name) ?? null;
+}
+
+// Plain object so the web app can extend it with builder-only fields; the
+// timing rules are applied with refineStep so they report diagnostics
+export const sequenceStepObject = z.object({
+  key: z.string().trim().default(""),                 // The key to press (e.g., "a", "f1", "mouse_left", "scroll_up")
+  call: z.string().min(1).optional(),                 // Instead of a key: run this binding's sequence here (see CALLS)
+  name: z.string().optional(),                        // Optional step name for display/debugging
+  action: stepActionSchema.optional(),                // Default "tap"
+  modifiers: z.array(modifierKeySchema).optional(),   // Chord modifiers; tap and hold only
+  holdMs: z.number().optional(),                      // "hold" only: how long the key stays down
+  minDelay: z.number(),
+  maxDelay: z.number(),
+  echoHits: z.number().optional(),                    // 1-6, default 1
+});
+
+type StepLimits = Pick<
+  z.infer<typeof sequenceStepObject>,
+  "key" | "call" | "action" | "modifiers" | "holdMs" | "minDelay" | "maxDelay" | "echoHits"
+>;
+
+// "shift+1", "ctrl+shift+f3": modifiers in MODIFIER_KEYS order, lower case.
+// Steps with the same chord are the same key for the sequence limits.
+export function chordId(step: Pick<StepLimits, "key" | "modifiers">): string {
+  const modifiers = MODIFIER_KEYS.filter((modifier) => step.modifiers?.includes(modifier));
+  return [...modifiers, step.key.toLowerCase()].join("+");
+}
+
+// "shift+1", "hold ctrl+f3 400ms", "down w", "click mouse_left", "call Opener"
+export function describeStep(step: Pick<StepLimits, "key" | "call" | "action" | "modifiers" | "holdMs">): string {
+  if (step.call !== undefined) return `call ${step.call}`;
+  const action = step.action ?? "tap";
+  const chord = chordId(step);
+  if (action === "tap") return mouseButtonOutput(step.key) ? `click ${chord}` : chord;
+  if (action === "hold") return `hold ${chord} ${step.holdMs ?? 0}ms`;
+  return `${action} ${chord}`;
+}
+
+/**
+ * Shortest and longest time a sequence takes: every hit's hold, plus the
+ * delay after each hit except the very last
+ */
+export function sequenceDuration(steps: Omit<StepLimits, "key" | "modifiers">[]): { min: number; max: number } {
+  let min = 0;
+  let max = 0;
+  steps.forEach((step, i) => {
+    const hits = step.echoHits ?? 1;
+    const hold = step.action === "hold" ? (step.holdMs ?? 0) : 0;
+    const delays = i === steps.length - 1 ? hits - 1 : hits;
+    min += hits * hold + delays * step.minDelay;
+    max += hits * hold + delays * step.maxDelay;
+  });
+  return { min, max };
+}
+
+/**
+ * Timing and echo-hit rules for one step; paths are relative to the step
+ */
+export function stepDiagnostics(step: StepLimits, path: DiagnosticPath = []): Diagnostic[] {
+  const diagnostics: Diagnostic[] = [];
+  const { MIN_DELAY, MIN_VARIANCE, MAX_ECHO_HITS, MAX_HOLD_MS } = SEQUENCE_CONSTRAINTS;
+  const action = step.action ?? "tap";
+
+  if (step.call !== undefined) {
+    if (step.key !== "" || action !== "tap" || (step.modifiers?.length ?? 0) > 0 || step.holdMs !== undefined) {
+      diagnostics.push({
+        code: "invalid_step_action",
+        severity: "error",
+        path: [...path, "call"],
+        message: `A call step runs "${step.call}" and has no key, action, modifiers or hold of its own`,
+        fix: "Remove key, action, modifiers and holdMs from this step, or remove call",
+      });
+    }
+  } else if (step.key === "") {
+    diagnostics.push({
+      code: "invalid_value",
+      severity: "error",
+      path: [...path, "key"],
+      message: "Key is required",
+      fix: "Pick a key, or make this a call step",
+    });
+  }
+
+  if (action !== "tap" && scrollOutput(step.key)) {
+    diagnostics.push({
+      code: "invalid_step_action",
+      severity: "error",
+      path: [...path, "action"],
+      message: `A scroll step cannot "${action}"; each hit is one wheel notch`,
+      fix: "Set action to tap and echoHits to the number of notches",
+    });
+  }
+
+  if (action === "hold") {
+    const holdMs = step.holdMs ?? 0;
+    if (holdMs < MIN_DELAY || holdMs > MAX_HOLD_MS) {
+      diagnostics.push({
+        code: "hold_duration",
+        severity: "error",
+        path: [...path, "holdMs"],
+        message: `holdMs ${holdMs} must be from ${MIN_DELAY} to ${MAX_HOLD_MS}ms`,
+        fix: `Set holdMs to ${Math.min(MAX_HOLD_MS, Math.max(MIN_DELAY, holdMs))}ms`,
+      });
+    }
+  }
+
+  if ((action === "down" || action === "up") && (step.echoHits ?? 1) !== 1) {
+    diagnostics.push({
+      code: "invalid_step_action",
+      severity: "error",
+      path: [...path, "echoHits"],
+      message: `A "${action}" step cannot repeat`,
+      fix: "Set echoHits to 1, or use a tap or hold step",
+    });
+  }
+
+  if ((action === "down" || action === "up") && (step.modifiers?.length ?? 0) > 0) {
+    diagnostics.push({
+      code: "invalid_step_action",
+      severity: "error",
+      path: [...path, "modifiers"],
+      message: `Modifiers only apply to tap and hold steps, not "${action}"`,
+      fix: "Add separate down/up steps for the modifier keys, or use a hold step",
+    });
+  }
+
+  const echoHits = step.echoHits ?? 1;
+  if (!Number.isInteger(echoHits) || echoHits < 1 || echoHits > MAX_ECHO_HITS) {
+    diagnostics.push({
+      code: "echo_hits_range",
+      severity: "error",
+      path: [...path, "echoHits"],
+      message: `echoHits ${echoHits} must be a whole number from 1 to ${MAX_ECHO_HITS}`,
+      fix: `Set echoHits to ${Math.min(MAX_ECHO_HITS, Math.max(1, Math.round(echoHits) || 1))}`,
+    });
+  }
+
+  if (step.minDelay < MIN_DELAY) {
+    diagnostics.push({
+      code: "min_delay",
+      severity: "error",
+      path: [...path, "minDelay"],
+      message: `minDelay ${step.minDelay}ms < ${MIN_DELAY}ms minimum`,
+      fix: `Raise minDelay to ${MIN_DELAY}ms`,
+    });
+  }
+
+  const variance = step.maxDelay - step.minDelay;
+  if (variance < MIN_VARIANCE) {
+    diagnostics.push({
+      code: "min_variance",
+      severity: "error",
+      path: [...path, "maxDelay"],
+      message: `variance ${variance}ms < ${MIN_VARIANCE}ms minimum`,
+      fix: `Raise maxDelay to ${Math.max(step.minDelay, MIN_DELAY) + MIN_VARIANCE}ms`,
+    });
+  }
+
+  return diagnostics;
+}
+
+export function refineStep(step: StepLimits, ctx: z.RefinementCtx): void {
+  stepDiagnostics(step).forEach((diagnostic) => addDiagnostic(ctx, diagnostic));
+}
+
+export const sequenceStepSchema = sequenceStepObject.superRefine(refineStep);
+
+export type SequenceStep = z.infer<typeof sequenceStepSchema>;
+
+/**
+ * Rules that span the whole sequence, reported on the step that breaks them.
+ * Keys are compared as chords (see chordId), so shift+1 and 1 are two keys.
+ * A step counts once toward its key's budget however many echo hits it has;
+ * "up" steps only finish a "down" and do not count.
+ */
+export function sequenceDiagnostics(
+  steps: Pick<StepLimits, "key" | "action" | "modifiers">[],
+  path: DiagnosticPath = []
+): Diagnostic[] {
+  const diagnostics: Diagnostic[] = [];
+  const { MAX_UNIQUE_KEYS, MAX_STEPS_PER_KEY } = SEQUENCE_CONSTRAINTS;
+
+  if (steps.length === 0) {
+    diagnostics.push({
+      code: "empty_sequence",
+      severity: "error",
+      path,
+      message: "Sequence is empty",
+      fix: "Add at least one step",
+    });
+  }
+  const stepCounts = new Map<string, number>();
+  const firstKeys: string[] = [];
+  const down = new Map<string, number>();  // Held key -> index of its "down" step
+
+  steps.forEach((step, i) => {
+    const action = step.action ?? "tap";
+    const chord = chordId(step);
+
+    if (action === "down") {
+      down.set(chord, i);
+    } else if (action === "up") {
+      if (!down.delete(chord)) {
+        diagnostics.push({
+          code: "unmatched_key_up",
+          severity: "error",
+          path: [...path, i, "key"],
+          message: `"${chord}" is released but no earlier step holds it down`,
+          fix: `Add a "down" step for "${chord}" before this one, or remove this step`,
+        });
+      }
+      return;
+    }
+
+    const count = (stepCounts.get(chord) ?? 0) + 1;
+    stepCounts.set(chord, count);
+
+    if (count === 1 && stepCounts.size > MAX_UNIQUE_KEYS) {
+      diagnostics.push({
+        code: "too_many_unique_keys",
+        severity: "error",
+        path: [...path, i, "key"],
+        message: `"${chord}" is unique key ${stepCounts.size}, a sequence can use ${MAX_UNIQUE_KEYS}`,
+        fix: `Use one of ${firstKeys.join(", ")} instead, or remove this step`,
+      });
+    } else if (count === 1) {
+      firstKeys.push(chord);
+    }
+
+    if (count > MAX_STEPS_PER_KEY) {
+      diagnostics.push({
+        code: "too_many_steps_per_key",
+        severity: "error",
+        path: [...path, i, "key"],
+        message: `"${chord}" is used in step ${count} of a maximum ${MAX_STEPS_PER_KEY}`,
+        fix: `Remove this step and raise echoHits on an earlier "${chord}" step; echo hits don't count toward the limit`,
+      });
+    }
+  });
+
+  down.forEach((i, chord) => {
+    diagnostics.push({
+      code: "key_left_down",
+      severity: "error",
+      path: [...path, i, "action"],
+      message: `"${chord}" is pressed down and never released`,
+      fix: `Add an "up" step for "${chord}" later in the sequence, or make this a hold step`,
+    });
+  });
+
+  return diagnostics;
+}
+
+// ============================================================================
+// CALLS
+// ============================================================================
+//
+// A step with "call" runs another binding's sequence in its place, so a
+// shared opener is written once. The call step's echoHits repeat the whole
+// called sequence, and its delay is waited after each repeat, replacing the
+// delay after the called sequence's last hit (which a binding run on its own
+// never waits). Calls are expanded before execution and the sequence rules
+// (unique keys, steps per key, down/up pairs) apply to the expanded sequence.
+//
+// A binding's "onComplete" names a binding to run after it finishes without
+// being cancelled; that run goes through the follow-up's own concurrency
+// policy. Calls and follow-ups must not loop.
+
+// Anything a call can name
+export interface CallTarget<T> {
+  name: string;
+  sequence: T[];
+}
+
+// One step of an expanded sequence. `origin` is the index of the step it
+// came from in the outer sequence; `via` lists the bindings called to reach
+// it, outermost first, and is empty for the sequence's own steps.
+export interface ExpandedStep<T> {
+  step: T;
+  origin: number;
+  via: string[];
+  delayAfter?: Pick<StepLimits, "minDelay" | "maxDelay">;  // Delay after the last hit, from the call step
+}
+
+/**
+ * Inline every call step. Calls to missing bindings, and calls that loop
+ * back to one of `callers`, are reported on the call step and left out.
+ */
+export function expandSequence<T extends StepLimits>(
+  steps: T[],
+  bindings: CallTarget<T>[],
+  path: DiagnosticPath = [],
+  callers: string[] = []
+): { steps: ExpandedStep<T>[]; diagnostics: Diagnostic[] } {
+  const expanded: ExpandedStep<T>[] = [];
+  const diagnostics: Diagnostic[] = [];
+
+  steps.forEach((step, origin) => {
+    if (step.call === undefined) {
+      expanded.push({ step, origin, via: [] });
+      return;
+    }
+
+    const target = bindings.find((binding) => binding.name === step.call);
+    if (!target) {
+      diagnostics.push({
+        code: "unknown_call_target",
+        severity: "error",
+        path: [...path, origin, "call"],
+        message: `No binding named "${step.call}" to call`,
+        fix: `Use one of ${bindings.map((binding) => `"${binding.name}"`).join(", ") || "the profile's bindings"}`,
+      });
+      return;
+    }
+    if (callers.includes(target.name)) {
+      const loop = [...callers.slice(callers.indexOf(target.name)), target.name];
+      diagnostics.push({
+        code: "call_cycle",
+        severity: "error",
+        path: [...path, origin, "call"],
+        message: `Calls loop: ${loop.join(" → ")}`,
+        fix: `Remove the call to "${target.name}"`,
+      });
+      return;
+    }
+
+    const inner = expandSequence(target.sequence, bindings, [], [...callers, target.name]);
+    // Problems inside the called binding are reported on this call step
+    inner.diagnostics.forEach((diagnostic) => {
+      diagnostics.push({
+        ...diagnostic,
+        path: [...path, origin, "call"],
+        message: `In "${target.name}": ${diagnostic.message}`,
+      });
+    });
+    if (inner.steps.length === 0) return;
+
+    for (let hit = 0; hit < (step.echoHits ?? 1); hit++) {
+      inner.steps.forEach((innerStep, i) => {
+        expanded.push({
+          step: innerStep.step,
+          origin,
+          via: [target.name, ...innerStep.via],
+          delayAfter: i === inner.steps.length - 1
+            ? { minDelay: step.minDelay, maxDelay: step.maxDelay }
+            : innerStep.delayAfter,
+        });
+      });
+    }
+  });
+
+  return { steps: expanded, diagnostics };
+}
+
+/**
+ * The steps to execute for an expansion. A step whose last hit waits a
+ * call's delay is split so its earlier hits keep their own delay.
+ */
+export function executionSteps<T extends StepLimits>(expanded: ExpandedStep<T>[]): T[] {
+  return expanded.flatMap(({ step, delayAfter }) => {
+    if (!delayAfter) return [step];
+    const hits = step.echoHits ?? 1;
+    const last = { ...step, ...delayAfter, echoHits: 1 };
+    return hits > 1 ? [{ ...step, echoHits: hits - 1 }, last] : [last];
+  });
+}
+
+/**
+ * A binding with its calls expanded, ready for an executor. Call problems
+ * are not reported here; a validated profile has none.
+ */
+export function expandBinding<B extends CallTarget<T>, T extends StepLimits>(binding: B, bindings: CallTarget<T>[]): B {
+  return { ...binding, sequence: executionSteps(expandSequence(binding.sequence, bindings, [], [binding.name]).steps) };
+}
+
+/**
+ * Call problems, plus the sequence rules on the expanded sequence. A rule
+ * broken by a called step is reported on the call step.
+ */
+function expandedSequenceDiagnostics<T extends StepLimits>(
+  steps: T[],
+  bindings: CallTarget<T>[],
+  path: DiagnosticPath,
+  callers: string[]
+): Diagnostic[] {
+  const expansion = expandSequence(steps, bindings, path, callers);
+  const located = sequenceDiagnostics(expansion.steps.map((expanded) => expanded.step))
+    // Calls that expanded to nothing are already reported
+    .filter((diagnostic) => diagnostic.code !== "empty_sequence" || steps.length === 0)
+    .map((diagnostic) => {
+      const [index, field] = diagnostic.path;
+      if (typeof index !== "number") return { ...diagnostic, path: [...path, ...diagnostic.path] };
+
+      const { origin, via } = expansion.steps[index];
+      return via.length === 0
+        ? { ...diagnostic, path: [...path, origin, field] }
+        : { ...diagnostic, path: [...path, origin, "call"], message: `${diagnostic.message} (via ${via.join(" → ")})` };
+    });
+  return [...expansion.diagnostics, ...located];
+}
+
+/**
+ * Follow-ups that name a missing binding or chain back to an earlier one.
+ * Paths start at "macros" like the profile's.
+ */
+export function followUpDiagnostics(macros: { name: string; onComplete?: string }[]): Diagnostic[] {
+  const diagnostics: Diagnostic[] = [];
+
+  macros.forEach((macro, index) => {
+    if (macro.onComplete === undefined) return;
+    const path = ["macros", index, "onComplete"];
+
+    if (!macros.some((other) => other.name === macro.onComplete)) {
+      diagnostics.push({
+        code: "unknown_call_target",
+        severity: "error",
+        path,
+        message: `No binding named "${macro.onComplete}" to run on completion`,
+        fix: "Pick another binding, or clear onComplete",
+      });
+      return;
+    }
+
+    const chain = [macro.name];
+    let next: string | undefined = macro.onComplete;
+    while (next !== undefined && !chain.includes(next)) {
+      chain.push(next);
+      const name: string = next;
+      next = macros.find((other) => other.name === name)?.onComplete;
+    }
+    if (next === macro.name) {
+      diagnostics.push({
+        code: "call_cycle",
+        severity: "error",
+        path,
+        message: `Follow-ups loop: ${[...chain, macro.name].join(" → ")}`,
+        fix: "Clear onComplete on one of these bindings",
+      });
+    }
+  });
+
+  return diagnostics;
+}
+
+/**
+ * Every sequence rule, for steps that have not been through the schema
+ * (builder state, or a binding about to be executed). Paths start with the
+ * step index, below `path`. Call steps are expanded from `bindings`; pass
+ * the sequence's own binding name so a call back to it is caught at once.
+ */
+export function validateSequence<T extends StepLimits>(
+  steps: T[],
+  path: DiagnosticPath = [],
+  bindings: CallTarget<T>[] = [],
+  name?: string
+): { valid: boolean; diagnostics: Diagnostic[] } {
+  const diagnostics = [
+    ...steps.flatMap((step, i) => stepDiagnostics(step, [...path, i])),
+    ...expandedSequenceDiagnostics(steps, bindings, path, name === undefined ? [] : [name]),
+  ];
+  return { valid: !hasErrors(diagnostics), diagnostics };
+}
+
+// ============================================================================
+// GESTURE GRAMMAR
+// ============================================================================
+//
+// A gesture is a number of presses on one key plus the hold tier of the
+// final press (or of any press). Detectors classify each press with
+// holdTier() and ask resolveGesture() which definition the presses match;
+// the first matching definition wins and unmatched presses emit nothing.
+//
+// A super_long press (superLongMin-superLongMax) always ends the sequence.
+// "cancel" is built in (a hold reaching cancelThreshold, or superLongMax
+// with superLongOverflow "cancel") and cannot be redefined.
+
+export const HOLD_TIERS = ["short", "long", "super_long"] as const;
+
+export const holdTierSchema = z.enum(HOLD_TIERS);
+
+export type HoldTier = z.infer<typeof holdTierSchema>;
+
+export const CANCEL_GESTURE = "cancel";
+
+export const MAX_GESTURE_PRESSES = 6;
+
+export const gestureDefinitionSchema = z.object({
+  name: gestureTypeSchema,
+  presses: z.number().int().min(1).max(MAX_GESTURE_PRESSES),
+  hold: holdTierSchema.default("short"),
+  holdOn: z.enum(["last", "any"]).default("last"),  // Which press needs the hold tier
+});
+
+export type GestureDefinition = z.infer<typeof gestureDefinitionSchema>;
+
+// The gestures every profile had before grammars were configurable
+export const DEFAULT_GESTURES: GestureDefinition[] = [
+  { name: "single", presses: 1, hold: "short", holdOn: "last" },
+  { name: "long", presses: 1, hold: "long", holdOn: "last" },
+  { name: "super_long", presses: 1, hold: "super_long", holdOn: "last" },
+  { name: "double", presses: 2, hold: "short", holdOn: "last" },
+  { name: "double_long", presses: 2, hold: "long", holdOn: "last" },
+  { name: "triple", presses: 3, hold: "short", holdOn: "last" },
+  { name: "triple_long", presses: 3, hold: "long", holdOn: "last" },
+  { name: "quadruple_long", presses: 4, hold: "long", holdOn: "last" },
+];
+
+/**
+ * Tier of one press. Holds between longPressMax and superLongMin are short;
+ * detectors drop holds past superLongMax before asking.
+ */
+export function holdTier(
+  holdMs: number,
+  settings: Pick<GestureSettings, "longPressMin" | "longPressMax" | "superLongMin">
+): HoldTier {
+  if (holdMs >= settings.superLongMin) return "super_long";
+  if (holdMs >= settings.longPressMin && holdMs <= settings.longPressMax) return "long";
+  return "short";
+}
+
+export function matchesGesture(definition: GestureDefinition, presses: HoldTier[]): boolean {
+  if (presses.length !== definition.presses) return false;
+  return definition.holdOn === "last"
+    ? presses[presses.length - 1] === definition.hold
+    : presses.includes(definition.hold);
+}
+
+/**
+ * Name of the first definition the presses match, or null
+ */
+export function resolveGesture(presses: HoldTier[], gestures: GestureDefinition[]): GestureType | null {
+  return gestures.find((definition) => matchesGesture(definition, presses))?.name ?? null;
+}
+
+/**
+ * Whether another press could still complete a gesture. When it cannot,
+ * detectors resolve on release instead of waiting out the multi-press window.
+ */
+export function canExtendGesture(pressCount: number, gestures: GestureDefinition[]): boolean {
+  return gestures.some((definition) => definition.presses > pressCount);
+}
+
+// Gesture names a trigger can use, cancel included
+export function gestureNames(gestures: GestureDefinition[]): GestureType[] {
+  return [...gestures.map((definition) => definition.name), CANCEL_GESTURE];
+}
+
+// "2 presses, last long", for pickers and logs
+export function describeGesture(definition: GestureDefinition): string {
+  const presses = definition.presses === 1 ? "1 press" : `${definition.presses} presses`;
+  const hold = definition.hold.replace("_", " ");
+  if (definition.presses === 1) return `${presses}, ${hold}`;
+  return `${presses}, ${definition.holdOn} ${hold}`;
+}
+
+// Every tier sequence `later` matches is already taken by `earlier`
+function shadows(earlier: GestureDefinition, later: GestureDefinition): boolean {
+  if (earlier.presses !== later.presses || earlier.hold !== later.hold) return false;
+  // One press, or a super_long press (always the last), makes "any" and "last" the same
+  return earlier.holdOn === "any" || later.holdOn === "last" || earlier.presses === 1 || earlier.hold === "super_long";
+}
+
+/**
+ * Grammar problems, and triggers that name undefined gestures. Paths start
+ * at the profile ("gestures", "macros").
+ */
+export function gestureDiagnostics(
+  gestures: GestureDefinition[],
+  macros: { trigger: { gesture: string } }[]
+): Diagnostic[] {
+  const diagnostics: Diagnostic[] = [];
+  const defined = new Set<string>();
+
+  gestures.forEach((definition, i) => {
+    if (definition.name === CANCEL_GESTURE || defined.has(definition.name)) {
+      diagnostics.push({
+        code: "duplicate_gesture",
+        severity: "error",
+        path: ["gestures", i, "name"],
+        message: definition.name === CANCEL_GESTURE
+          ? `"${CANCEL_GESTURE}" is built in and cannot be redefined`
+          : `Gesture "${definition.name}" is defined more than once`,
+        fix: "Rename this gesture",
+      });
+    }
+    defined.add(definition.name);
+
+    const earlier = gestures.slice(0, i).find((other) => shadows(other, definition));
+    if (earlier) {
+      diagnostics.push({
+        code: "unreachable_gesture",
+        severity: "warning",
+        path: ["gestures", i],
+        message: `"${definition.name}" never fires; "${earlier.name}" matches the same presses first`,
+        fix: "Change its presses or hold, or remove it",
+      });
+    }
+  });
+
+  macros.forEach((macro, i) => {
+    const gesture = macro.trigger.gesture;
+    if (gesture !== CANCEL_GESTURE && !defined.has(gesture)) {
+      diagnostics.push({
+        code: "unknown_gesture",
+        severity: "error",
+        path: ["macros", i, "trigger", "gesture"],
+        message: `Gesture "${gesture}" is not defined in this profile`,
+        fix: `Use one of ${gestureNames(gestures).join(", ")}, or add a "${gesture}" gesture`,
+      });
+    }
+  });
+
+  return diagnostics;
+}
+
+// ============================================================================
+// SAFETY INTERLOCK
+// ============================================================================
+
+// Checked on raw input before gesture detection. Every key must be held at
+// once for holdMs: one key makes a plain hold, several make a chord. Names
+// are matched case-insensitively against what the input source reports;
+// mouse buttons use their InputKey names (LEFT_CLICK, ...).
+export const MAX_HOTKEY_KEYS = 4;
+
+export const hotkeySchema = z.object({
+  keys: z.array(z.string().trim().min(1, "Key is required")).min(1).max(MAX_HOTKEY_KEYS),
+  holdMs: z.number().int().min(0).max(5000).default(0),
+});
+
+export type Hotkey = z.infer<typeof hotkeySchema>;
+
+// panic cancels every sequence and suspends detection until resume. Without
+// a resume hotkey the panic hotkey toggles; without either there is no interlock.
+export const safetySchema = z.object({
+  panic: hotkeySchema.optional(),
+  resume: hotkeySchema.optional(),
+});
+
+export type SafetySettings = z.infer<typeof safetySchema>;
+
+export const DEFAULT_SAFETY: SafetySettings = {};
+
+// { keys: ["SHIFT", "F12"], holdMs: 500 } -> "SHIFT+F12 held 500ms"
+export function describeHotkey(hotkey: Hotkey): string {
+  const keys = hotkey.keys.map((key) => key.toUpperCase()).join("+");
+  return hotkey.holdMs > 0 ? `${keys} held ${hotkey.holdMs}ms` : keys;
+}
+
+// ============================================================================
+// BINDINGS, SETTINGS AND PROFILES
+// ============================================================================
+
+// What happens when a binding fires while an earlier run is still going:
+//   drop       - ignore the new trigger (the default)
+//   queue      - run after the current one; at most maxQueue waiting runs
+//   restart    - cancel the running one and start over
+//   cancel_key - cancel every running sequence on the same trigger key, then start
+//   parallel   - start another independent run
+export const CONCURRENCY_MODES = ["drop", "queue", "restart", "cancel_key", "parallel"] as const;
+
+export const concurrencyModeSchema = z.enum(CONCURRENCY_MODES);
+
+export type ConcurrencyMode = z.infer<typeof concurrencyModeSchema>;
+
+export const MAX_QUEUE_DEPTH = 10;
+
+export const concurrencyPolicySchema = z.object({
+  mode: concurrencyModeSchema.default("drop"),
+  maxQueue: z.number().int().min(1).max(MAX_QUEUE_DEPTH).default(1),  // Only used by "queue"
+});
+
+export type ConcurrencyPolicy = z.infer<typeof concurrencyPolicySchema>;
+
+export const DEFAULT_CONCURRENCY: ConcurrencyPolicy = concurrencyPolicySchema.parse({});
+
+export const macroBindingSchema = z.object({
+  name: z.string().min(1, "Macro name is required"),
+  trigger: z.object({
+    key: inputKeySchema,
+    gesture: gestureTypeSchema,
+  }),
+  sequence: z.array(sequenceStepSchema),  // Sequence rules run on the expanded sequence, in agentProfileSchema
+  enabled: z.boolean().default(true),
+  concurrency: concurrencyPolicySchema.default(DEFAULT_CONCURRENCY),
+  onComplete: z.string().min(1).optional(),  // Binding to run after this one completes (see CALLS)
+});
+
+export type MacroBinding = z.infer<typeof macroBindingSchema>;
+
+// Gesture detection timing; missing fields fall back to the defaults
+export const gestureSettingsSchema = z.object({
+  multiPressWindow: z.number().min(100).max(1000).default(350),  // Window for detecting multi-presses (ms)
+  debounceDelay: z.number().min(0).max(50).default(10),          // Debounce for key events (ms)
+  longPressMin: z.number().min(50).max(300).default(80),         // Minimum for long press (ms)
+  longPressMax: z.number().min(100).max(500).default(140),       // Maximum for long press (ms)
+  superLongMin: z.number().min(200).max(1000).default(300),      // Minimum for super long (ms)
+  superLongMax: z.number().min(500).max(5000).default(2000),     // Maximum for super long (ms)
+  cancelThreshold: z.number().min(1000).max(10000).default(3000), // Hold time to trigger cancel (ms)
+  superLongOverflow: z.enum(["cancel", "ignore"]).default("ignore"), // Holds past superLongMax: cancel at once, or drop the press
+});
+
+export type GestureSettings = z.infer<typeof gestureSettingsSchema>;
+
+export const DEFAULT_GESTURE_SETTINGS: GestureSettings = gestureSettingsSchema.parse({});
+
+export const agentProfileSchema = z.object({
+  schemaVersion: z.number().int().min(1)
+    .superRefine((version, ctx) => {
+      if (version > AGENT_PROFILE_SCHEMA_VERSION) {
+        addDiagnostic(ctx, {
+          code: "unsupported_schema_version",
+          severity: "error",
+          path: [],
+          message: `Profile needs a newer agent (this one reads schema version ${AGENT_PROFILE_SCHEMA_VERSION})`,
+          fix: "Update the agent, or export the profile again from a matching web app",
+        });
+      }
+    })
+    .default(1),
+  name: z.string().min(1, "Profile name is required"),
+  description: z.string().default(""),
+  gestureSettings: gestureSettingsSchema.default({}),
+  gestures: z.array(gestureDefinitionSchema).default(DEFAULT_GESTURES),
+  safety: safetySchema.default(DEFAULT_SAFETY),
+  macros: z.array(macroBindingSchema),
+}).superRefine((profile, ctx) => {
+  profile.macros.forEach((macro, index) => {
+    expandedSequenceDiagnostics(macro.sequence, profile.macros, ["macros", index, "sequence"], [macro.name])
+      .forEach((diagnostic) => addDiagnostic(ctx, diagnostic));
+  });
+  followUpDiagnostics(profile.macros).forEach((diagnostic) => addDiagnostic(ctx, diagnostic));
+
+  // Warnings are added by validateAgentProfile, which can return them with a profile
+  gestureDiagnostics(profile.gestures, profile.macros)
+    .filter((diagnostic) => diagnostic.severity === "error")
+    .forEach((diagnostic) => addDiagnostic(ctx, diagnostic));
+});
+
+export type AgentProfile = z.infer<typeof agentProfileSchema>;
+
+// A profile as written to disk, before defaults are filled in
+export type AgentProfileInput = z.input<typeof agentProfileSchema>;
+
+type BindingTrigger = Pick<MacroBinding, "name" | "trigger" | "enabled">;
+
+/**
+ * Things the agent accepts but that are probably unintended
+ */
+export function bindingWarnings(macros: BindingTrigger[]): Diagnostic[] {
+  const diagnostics: Diagnostic[] = [];
+  const seenTriggers = new Map<string, string>();
+
+  macros.forEach((macro, index) => {
+    const trigger = `${macro.trigger.key}:${macro.trigger.gesture}`;
+    const previous = seenTriggers.get(trigger);
+    if (previous !== undefined) {
+      diagnostics.push({
+        code: "duplicate_trigger",
+        severity: "warning",
+        path: ["macros", index, "trigger"],
+        message: `Trigger ${macro.trigger.key} + ${macro.trigger.gesture} is also used by "${previous}"`,
+        fix: "Give one of the bindings a different key or gesture; only the first one runs",
+      });
+    } else {
+      seenTriggers.set(trigger, macro.name);
+    }
+
+    if (!macro.enabled) {
+      diagnostics.push({
+        code: "binding_disabled",
+        severity: "warning",
+        path: ["macros", index, "enabled"],
+        message: "Binding is disabled and will not run",
+        fix: "Enable it, or delete it if it is no longer needed",
+      });
+    }
+  });
+
+  return diagnostics;
+}
+
+/**
+ * Validate a parsed JSON value and fill in defaults. The profile is null
+ * when there are errors; warnings can come with a valid profile.
+ */
+export function validateAgentProfile(data: unknown): { profile: AgentProfile | null; diagnostics: Diagnostic[] } {
+  const result = agentProfileSchema.safeParse(data);
+  if (!result.success) {
+    return { profile: null, diagnostics: diagnosticsFromZodError(result.error) };
+  }
+
+  const diagnostics = [
+    ...gestureDiagnostics(result.data.gestures, result.data.macros).filter((d) => d.severity === "warning"),
+    ...bindingWarnings(result.data.macros),
+  ];
+  if (typeof data === "object" && data !== null && !("gestureSettings" in data)) {
+    diagnostics.unshift({
+      code: "missing_gesture_settings",
+      severity: "warning",
+      path: ["gestureSettings"],
+      message: "Profile has no gestureSettings, using defaults",
+      fix: "Export the profile again to include the gesture timing you tuned",
+    });
+  }
+  return { profile: result.data, diagnostics };
+}
@@ -0,0 +1,221 @@
+// ============================================================================
+// INPUT TRACE - Recorded raw input + detected gestures (JSONL)
+// ============================================================================
+//
+// Written by the web GestureSimulator (InputTraceRecorder) and by the local
+// agent (--record), and replayed by the agent (--replay), which adds the
+// file reading and writing in local-macro-agent/src/inputTrace.ts.
+//
+//   {"kind":"header","version":1,"source":"browser","recordedAt":"...","profileName":"...","gestureSettings":{...}}
+//   {"kind":"input","timestamp":0,"type":"down","key":"1"}
+//   {"kind":"input","timestamp":96.4,"type":"up","key":"1"}
+//   {"kind":"gesture","timestamp":451.2,"key":"1","gesture":"single","modifiers":"normal"}
+//
+// Timestamps are monotonic milliseconds since recording started. Lines
+// without "kind" are read as input events so hand-written traces stay short.
+
+export const INPUT_TRACE_VERSION = 1;
+
+export type TraceSource = "agent" | "browser";
+
+export const TRACE_MOUSE_BUTTONS = ["LEFT_CLICK", "RIGHT_CLICK", "MIDDLE_CLICK"] as const;
+
+export type TraceMouseButton = typeof TRACE_MOUSE_BUTTONS[number];
+
+export interface TraceHeader {
+  kind: "header";
+  version: number;
+  source: TraceSource;
+  recordedAt: string;  // Wall-clock time of timestamp 0
+  profileName: string | null;
+  gestureSettings: Record<string, number | string>;
+  profile?: unknown;  // Full profile, when the recorder has it
+}
+
+export type TraceInput =
+  | { kind: "input"; timestamp: number; type: "down" | "up"; key: string }
+  | { kind: "input"; timestamp: number; type: "down" | "up"; button: TraceMouseButton };
+
+export interface TraceGesture {
+  kind: "gesture";
+  timestamp: number;
+  key: string;
+  gesture: string;
+  holdDuration?: number;
+  modifiers?: string;  // Browser only ("normal", "ctrl+shift", ...)
+}
+
+export type TraceEntry = TraceHeader | TraceInput | TraceGesture;
+
+export interface ParsedTrace {
+  header: TraceHeader | null;
+  inputs: TraceInput[];
+  gestures: TraceGesture[];
+  errors: string[];
+}
+
+// Sub-millisecond precision is noise for gestures; keep files readable
+export function traceTimestamp(elapsed: number): number {
+  return Math.round(elapsed * 10) / 10;
+}
+
+// KeyboardEvent.code -> the key names the agent uses ("KeyW" -> "W", "Digit1" -> "1")
+export function traceKeyFromCode(code: string): string {
+  const match = /^(?:Key|Digit|Numpad)([A-Z0-9])$/.exec(code);
+  return match ? match[1] : code;
+}
+
+// MouseEvent.button -> agent button name; other buttons are not traced
+export function traceButtonFromMouseButton(button: number): TraceMouseButton | null {
+  switch (button) {
+    case 0: return "LEFT_CLICK";
+    case 1: return "MIDDLE_CLICK";
+    case 2: return "RIGHT_CLICK";
+    default: return null;
+  }
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function parseInput(entry: Record<string, unknown>): TraceInput | string {
+  if (entry.type !== "down" && entry.type !== "up") {
+    return 'type must be "down" or "up"';
+  }
+
+  const hasKey = entry.key !== undefined;
+  const hasButton = entry.button !== undefined;
+  if (hasKey === hasButton) {
+    return 'expected exactly one of "key" or "button"';
+  }
+
+  if (hasKey) {
+    if (typeof entry.key !== "string" || entry.key.length === 0) {
+      return "key must be a non-empty string";
+    }
+    return { kind: "input", timestamp: entry.timestamp as number, type: entry.type, key: entry.key.toUpperCase() };
+  }
+
+  if (!TRACE_MOUSE_BUTTONS.includes(entry.button as TraceMouseButton)) {
+    return `button must be one of ${TRACE_MOUSE_BUTTONS.join(", ")}`;
+  }
+  return { kind: "input", timestamp: entry.timestamp as number, type: entry.type, button: entry.button as TraceMouseButton };
+}
+
+/**
+ * Parse a JSONL trace. Blank lines are skipped; line numbers in errors are 1-based.
+ */
+export function parseInputTrace(text: string): ParsedTrace {
+  const result: ParsedTrace = { header: null, inputs: [], gestures: [], errors: [] };
+  let lastInputTimestamp = -Infinity;
+
+  text.split(/\r?\n/).forEach((line, index) => {
+    if (line.trim() === "") return;
+    const fail = (message: string) => result.errors.push(`Line ${index + 1}: ${message}`);
+
+    let entry: unknown;
+    try {
+      entry = JSON.parse(line);
+    } catch {
+      fail("invalid JSON");
+      return;
+    }
+    if (!isRecord(entry)) {
+      fail("expected a JSON object");
+      return;
+    }
+
+    if (entry.kind === "header") {
+      if (result.header || result.inputs.length > 0 || result.gestures.length > 0) {
+        fail("header must be the first line");
+      } else if (typeof entry.version !== "number" || entry.version > INPUT_TRACE_VERSION) {
+        fail(`unsupported trace version ${entry.version} (this agent reads up to ${INPUT_TRACE_VERSION})`);
+      } else {
+        result.header = entry as unknown as TraceHeader;
+      }
+      return;
+    }
+
+    if (typeof entry.timestamp !== "number" || !Number.isFinite(entry.timestamp)) {
+      fail("timestamp must be a number");
+      return;
+    }
+
+    if (entry.kind === "gesture") {
+      if (typeof entry.key !== "string" || typeof entry.gesture !== "string") {
+        fail('gesture entries need "key" and "gesture"');
+        return;
+      }
+      result.gestures.push(entry as unknown as TraceGesture);
+      return;
+    }
+
+    if (entry.kind !== undefined && entry.kind !== "input") {
+      fail(`unknown entry kind "${entry.kind}"`);
+      return;
+    }
+
+    const input = parseInput(entry);
+    if (typeof input === "string") {
+      fail(input);
+      return;
+    }
+    if (input.timestamp < lastInputTimestamp) {
+      fail(`timestamp goes backwards (${input.timestamp} < ${lastInputTimestamp})`);
+      return;
+    }
+    lastInputTimestamp = input.timestamp;
+    result.inputs.push(input);
+  });
+
+  return result;
+}
+
+/**
+ * Collects a trace in memory; `now` must be monotonic (performance.now()).
+ */
+export class InputTraceRecorder {
+  private entries: TraceEntry[] = [];
+  private startedAt: number;
+  private now: () => number;
+
+  constructor(
+    header: Omit<TraceHeader, "kind" | "version" | "recordedAt">,
+    now: () => number = () => performance.now()
+  ) {
+    this.now = now;
+    this.startedAt = now();
+    this.entries.push({
+      kind: "header",
+      version: INPUT_TRACE_VERSION,
+      recordedAt: new Date().toISOString(),
+      ...header,
+    });
+  }
+
+  private elapsed(): number {
+    return traceTimestamp(this.now() - this.startedAt);
+  }
+
+  recordKey(type: "down" | "up", key: string) {
+    this.entries.push({ kind: "input", timestamp: this.elapsed(), type, key });
+  }
+
+  recordButton(type: "down" | "up", button: TraceMouseButton) {
+    this.entries.push({ kind: "input", timestamp: this.elapsed(), type, button });
+  }
+
+  recordGesture(gesture: Omit<TraceGesture, "kind" | "timestamp">) {
+    this.entries.push({ kind: "gesture", timestamp: this.elapsed(), ...gesture });
+  }
+
+  // Number of input and gesture entries (header excluded)
+  get eventCount(): number {
+    return this.entries.length - 1;
+  }
+
+  toJsonl(): string {
+    return this.entries.map((entry) => JSON.stringify(entry)).join("\n") + "\n";
+  }
+}
@@ -0,0 +1,172 @@
+// ============================================================================
+// SCHEDULER - One high-resolution timing loop for every running sequence
+// ============================================================================
+//
+// Executors wait between keystrokes with wait()/waitUntil() instead of their
+// own timers, so the agent backends and the macro-client MacroExecutor time
+// steps the same way, and overlapping sequences share one loop rather than
+// interleaving independent timers.
+//
+// The loop sleeps on a coarse setTimeout until SPIN_WINDOW_MS before the
+// earliest wake, then spins (yielding to the event loop between checks) for
+// the last stretch. Wakes due at the same moment resolve in due order, ties
+// in the order they were scheduled, so which sequence presses first is
+// deterministic.
+//
+// Runs in Node and the browser: the agent imports it from
+// @swtor/agent-profile, the macro-client directly. Tests pass a VirtualClock
+// and a spin window of 0, so waits resolve exactly when the clock is advanced.
+
+import { systemClock, type Clock, type TimerHandle } from "./clock";
+
+// Timers overshoot by a millisecond or more; the last stretch is spun instead
+export const SPIN_WINDOW_MS = 2;
+
+// Longest coarse sleep while a pending wait can be cancelled
+export const CANCEL_POLL_MS = 20;
+
+// Checked while waiting; returning false ends the wait early
+export type ContinueCheck = () => boolean;
+
+// Millisecond timers with a sub-millisecond now()
+const highResolutionClock: Clock = { ...systemClock, now: () => performance.now() };
+
+interface Wake {
+  due: number;
+  order: number;
+  shouldContinue?: ContinueCheck;
+  resolve: () => void;
+}
+
+// setImmediate in Node; a MessageChannel in browsers, where setTimeout(0)
+// is clamped to 4ms once nested
+function createYield(): (callback: () => void) => void {
+  if (typeof setImmediate === "function") {
+    return (callback) => setImmediate(callback);
+  }
+  const channel = new MessageChannel();
+  const callbacks: (() => void)[] = [];
+  channel.port1.onmessage = () => callbacks.shift()?.();
+  return (callback) => {
+    callbacks.push(callback);
+    channel.port2.postMessage(null);
+  };
+}
+
+export class Scheduler {
+  private wakes: Wake[] = [];  // Sorted by due, then order
+  private nextOrder: number = 1;
+  private timer: TimerHandle | null = null;
+  private timerDue: number = Infinity;
+  private spinning: boolean = false;
+  private clock: Clock;
+  private spinWindow: number;
+  private yieldToLoop: ((callback: () => void) => void) | null = null;
+
+  constructor(clock: Clock = highResolutionClock, spinWindow: number = SPIN_WINDOW_MS) {
+    this.clock = clock;
+    this.spinWindow = spinWindow;
+  }
+
+  now(): number {
+    return this.clock.now();
+  }
+
+  /**
+   * Resolve after `ms` milliseconds, or as soon as shouldContinue returns false
+   */
+  wait(ms: number, shouldContinue?: ContinueCheck): Promise<void> {
+    return this.waitUntil(this.now() + ms, shouldContinue);
+  }
+
+  /**
+   * Resolve once now() reaches `due`, or as soon as shouldContinue returns false
+   */
+  waitUntil(due: number, shouldContinue?: ContinueCheck): Promise<void> {
+    return new Promise(resolve => {
+      this.insert({ due, order: this.nextOrder++, shouldContinue, resolve });
+      this.arm();
+    });
+  }
+
+  /**
+   * Number of waits that have not resolved yet
+   */
+  get pending(): number {
+    return this.wakes.length;
+  }
+
+  // After every wake due no later than it, so ties keep scheduling order
+  private insert(wake: Wake): void {
+    let low = 0;
+    let high = this.wakes.length;
+    while (low < high) {
+      const mid = (low + high) >> 1;
+      if (this.wakes[mid].due <= wake.due) {
+        low = mid + 1;
+      } else {
+        high = mid;
+      }
+    }
+    this.wakes.splice(low, 0, wake);
+  }
+
+  // Make sure the loop will run in time for the earliest wake
+  private arm(): void {
+    if (this.spinning || this.wakes.length === 0) return;
+
+    const remaining = this.wakes[0].due - this.now();
+    if (remaining <= this.spinWindow) {
+      this.clearTimer();
+      this.spinning = true;
+      this.yieldToLoop ??= createYield();
+      this.yieldToLoop(() => this.run());
+      return;
+    }
+
+    let sleep = remaining - this.spinWindow;
+    if (this.wakes.some(wake => wake.shouldContinue)) {
+      sleep = Math.min(sleep, CANCEL_POLL_MS);
+    }
+
+    const due = this.now() + sleep;
+    if (this.timer !== null && this.timerDue <= due) return;
+
+    this.clearTimer();
+    this.timerDue = due;
+    this.timer = this.clock.setTimeout(() => {
+      this.timer = null;
+      this.timerDue = Infinity;
+      this.run();
+    }, sleep);
+  }
+
+  // One pass of the loop: resolve every wake that is due or cancelled
+  private run(): void {
+    this.spinning = false;
+
+    const now = this.now();
+    const ready: Wake[] = [];
+    const waiting: Wake[] = [];
+    for (const wake of this.wakes) {
+      const stopped = wake.shouldContinue !== undefined && !wake.shouldContinue();
+      (wake.due <= now || stopped ? ready : waiting).push(wake);
+    }
+    this.wakes = waiting;
+
+    // Continuations run as microtasks in resolve order
+    ready.forEach(wake => wake.resolve());
+    this.arm();
+  }
+
+  private clearTimer(): void {
+    if (this.timer !== null) {
+      this.clock.clearTimeout(this.timer);
+      this.timer = null;
+      this.timerDue = Infinity;
+    }
+  }
+}
+
+// The loop every executor shares unless given its own
+export const sharedScheduler = new Scheduler();
@@ -3,7 +3,8 @@ import { SidebarProvider, SidebarTrigger } from "@/components/ui/sidebar";
 import { AppSidebar } from "@/components/app-sidebar";
 import { ThemeToggle } from "@/components/theme-toggle";
 import Home from "@/pages/home";
-import { useProfiles, useCreateProfile, useUpdateProfile } from "@/hooks/use-profiles";
+import { useProfiles, useCreateProfile, useUpdateProfile, isProfileConflict } from "@/hooks/use-profiles";
+import { useToast } from "@/hooks/use-toast";
 import { Skeleton } from "@/components/ui/skeleton";
 import { ModifierProvider } from "@/contexts/ModifierContext";
 import type { Profile, InsertProfile } from "@shared/schema";
@@ -12,6 +13,7 @@ export default function AppContent() {
   const { data: profiles, isLoading } = useProfiles();
   const createProfile = useCreateProfile();
   const updateProfile = useUpdateProfile();
+  const { toast } = useToast();
 
   const [currentProfileId, setCurrentProfileId] = useState<string>(() => {
     return localStorage.getItem("gesture-mapper-current-profile") || "";
@@ -27,6 +29,18 @@ export default function AppContent() {
     localStorage.setItem("gesture-mapper-current-profile", profileId);
   };
 
+  const handleUpdateError = (error: Error) => {
+    toast(
+      isProfileConflict(error)
+        ? {
+            title: "Profile changed elsewhere",
+            description: "Another window saved this profile first. Its latest version is now shown; reapply your change.",
+            variant: "destructive",
+          }
+        : { title: "Error", description: "Failed to save profile.", variant: "destructive" }
+    );
+  };
+
   const handleProfileUpdate = (updatedProfile: Profile) => {
     if (!currentProfile) return;
     updateProfile.mutate({
@@ -40,7 +54,7 @@ export default function AppContent() {
         inputMappings: updatedProfile.inputMappings,
         modifierDefaults: updatedProfile.modifierDefaults,
       },
-    });
+    }, { onError: handleUpdateError });
   };
 
   const handleToggleFavorite = () => {
@@ -50,7 +64,7 @@ export default function AppContent() {
       updates: {
         favorite: !currentProfile.favorite,
       },
-    });
+    }, { onError: handleUpdateError });
   };
 
   const handleImportProfile = (importedProfile: Profile) => {
@@ -0,0 +1,314 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { AlertCircle, AlertTriangle, Download, FileUp, GitMerge, Plus, Upload } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import type { AbilityRegistry } from "@shared/schema";
+import type { AbilityImportPlan, AbilityTransferFormat } from "@shared/abilityTransfer";
+
+interface AbilityImportResult {
+  registry: AbilityRegistry;
+  plan: AbilityImportPlan;
+}
+
+function formatFromFilename(filename: string): AbilityTransferFormat {
+  return filename.toLowerCase().endsWith(".csv") ? "csv" : "json";
+}
+
+export function AbilityImportExport() {
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [format, setFormat] = useState<AbilityTransferFormat>("csv");
+  const [content, setContent] = useState("");
+  const [plan, setPlan] = useState<AbilityImportPlan | null>(null);
+
+  const previewMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/abilities/import/preview", { format, content });
+      return await response.json() as AbilityImportPlan;
+    },
+    onSuccess: (result) => setPlan(result),
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to read the import file.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const importMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/abilities/import", { format, content });
+      return await response.json() as AbilityImportResult;
+    },
+    onSuccess: ({ plan: applied }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/abilities"] });
+      toast({
+        title: "Abilities Imported",
+        description: `${applied.additions.length} added, ${applied.merges.length} merged.`,
+      });
+      handleOpenChange(false);
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to import abilities.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleOpenChange = (isOpen: boolean) => {
+    setOpen(isOpen);
+    if (!isOpen) {
+      setContent("");
+      setPlan(null);
+    }
+  };
+
+  const handleContentChange = (text: string) => {
+    setContent(text);
+    // A preview only applies to the content it was made from
+    setPlan(null);
+  };
+
+  const handleFileUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    const reader = new FileReader();
+    reader.onload = (event) => {
+      setFormat(formatFromFilename(file.name));
+      handleContentChange(event.target?.result as string);
+    };
+    reader.readAsText(file);
+    e.target.value = "";
+  };
+
+  const handleExport = async (exportFormat: AbilityTransferFormat) => {
+    try {
+      const response = await apiRequest("GET", `/api/abilities/export?format=${exportFormat}`);
+      const blob = await response.blob();
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement("a");
+      a.href = url;
+      a.download = `abilities.${exportFormat}`;
+      a.click();
+      URL.revokeObjectURL(url);
+    } catch {
+      toast({
+        title: "Error",
+        description: "Failed to export abilities.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const hasChanges = !!plan && (plan.additions.length > 0 || plan.merges.length > 0);
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline" data-testid="button-ability-import-export">
+          <FileUp className="w-4 h-4 mr-2" />
+          Import / Export
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-2xl" data-testid="dialog-ability-import-export">
+        <DialogHeader>
+          <DialogTitle>Import / Export Abilities</DialogTitle>
+          <DialogDescription>
+            Abilities that match an existing name or alias are merged into it instead of being added again.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="flex items-center gap-2">
+            <Button variant="outline" size="sm" onClick={() => handleExport("csv")} data-testid="button-export-abilities-csv">
+              <Download className="w-4 h-4 mr-2" />
+              Export CSV
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => handleExport("json")} data-testid="button-export-abilities-json">
+              <Download className="w-4 h-4 mr-2" />
+              Export JSON
+            </Button>
+          </div>
+
+          <div className="flex items-center gap-2">
+            <div className="flex-1 border-t border-border" />
+            <span className="text-xs text-muted-foreground">IMPORT</span>
+            <div className="flex-1 border-t border-border" />
+          </div>
+
+          <div className="flex items-center gap-2">
+            <input
+              id="ability-file-upload"
+              type="file"
+              accept=".csv,.json"
+              onChange={handleFileUpload}
+              className="hidden"
+              data-testid="input-ability-file-upload"
+            />
+            <Button
+              variant="outline"
+              onClick={() => document.getElementById("ability-file-upload")?.click()}
+              data-testid="button-choose-ability-file"
+              className="flex-1"
+            >
+              <Upload className="w-4 h-4 mr-2" />
+              Choose File
+            </Button>
+            <Select
+              value={format}
+              onValueChange={(value) => {
+                setFormat(value as AbilityTransferFormat);
+                setPlan(null);
+              }}
+            >
+              <SelectTrigger className="w-[100px]" data-testid="select-import-format">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="csv">CSV</SelectItem>
+                <SelectItem value="json">JSON</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="ability-import-content">Or paste content</Label>
+            <Textarea
+              id="ability-import-content"
+              placeholder={
+                format === "csv"
+                  ? "canonicalName,aliases,category,description,assignedKey\nForce Lightning,FL|Lightning,DPS,,1"
+                  : '{"abilities": [{"canonicalName": "Force Lightning", "aliases": ["FL"]}]}'
+              }
+              value={content}
+              onChange={(e) => handleContentChange(e.target.value)}
+              data-testid="textarea-ability-import"
+              className="font-mono text-xs min-h-[120px]"
+            />
+          </div>
+
+          {plan && (
+            <ScrollArea className="h-64 rounded-md border p-3" data-testid="ability-import-preview">
+              <div className="space-y-4">
+                <div className="flex flex-wrap gap-2">
+                  <Badge variant="secondary">{plan.additions.length} new</Badge>
+                  <Badge variant="secondary">{plan.merges.length} merged</Badge>
+                  <Badge variant="secondary">{plan.unchanged} unchanged</Badge>
+                  {plan.keyConflicts.length > 0 && (
+                    <Badge variant="destructive">{plan.keyConflicts.length} key conflicts</Badge>
+                  )}
+                  {plan.errors.length > 0 && (
+                    <Badge variant="destructive">{plan.errors.length} skipped rows</Badge>
+                  )}
+                </div>
+
+                {plan.errors.length > 0 && (
+                  <Alert variant="destructive" data-testid="alert-ability-import-errors">
+                    <AlertCircle className="w-4 h-4" />
+                    <AlertDescription className="text-xs space-y-1">
+                      {plan.errors.map((error, i) => (
+                        <div key={i}>{error.row > 0 ? `Row ${error.row}: ` : ""}{error.message}</div>
+                      ))}
+                    </AlertDescription>
+                  </Alert>
+                )}
+
+                {plan.additions.length > 0 && (
+                  <div className="space-y-1">
+                    <h4 className="text-sm font-medium">Additions</h4>
+                    {plan.additions.map((ability) => (
+                      <div key={ability.canonicalName} className="flex items-center gap-2 text-xs">
+                        <Plus className="w-3 h-3 text-primary shrink-0" />
+                        <span>{ability.canonicalName}</span>
+                        {ability.assignedKey && <Badge variant="outline" className="text-xs font-mono">{ability.assignedKey}</Badge>}
+                        {ability.aliases.length > 0 && (
+                          <span className="text-muted-foreground">({ability.aliases.join(", ")})</span>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                )}
+
+                {plan.merges.length > 0 && (
+                  <div className="space-y-1">
+                    <h4 className="text-sm font-medium">Merges</h4>
+                    {plan.merges.map((merge) => (
+                      <div key={merge.existing.id} className="flex items-center gap-2 text-xs">
+                        <GitMerge className="w-3 h-3 text-muted-foreground shrink-0" />
+                        <span>{merge.existing.canonicalName}</span>
+                        <span className="text-muted-foreground">updates {merge.changes.join(", ")}</span>
+                      </div>
+                    ))}
+                  </div>
+                )}
+
+                {plan.keyConflicts.length > 0 && (
+                  <div className="space-y-1">
+                    <h4 className="text-sm font-medium">Key Conflicts</h4>
+                    {plan.keyConflicts.map((conflict) => (
+                      <div key={conflict.key} className="flex items-center gap-2 text-xs">
+                        <AlertTriangle className="w-3 h-3 text-destructive shrink-0" />
+                        <Badge variant="outline" className="text-xs font-mono">{conflict.key}</Badge>
+                        <span>{conflict.abilities.join(", ")}</span>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            </ScrollArea>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => handleOpenChange(false)} data-testid="button-cancel-ability-import">
+            Cancel
+          </Button>
+          {plan ? (
+            <Button
+              onClick={() => importMutation.mutate()}
+              disabled={!hasChanges || importMutation.isPending}
+              data-testid="button-confirm-ability-import"
+            >
+              Import
+            </Button>
+          ) : (
+            <Button
+              onClick={() => previewMutation.mutate()}
+              disabled={!content.trim() || previewMutation.isPending}
+              data-testid="button-preview-ability-import"
+            >
+              Preview
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
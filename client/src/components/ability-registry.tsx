@@ -52,6 +52,7 @@ import {
 } from "@/components/ui/alert-dialog";
 import { Plus, Trash2, Edit2, Search, X, Keyboard, Tag, AlertTriangle, Check } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
+import { AbilityImportExport } from "@/components/ability-import-export";
 import type { Ability, AbilityRegistry, Profile, ProfileAbilityBinding } from "@shared/schema";
 import { normalizeAbilityName, getAbilitiesForKey } from "@shared/schema";
 
@@ -353,6 +354,8 @@ export function AbilityRegistryComponent({ currentProfile, onProfileUpdate }: Ab
           </SelectContent>
         </Select>
         
+        <AbilityImportExport />
+
         <Dialog open={isAddDialogOpen} onOpenChange={(open) => {
           if (!open) closeDialog();
           else setIsAddDialogOpen(true);
@@ -2,19 +2,23 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Switch } from "@/components/ui/switch";
-import { Activity, RotateCcw, Bug, AlertTriangle } from "lucide-react";
+import { Activity, RotateCcw, Bug, AlertTriangle, Circle, Square } from "lucide-react";
 import { useState, useEffect, useRef } from "react";
-import type { GestureSettings } from "@shared/schema";
 import { GestureManager, type KeyTimelineState } from "@/lib/gestureManager";
+import { type GestureSettings } from "@shared/schema";
+import { InputTraceRecorder, traceKeyFromCode, traceButtonFromMouseButton } from "../../../agent-profile/inputTrace";
 import { useModifierContext } from "@/contexts/ModifierContext";
 
 interface GestureSimulatorProps {
   settings: GestureSettings;
+  profileName?: string;
   onSettingsChange?: (settings: GestureSettings) => void;
 }
 
-export function GestureSimulator({ settings }: GestureSimulatorProps) {
+export function GestureSimulator({ settings, profileName }: GestureSimulatorProps) {
   const [debugMode, setDebugMode] = useState(false);
+  const [isRecording, setIsRecording] = useState(false);
+  const recorderRef = useRef<InputTraceRecorder | null>(null);
   const [activeKeys, setActiveKeys] = useState<Map<string, KeyTimelineState>>(new Map());
   const [lastGesture, setLastGesture] = useState<{ key: string; gesture: string; modifiers: string } | null>(null);
   const [rightClickHoldStart, setRightClickHoldStart] = useState<number | null>(null);
@@ -43,6 +47,7 @@ export function GestureSimulator({ settings }: GestureSimulatorProps) {
       (key: string, gesture: string, modifiers: string) => {
         console.log(`✅ Gesture detected: ${key} → ${gesture} (${modifiers})`);
         setLastGesture({ key, gesture, modifiers });
+        recorderRef.current?.recordGesture({ key: traceKeyFromCode(key), gesture, modifiers });
         
         // Update success statistics
         setGestureStats(prev => {
@@ -95,6 +100,7 @@ export function GestureSimulator({ settings }: GestureSimulatorProps) {
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
       if (e.repeat) return; // Ignore key repeat
+      recorderRef.current?.recordKey("down", traceKeyFromCode(e.code));
       
       const manager = gestureManagerRef.current;
       if (!manager) return;
@@ -108,6 +114,7 @@ export function GestureSimulator({ settings }: GestureSimulatorProps) {
     };
     
     const handleKeyUp = (e: KeyboardEvent) => {
+      recorderRef.current?.recordKey("up", traceKeyFromCode(e.code));
       const manager = gestureManagerRef.current;
       if (!manager) return;
       
@@ -131,12 +138,18 @@ export function GestureSimulator({ settings }: GestureSimulatorProps) {
   // Right-click emergency cancel
   useEffect(() => {
     const handleMouseDown = (e: MouseEvent) => {
+      const button = traceButtonFromMouseButton(e.button);
+      if (button) recorderRef.current?.recordButton("down", button);
+
       if (e.button === 2) { // Right button
         setRightClickHoldStart(Date.now());
       }
     };
     
     const handleMouseUp = (e: MouseEvent) => {
+      const button = traceButtonFromMouseButton(e.button);
+      if (button) recorderRef.current?.recordButton("up", button);
+
       if (e.button === 2 && rightClickHoldStart !== null) {
         const holdDuration = Date.now() - rightClickHoldStart;
         setRightClickHoldStart(null);
@@ -176,6 +189,34 @@ export function GestureSimulator({ settings }: GestureSimulatorProps) {
     setGestureStats({});
   };
   
+  // Recording captures raw input + detected gestures for the agent's --replay
+  const toggleRecording = () => {
+    const recorder = recorderRef.current;
+    if (!recorder) {
+      recorderRef.current = new InputTraceRecorder({
+        source: "browser",
+        profileName: profileName ?? null,
+        gestureSettings: { ...settings },
+      });
+      setIsRecording(true);
+      return;
+    }
+
+    recorderRef.current = null;
+    setIsRecording(false);
+    if (recorder.eventCount === 0) return;
+
+    const blob = new Blob([recorder.toJsonl()], { type: "application/x-ndjson" });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = `gesture-trace-${new Date().toISOString().replace(/[:.]/g, "-")}.jsonl`;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  };
+  
   const getGestureColor = (gesture: string) => {
     const colorMap: Record<string, string> = {
       single_press: "bg-chart-1",
@@ -214,6 +255,24 @@ export function GestureSimulator({ settings }: GestureSimulatorProps) {
                 data-testid="switch-debug-mode"
               />
             </div>
+            <Button
+              onClick={toggleRecording}
+              variant={isRecording ? "destructive" : "outline"}
+              size="sm"
+              data-testid="button-record-trace"
+            >
+              {isRecording ? (
+                <>
+                  <Square className="w-4 h-4 mr-2" />
+                  Stop & Save Trace
+                </>
+              ) : (
+                <>
+                  <Circle className="w-4 h-4 mr-2" />
+                  Record Trace
+                </>
+              )}
+            </Button>
             <Button
               onClick={reset}
               variant="outline"
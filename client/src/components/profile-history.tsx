@@ -0,0 +1,282 @@
+import { useState, useMemo } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Separator } from "@/components/ui/separator";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { History, RotateCcw, Plus, Minus, Pencil } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useProfileRevisions, useRevisionDiff, useRestoreRevision } from "@/hooks/use-profile-revisions";
+import type { Profile, ProfileRevisionSummary } from "@shared/schema";
+import type { FieldChange } from "@shared/profileHistory";
+
+interface ProfileHistoryProps {
+  profile: Profile;
+}
+
+const SOURCE_LABELS: Record<ProfileRevisionSummary["source"], string> = {
+  create: "Created",
+  update: "Updated",
+  restore: "Restored",
+};
+
+function formatValue(value: unknown): string {
+  if (value === undefined) return "—";
+  if (typeof value === "string") return value;
+  return JSON.stringify(value);
+}
+
+function FieldChangeList({ title, changes, testId }: { title: string; changes: FieldChange[]; testId: string }) {
+  if (changes.length === 0) return null;
+
+  return (
+    <div className="space-y-2" data-testid={testId}>
+      <h4 className="text-sm font-medium">{title}</h4>
+      <div className="space-y-1">
+        {changes.map((change) => (
+          <div key={change.path} className="flex items-center gap-2 text-xs font-mono">
+            <Pencil className="w-3 h-3 text-muted-foreground shrink-0" />
+            <span className="text-muted-foreground">{change.path}:</span>
+            <span className="line-through text-destructive">{formatValue(change.before)}</span>
+            <span>→</span>
+            <span className="text-primary">{formatValue(change.after)}</span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+export function ProfileHistory({ profile }: ProfileHistoryProps) {
+  const { toast } = useToast();
+  const { data: revisions, isLoading } = useProfileRevisions(profile.id);
+  const restoreRevision = useRestoreRevision();
+
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [baseId, setBaseId] = useState<string | null>(null);
+
+  // Default to the newest revision compared against the one before it
+  const selected = useMemo(
+    () => revisions?.find((r) => r.id === selectedId) ?? revisions?.[0],
+    [revisions, selectedId]
+  );
+  const base = useMemo(() => {
+    if (!revisions || !selected) return undefined;
+    const explicit = revisions.find((r) => r.id === baseId);
+    if (explicit) return explicit;
+    return revisions.find((r) => r.revision < selected.revision);
+  }, [revisions, selected, baseId]);
+
+  const { data: diffResponse, isLoading: isDiffLoading } = useRevisionDiff(
+    profile.id,
+    base?.id ?? null,
+    selected?.id ?? null
+  );
+  const diff = diffResponse?.diff;
+
+  const handleSelect = (revisionId: string) => {
+    setSelectedId(revisionId);
+    setBaseId(null);
+  };
+
+  const handleRestore = (revision: ProfileRevisionSummary) => {
+    restoreRevision.mutate(
+      { profileId: profile.id, revisionId: revision.id },
+      {
+        onSuccess: () => {
+          setSelectedId(null);
+          setBaseId(null);
+          toast({
+            title: "Revision restored",
+            description: `"${profile.name}" was restored to revision ${revision.revision}.`,
+          });
+        },
+        onError: () => {
+          toast({
+            title: "Error",
+            description: "Failed to restore revision.",
+            variant: "destructive",
+          });
+        },
+      }
+    );
+  };
+
+  return (
+    <div className="grid gap-6 lg:grid-cols-3" data-testid="profile-history">
+      <Card className="border-card-border" data-testid="card-revision-list">
+        <CardHeader>
+          <div className="flex items-center gap-3">
+            <div className="p-2 rounded-md bg-primary/10">
+              <History className="w-5 h-5 text-primary" />
+            </div>
+            <div>
+              <CardTitle className="text-lg">Revision History</CardTitle>
+              <CardDescription className="text-sm">Every save is kept as a revision</CardDescription>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <p className="text-sm text-muted-foreground">Loading revisions...</p>
+          ) : (
+            <ScrollArea className="h-[28rem] pr-3">
+              <div className="space-y-2">
+                {revisions?.map((revision) => (
+                  <button
+                    key={revision.id}
+                    type="button"
+                    onClick={() => handleSelect(revision.id)}
+                    className={`w-full text-left p-3 rounded-md border hover-elevate ${
+                      selected?.id === revision.id ? "border-primary bg-primary/5" : "border-border"
+                    }`}
+                    data-testid={`button-revision-${revision.revision}`}
+                  >
+                    <div className="flex items-center justify-between">
+                      <span className="text-sm font-medium font-mono">#{revision.revision}</span>
+                      <Badge variant="secondary" className="text-xs">
+                        {SOURCE_LABELS[revision.source]}
+                        {revision.restoredFrom !== null && ` #${revision.restoredFrom}`}
+                      </Badge>
+                    </div>
+                    <p className="text-xs text-muted-foreground mt-1">
+                      {new Date(revision.createdAt).toLocaleString()}
+                    </p>
+                  </button>
+                ))}
+              </div>
+            </ScrollArea>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card className="border-card-border lg:col-span-2" data-testid="card-revision-diff">
+        <CardHeader>
+          <div className="flex items-center justify-between gap-4">
+            <div>
+              <CardTitle className="text-lg">
+                {selected ? `Revision #${selected.revision}` : "No revision selected"}
+              </CardTitle>
+              <CardDescription className="text-sm">
+                {base ? `Compared with revision #${base.revision}` : "First revision of this profile"}
+              </CardDescription>
+            </div>
+            {selected && (
+              <div className="flex items-center gap-2">
+                <Select value={base?.id ?? ""} onValueChange={setBaseId}>
+                  <SelectTrigger className="w-40" data-testid="select-compare-base">
+                    <SelectValue placeholder="Compare with" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {revisions
+                      ?.filter((r) => r.id !== selected.id)
+                      .map((r) => (
+                        <SelectItem key={r.id} value={r.id}>
+                          Revision #{r.revision}
+                        </SelectItem>
+                      ))}
+                  </SelectContent>
+                </Select>
+                <AlertDialog>
+                  <AlertDialogTrigger asChild>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      disabled={selected.id === revisions?.[0]?.id || restoreRevision.isPending}
+                      data-testid="button-restore-revision"
+                    >
+                      <RotateCcw className="w-3 h-3 mr-2" />
+                      Restore
+                    </Button>
+                  </AlertDialogTrigger>
+                  <AlertDialogContent>
+                    <AlertDialogHeader>
+                      <AlertDialogTitle>Restore revision #{selected.revision}?</AlertDialogTitle>
+                      <AlertDialogDescription>
+                        The profile will be replaced with this revision. The current state stays in the history,
+                        so you can undo this by restoring again.
+                      </AlertDialogDescription>
+                    </AlertDialogHeader>
+                    <AlertDialogFooter>
+                      <AlertDialogCancel>Cancel</AlertDialogCancel>
+                      <AlertDialogAction onClick={() => handleRestore(selected)}>Restore</AlertDialogAction>
+                    </AlertDialogFooter>
+                  </AlertDialogContent>
+                </AlertDialog>
+              </div>
+            )}
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {!base ? (
+            <p className="text-sm text-muted-foreground">Nothing to compare against.</p>
+          ) : isDiffLoading || !diff ? (
+            <p className="text-sm text-muted-foreground">Loading changes...</p>
+          ) : !diff.hasChanges ? (
+            <p className="text-sm text-muted-foreground" data-testid="text-no-changes">
+              No differences between these revisions.
+            </p>
+          ) : (
+            <>
+              {(diff.inputMappings.added.length > 0 ||
+                diff.inputMappings.removed.length > 0 ||
+                diff.inputMappings.changed.length > 0) && (
+                <div className="space-y-2" data-testid="diff-input-mappings">
+                  <h4 className="text-sm font-medium">Input Mappings</h4>
+                  <div className="space-y-1">
+                    {diff.inputMappings.added.map((m) => (
+                      <div key={m.id} className="flex items-center gap-2 text-xs">
+                        <Plus className="w-3 h-3 text-primary shrink-0" />
+                        <span className="font-mono">{m.inputId}</span>
+                        <Badge variant="outline" className="text-xs">{m.gestureType}</Badge>
+                        <span>{m.actionName}</span>
+                      </div>
+                    ))}
+                    {diff.inputMappings.removed.map((m) => (
+                      <div key={m.id} className="flex items-center gap-2 text-xs">
+                        <Minus className="w-3 h-3 text-destructive shrink-0" />
+                        <span className="font-mono line-through">{m.inputId}</span>
+                        <Badge variant="outline" className="text-xs">{m.gestureType}</Badge>
+                        <span className="line-through">{m.actionName}</span>
+                      </div>
+                    ))}
+                    {diff.inputMappings.changed.map((c) => (
+                      <div key={c.id} className="flex items-center gap-2 text-xs">
+                        <Pencil className="w-3 h-3 text-muted-foreground shrink-0" />
+                        <span className="font-mono">{c.after.inputId}</span>
+                        <span>{c.after.actionName}</span>
+                        <span className="text-muted-foreground">({c.fields.join(", ")})</span>
+                      </div>
+                    ))}
+                  </div>
+                  <Separator className="mt-4" />
+                </div>
+              )}
+              <FieldChangeList title="Gesture Settings" changes={diff.gestureSettings} testId="diff-gesture-settings" />
+              <FieldChangeList title="Devices" changes={diff.devices} testId="diff-devices" />
+              <FieldChangeList title="Profile" changes={diff.other} testId="diff-other" />
+            </>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
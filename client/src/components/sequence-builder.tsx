@@ -37,21 +37,56 @@ import {
   Wand2,
   BarChart3,
   ListOrdered,
+  OctagonX,
 } from "lucide-react";
 import {
   type MacroBinding,
   type SequenceStep,
   type MacroGestureType,
+  type GestureDefinition,
+  type HoldTier,
+  type ConcurrencyMode,
+  type Hotkey,
+  type StepAction,
+  type ModifierKey,
+  type SafetySettings,
   type MacroTriggerKey,
   type MacroGestureSettings,
   type MacroProfile,
+  type Diagnostic,
+  type DiagnosticPath,
   SEQUENCE_CONSTRAINTS,
   MACRO_TRIGGER_KEYS,
+  HOLD_TIERS,
+  MAX_GESTURE_PRESSES,
+  CONCURRENCY_MODES,
+  DEFAULT_CONCURRENCY,
+  MAX_QUEUE_DEPTH,
+  MAX_HOTKEY_KEYS,
+  describeHotkey,
+  STEP_ACTIONS,
+  MODIFIER_KEYS,
+  chordId,
+  sequenceDuration,
+  MOUSE_BUTTON_OUTPUTS,
+  SCROLL_OUTPUTS,
+  scrollOutput,
+  describeStep,
+  expandSequence,
+  executionSteps,
+  followUpDiagnostics,
+  hasErrors,
   validateSequence,
+  bindingWarnings,
+  gestureDiagnostics,
+  gestureNames,
+  describeGesture,
+  formatDiagnostic,
 } from "@shared/schema";
+import { exportAgentProfile, agentProfileFilename } from "@shared/agentExport";
 
-// Gesture type labels
-const GESTURE_LABELS: Record<MacroGestureType, string> = {
+// Labels for the default gestures; profile-defined gestures show their name
+const GESTURE_LABELS: Record<string, string> = {
   single: "Single Press",
   long: "Long Press (80-140ms)",
   double: "Double Tap",
@@ -63,6 +98,39 @@ const GESTURE_LABELS: Record<MacroGestureType, string> = {
   cancel: "Cancel (3s hold)",
 };
 
+function gestureLabel(gesture: MacroGestureType): string {
+  return GESTURE_LABELS[gesture] ?? gesture.replace(/_/g, " ");
+}
+
+const HOLD_LABELS: Record<HoldTier, string> = {
+  short: "Short",
+  long: "Long",
+  super_long: "Super long",
+};
+
+const CONCURRENCY_LABELS: Record<ConcurrencyMode, string> = {
+  drop: "Ignore while running",
+  queue: "Queue",
+  restart: "Restart",
+  cancel_key: "Cancel others on key",
+  parallel: "Run in parallel",
+};
+
+const STEP_ACTION_LABELS: Record<StepAction, string> = {
+  tap: "Tap",
+  down: "Key Down",
+  up: "Key Up",
+  hold: "Hold",
+};
+
+// Default hold for a step switched to "hold"
+const DEFAULT_HOLD_MS = 200;
+
+// Select values: call steps are "call:<macro name>" in the key list, and
+// the follow-up list needs a value for "no follow-up"
+const CALL_PREFIX = "call:";
+const NO_FOLLOW_UP = "__none__";
+
 // Available output keys
 const OUTPUT_KEYS = [
   // Letters
@@ -72,15 +140,98 @@ const OUTPUT_KEYS = [
   "f1", "f2", "f3", "f4", "f5", "f6", "f7", "f8", "f9", "f10", "f11", "f12",
   // Special
   "space", "enter", "tab", "escape", "backspace",
+  // Modifiers, for down/up steps; chords use the step's modifier toggles
+  "shift", "ctrl", "alt",
   // Numpad
   "num0", "num1", "num2", "num3", "num4", "num5", "num6", "num7", "num8", "num9",
+  // Mouse buttons, and wheel notches (one per echo hit)
+  ...MOUSE_BUTTON_OUTPUTS,
+  ...SCROLL_OUTPUTS,
 ];
 
+// Diagnostics whose path starts with `prefix`
+function diagnosticsAt(diagnostics: Diagnostic[], ...prefix: DiagnosticPath): Diagnostic[] {
+  return diagnostics.filter((d) => prefix.every((part, i) => d.path[i] === part));
+}
+
+// Inline messages under a field, with the suggested fix
+function FieldDiagnostics({ diagnostics }: { diagnostics: Diagnostic[] }) {
+  if (diagnostics.length === 0) return null;
+  return (
+    <div className="mt-1 space-y-0.5">
+      {diagnostics.map((d, i) => (
+        <p
+          key={i}
+          className={`text-xs ${d.severity === "error" ? "text-destructive" : "text-amber-600"}`}
+          data-testid={`diagnostic-${d.code}`}
+        >
+          {d.message}
+          {d.fix && <span className="block text-muted-foreground">{d.fix}</span>}
+        </p>
+      ))}
+    </div>
+  );
+}
+
 interface SequenceBuilderProps {
   macroProfile: MacroProfile;
   onUpdate: (profile: MacroProfile) => void;
 }
 
+// Hotkey typed as "SHIFT+F12"; clearing the keys removes the hotkey
+function HotkeyEditor({
+  label,
+  hotkey,
+  placeholder,
+  testId,
+  onChange,
+}: {
+  label: string;
+  hotkey: Hotkey | undefined;
+  placeholder: string;
+  testId: string;
+  onChange: (hotkey: Hotkey | undefined) => void;
+}) {
+  const keysText = hotkey?.keys.join("+") ?? "";
+  return (
+    <div className="grid grid-cols-[1fr_6rem] gap-2">
+      <div>
+        <Label className="text-xs text-muted-foreground">{label}</Label>
+        <Input
+          key={keysText}
+          defaultValue={keysText}
+          placeholder={placeholder}
+          onBlur={(e) => {
+            const keys = e.target.value
+              .split("+")
+              .map((key) => key.trim().toUpperCase())
+              .filter(Boolean)
+              .slice(0, MAX_HOTKEY_KEYS);
+            onChange(keys.length > 0 ? { keys, holdMs: hotkey?.holdMs ?? 0 } : undefined);
+          }}
+          className="mt-1 font-mono"
+          data-testid={`input-${testId}-keys`}
+        />
+      </div>
+      <div>
+        <Label className="text-xs text-muted-foreground">Hold (ms)</Label>
+        <Input
+          type="number"
+          min={0}
+          max={5000}
+          value={hotkey?.holdMs ?? 0}
+          disabled={!hotkey}
+          onChange={(e) =>
+            hotkey && onChange({ ...hotkey, holdMs: Math.min(5000, Math.max(0, parseInt(e.target.value) || 0)) })
+          }
+          className="mt-1 font-mono"
+          data-testid={`input-${testId}-hold`}
+        />
+      </div>
+    </div>
+  );
+}
+
 function generateId(): string {
   return Math.random().toString(36).substring(2, 9);
 }
@@ -511,6 +662,8 @@ export function SequenceBuilder({ macroProfile, onUpdate }: SequenceBuilderProps
   );
   const [isPlaying, setIsPlaying] = useState(false);
   const [settingsOpen, setSettingsOpen] = useState(false);
+  const [gesturesOpen, setGesturesOpen] = useState(false);
+  const [safetyOpen, setSafetyOpen] = useState(false);
 
   // Update global settings
   const updateSettings = useCallback(
@@ -523,11 +676,56 @@ export function SequenceBuilder({ macroProfile, onUpdate }: SequenceBuilderProps
     [macroProfile, onUpdate]
   );
 
+  const updateSafety = useCallback(
+    (updates: Partial<SafetySettings>) => {
+      onUpdate({ ...macroProfile, safety: { ...macroProfile.safety, ...updates } });
+    },
+    [macroProfile, onUpdate]
+  );
+
+  // Edit a gesture definition; triggers follow a rename
+  const updateGesture = useCallback(
+    (index: number, updates: Partial<GestureDefinition>) => {
+      const previousName = macroProfile.gestures[index].name;
+      const renamed = updates.name !== undefined && updates.name !== previousName;
+      onUpdate({
+        ...macroProfile,
+        gestures: macroProfile.gestures.map((g, i) => (i === index ? { ...g, ...updates } : g)),
+        macros: renamed
+          ? macroProfile.macros.map((m) =>
+              m.trigger.gesture === previousName ? { ...m, trigger: { ...m.trigger, gesture: updates.name! } } : m
+            )
+          : macroProfile.macros,
+      });
+    },
+    [macroProfile, onUpdate]
+  );
+
+  const addGesture = useCallback(() => {
+    const gesture: GestureDefinition = {
+      name: `gesture_${macroProfile.gestures.length + 1}`,
+      presses: 2,
+      hold: "super_long",
+      holdOn: "last",
+    };
+    onUpdate({ ...macroProfile, gestures: [...macroProfile.gestures, gesture] });
+  }, [macroProfile, onUpdate]);
+
+  const deleteGesture = useCallback(
+    (index: number) => {
+      onUpdate({ ...macroProfile, gestures: macroProfile.gestures.filter((_, i) => i !== index) });
+    },
+    [macroProfile, onUpdate]
+  );
+
   const selectedMacro = useMemo(
     () => macroProfile.macros.find((m) => m.id === selectedMacroId) ?? null,
     [macroProfile.macros, selectedMacroId]
   );
 
+  // Bindings saved before the policy existed have none; the agent drops re-triggers for them
+  const selectedConcurrency = selectedMacro?.concurrency ?? DEFAULT_CONCURRENCY;
+
   // Update a specific macro
   const updateMacro = useCallback(
     (macroId: string, updates: Partial<MacroBinding>) => {
@@ -640,7 +838,10 @@ export function SequenceBuilder({ macroProfile, onUpdate }: SequenceBuilderProps
 
   // Check if any macros have validation errors
   const hasAnyErrors = useMemo(() => {
-    return macroProfile.macros.some((m) => !validateSequence(m.sequence).valid);
+    return (
+      macroProfile.macros.some((m) => !validateSequence(m.sequence, [], macroProfile.macros, m.name).valid) ||
+      hasErrors(followUpDiagnostics(macroProfile.macros))
+    );
   }, [macroProfile.macros]);
 
   // Apply defaults to all steps in selected macro
@@ -663,54 +864,24 @@ export function SequenceBuilder({ macroProfile, onUpdate }: SequenceBuilderProps
 
   // Export to JSON (only if all macros are valid)
   const exportProfile = useCallback(() => {
-    // Validate all macros before export
-    const invalidMacros = macroProfile.macros.filter((m) => !validateSequence(m.sequence).valid);
-    if (invalidMacros.length > 0) {
+    const { valid, profile: exportData, diagnostics } = exportAgentProfile(macroProfile);
+    const errors = diagnostics.filter((d) => d.severity === "error");
+    if (!valid) {
+      const first = errors[0];
+      const macro = first.path[0] === "macros" ? macroProfile.macros[first.path[1] as number] : undefined;
       toast({
         title: "Cannot export",
-        description: `${invalidMacros.length} macro(s) have validation errors. Fix them first.`,
+        description: `${errors.length} problem(s) found. ${macro ? `"${macro.name}": ` : ""}${formatDiagnostic(first)}`,
         variant: "destructive",
       });
       return;
     }
 
-    const exportData = {
-      name: macroProfile.name,
-      description: macroProfile.description,
-      gestureSettings: {
-        multiPressWindow: macroProfile.gestureSettings.multiPressWindow,
-        debounceDelay: macroProfile.gestureSettings.debounceDelay,
-        longPressMin: macroProfile.gestureSettings.longPressMin,
-        longPressMax: macroProfile.gestureSettings.longPressMax,
-        superLongMin: macroProfile.gestureSettings.superLongMin,
-        superLongMax: macroProfile.gestureSettings.superLongMax,
-        cancelThreshold: macroProfile.gestureSettings.cancelThreshold,
-      },
-      macros: macroProfile.macros.map((m) => ({
-        name: m.name,
-        trigger: m.trigger,
-        sequence: m.sequence.flatMap((step) => {
-          // Expand echo hits into separate steps
-          const steps = [];
-          for (let i = 0; i < (step.echoHits || 1); i++) {
-            steps.push({
-              key: step.key,
-              name: step.name,  // Include step name for debugging
-              minDelay: step.minDelay,
-              maxDelay: step.maxDelay,
-            });
-          }
-          return steps;
-        }),
-        enabled: m.enabled,
-      })),
-    };
-
     const blob = new Blob([JSON.stringify(exportData, null, 2)], { type: "application/json" });
     const url = URL.createObjectURL(blob);
     const a = document.createElement("a");
     a.href = url;
-    a.download = `${macroProfile.name.replace(/\s+/g, "-").toLowerCase()}-macros.json`;
+    a.download = agentProfileFilename(macroProfile.name);
     a.click();
     URL.revokeObjectURL(url);
     toast({ title: "Profile exported", description: "Copy to local-macro-agent/profiles/" });
@@ -718,41 +889,60 @@ export function SequenceBuilder({ macroProfile, onUpdate }: SequenceBuilderProps
 
   // Validation for selected macro
   const validation = useMemo(() => {
-    if (!selectedMacro) return { valid: true, errors: [] };
-    return validateSequence(selectedMacro.sequence);
-  }, [selectedMacro]);
+    if (!selectedMacro) return { valid: true, diagnostics: [] };
+    return validateSequence(selectedMacro.sequence, [], macroProfile.macros, selectedMacro.name);
+  }, [selectedMacro, macroProfile.macros]);
+
+  // Inline diagnostics for one field of a step in the selected macro
+  const fieldDiagnostics = useCallback(
+    (stepIndex: number, field: keyof SequenceStep) => diagnosticsAt(validation.diagnostics, stepIndex, field),
+    [validation]
+  );
+
+  // Grammar problems and triggers naming undefined gestures, for the whole profile
+  const gestureIssues = useMemo(
+    () => gestureDiagnostics(macroProfile.gestures, macroProfile.macros),
+    [macroProfile.gestures, macroProfile.macros]
+  );
+
+  // Unknown-gesture errors and duplicate-trigger warnings for the selected macro
+  const triggerDiagnostics = useMemo(() => {
+    const index = macroProfile.macros.findIndex((m) => m.id === selectedMacroId);
+    if (index === -1) return [];
+    return diagnosticsAt([...gestureIssues, ...bindingWarnings(macroProfile.macros)], "macros", index, "trigger");
+  }, [macroProfile.macros, selectedMacroId, gestureIssues]);
+
+  // Missing or looping onComplete follow-up of the selected macro
+  const followUpIssues = useMemo(() => {
+    const index = macroProfile.macros.findIndex((m) => m.id === selectedMacroId);
+    if (index === -1) return [];
+    return diagnosticsAt(followUpDiagnostics(macroProfile.macros), "macros", index, "onComplete");
+  }, [macroProfile.macros, selectedMacroId]);
+
+  // The selected macro with its call steps expanded, as the agent runs it
+  const expandedSequence = useMemo(() => {
+    if (!selectedMacro) return [];
+    const { steps } = expandSequence(selectedMacro.sequence, macroProfile.macros, [], [selectedMacro.name]);
+    // Called steps can repeat; give each copy its own id
+    return executionSteps(steps).map((step, i) => ({ ...step, id: `${step.id}-${i}` }));
+  }, [selectedMacro, macroProfile.macros]);
 
   // Calculate timing stats
   const timingStats = useMemo(() => {
     if (!selectedMacro) return null;
-    let minTotal = 0;
-    let maxTotal = 0;
-    let totalSteps = 0;
-
-    for (const step of selectedMacro.sequence) {
-      const hits = step.echoHits || 1;
-      totalSteps += hits;
-      for (let i = 0; i < hits; i++) {
-        minTotal += step.minDelay;
-        maxTotal += step.maxDelay;
-      }
-    }
+    const totalSteps = expandedSequence.reduce((sum, step) => sum + (step.echoHits || 1), 0);
 
-    // Subtract last step delay (no delay after final keypress)
-    if (selectedMacro.sequence.length > 0) {
-      const lastStep = selectedMacro.sequence[selectedMacro.sequence.length - 1];
-      minTotal -= lastStep.minDelay;
-      maxTotal -= lastStep.maxDelay;
-    }
+    // Holds, plus a delay after every keypress except the last
+    const { min: minTotal, max: maxTotal } = sequenceDuration(expandedSequence);
 
     return { minTotal, maxTotal, totalSteps };
-  }, [selectedMacro]);
+  }, [selectedMacro, expandedSequence]);
 
   // Count unique keys
   const uniqueKeyCount = useMemo(() => {
-    if (!selectedMacro) return 0;
-    return new Set(selectedMacro.sequence.map((s) => s.key)).size;
-  }, [selectedMacro]);
+    // Chords count as their own key; "up" steps only release one
+    return new Set(expandedSequence.filter((s) => s.action !== "up").map(chordId)).size;
+  }, [expandedSequence]);
 
   return (
     <div className="flex gap-6 h-full" data-testid="sequence-builder">
@@ -774,7 +964,7 @@ export function SequenceBuilder({ macroProfile, onUpdate }: SequenceBuilderProps
         <ScrollArea className="flex-1">
           <div className="p-3 space-y-2">
             {macroProfile.macros.map((macro) => {
-              const macroValidation = validateSequence(macro.sequence);
+              const macroValidation = validateSequence(macro.sequence, [], macroProfile.macros, macro.name);
               return (
                 <div
                   key={macro.id}
@@ -799,7 +989,7 @@ export function SequenceBuilder({ macroProfile, onUpdate }: SequenceBuilderProps
                   </div>
                   <div className="flex items-center gap-2 mt-1 text-xs text-muted-foreground">
                     <Badge variant="secondary" className="text-xs">{macro.trigger.key}</Badge>
-                    <span>{GESTURE_LABELS[macro.trigger.gesture]}</span>
+                    <span>{gestureLabel(macro.trigger.gesture)}</span>
                   </div>
                 </div>
               );
@@ -919,15 +1109,85 @@ export function SequenceBuilder({ macroProfile, onUpdate }: SequenceBuilderProps
                     <SelectValue />
                   </SelectTrigger>
                   <SelectContent>
-                    {Object.entries(GESTURE_LABELS).map(([value, label]) => (
-                      <SelectItem key={value} value={value}>
-                        {label}
+                    {gestureNames(macroProfile.gestures).map((gesture) => (
+                      <SelectItem key={gesture} value={gesture}>
+                        {gestureLabel(gesture)}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="flex-1">
+                <Label className="text-xs text-muted-foreground mb-1 block">When Re-triggered</Label>
+                <Select
+                  value={selectedConcurrency.mode}
+                  onValueChange={(mode) =>
+                    updateMacro(selectedMacro.id, {
+                      concurrency: { ...selectedConcurrency, mode: mode as ConcurrencyMode },
+                    })
+                  }
+                >
+                  <SelectTrigger data-testid="select-concurrency-mode">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {CONCURRENCY_MODES.map((mode) => (
+                      <SelectItem key={mode} value={mode}>
+                        {CONCURRENCY_LABELS[mode]}
                       </SelectItem>
                     ))}
                   </SelectContent>
                 </Select>
               </div>
+              {selectedConcurrency.mode === "queue" && (
+                <div className="w-24">
+                  <Label className="text-xs text-muted-foreground mb-1 block">Max Queue</Label>
+                  <Input
+                    type="number"
+                    min={1}
+                    max={MAX_QUEUE_DEPTH}
+                    value={selectedConcurrency.maxQueue}
+                    onChange={(e) =>
+                      updateMacro(selectedMacro.id, {
+                        concurrency: {
+                          ...selectedConcurrency,
+                          maxQueue: Math.min(MAX_QUEUE_DEPTH, Math.max(1, parseInt(e.target.value) || 1)),
+                        },
+                      })
+                    }
+                    data-testid="input-concurrency-max-queue"
+                  />
+                </div>
+              )}
+              <div className="flex-1">
+                <Label className="text-xs text-muted-foreground mb-1 block">Then Run</Label>
+                <Select
+                  value={selectedMacro.onComplete ?? NO_FOLLOW_UP}
+                  onValueChange={(name) =>
+                    updateMacro(selectedMacro.id, { onComplete: name === NO_FOLLOW_UP ? undefined : name })
+                  }
+                >
+                  <SelectTrigger
+                    className={followUpIssues.length > 0 ? "border-destructive" : ""}
+                    data-testid="select-on-complete"
+                  >
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NO_FOLLOW_UP}>Nothing</SelectItem>
+                    {macroProfile.macros
+                      .filter((m) => m.id !== selectedMacro.id)
+                      .map((m) => (
+                        <SelectItem key={m.id} value={m.name}>
+                          {m.name}
+                        </SelectItem>
+                      ))}
+                  </SelectContent>
+                </Select>
+              </div>
             </div>
+            <FieldDiagnostics diagnostics={triggerDiagnostics} />
+            <FieldDiagnostics diagnostics={followUpIssues} />
           </CardHeader>
 
           <Separator />
@@ -964,13 +1224,15 @@ export function SequenceBuilder({ macroProfile, onUpdate }: SequenceBuilderProps
                 <TooltipTrigger>
                   <Badge variant="destructive">
                     <AlertTriangle className="w-3 h-3 mr-1" />
-                    {validation.errors.length} error{validation.errors.length !== 1 ? "s" : ""}
+                    {validation.diagnostics.length} error{validation.diagnostics.length !== 1 ? "s" : ""}
                   </Badge>
                 </TooltipTrigger>
                 <TooltipContent side="bottom" className="max-w-sm">
                   <ul className="text-xs space-y-1">
-                    {validation.errors.map((e, i) => (
-                      <li key={i}>{e}</li>
+                    {validation.diagnostics.map((d, i) => (
+                      <li key={i}>
+                        {typeof d.path[0] === "number" ? `Step ${d.path[0] + 1}: ` : ""}{d.message}
+                      </li>
                     ))}
                   </ul>
                 </TooltipContent>
@@ -1013,7 +1275,7 @@ export function SequenceBuilder({ macroProfile, onUpdate }: SequenceBuilderProps
 
                 <TabsContent value="graph" className="mt-0">
                   <TimingGraph 
-                    sequence={selectedMacro.sequence} 
+                    sequence={expandedSequence} 
                     macroName={selectedMacro.name}
                   />
                 </TabsContent>
@@ -1032,7 +1294,7 @@ export function SequenceBuilder({ macroProfile, onUpdate }: SequenceBuilderProps
                                     className="px-3 py-2 bg-primary/10 border border-primary/20 rounded-md text-sm font-mono whitespace-nowrap cursor-default"
                                     data-testid={`timeline-step-${step.id}-${hitIdx}`}
                                   >
-                                    <div className="text-center">{step.key}</div>
+                                    <div className="text-center">{describeStep(step)}</div>
                                     {step.name && (
                                       <div className="text-[9px] text-muted-foreground truncate max-w-16">
                                         {step.name}
@@ -1044,7 +1306,7 @@ export function SequenceBuilder({ macroProfile, onUpdate }: SequenceBuilderProps
                                   <div className="text-xs">
                                     <div className="font-medium">{step.name || `Step ${idx + 1}`}</div>
                                     <div className="text-muted-foreground">
-                                      {step.key} • Echo {hitIdx + 1}/{step.echoHits || 1}
+                                      {describeStep(step)} • Echo {hitIdx + 1}/{step.echoHits || 1}
                                     </div>
                                   </div>
                                 </TooltipContent>
@@ -1118,10 +1380,33 @@ export function SequenceBuilder({ macroProfile, onUpdate }: SequenceBuilderProps
                               <div>
                                 <Label className="text-xs text-muted-foreground">Key</Label>
                                 <Select
-                                  value={step.key}
-                                  onValueChange={(key) => updateStep(selectedMacro.id, step.id, { key })}
+                                  value={step.call !== undefined ? `${CALL_PREFIX}${step.call}` : step.key}
+                                  onValueChange={(value) => {
+                                    if (value.startsWith(CALL_PREFIX)) {
+                                      updateStep(selectedMacro.id, step.id, {
+                                        key: "",
+                                        call: value.slice(CALL_PREFIX.length),
+                                        action: undefined,
+                                        modifiers: undefined,
+                                        holdMs: undefined,
+                                      });
+                                      return;
+                                    }
+                                    updateStep(
+                                      selectedMacro.id,
+                                      step.id,
+                                      // Scroll steps only tap
+                                      scrollOutput(value)
+                                        ? { key: value, call: undefined, action: "tap", holdMs: undefined }
+                                        : { key: value, call: undefined }
+                                    );
+                                  }}
                                 >
-                                  <SelectTrigger className="mt-1" data-testid={`select-step-key-${step.id}`}>
+                                  <SelectTrigger
+                                    className={`mt-1 ${fieldDiagnostics(idx, step.call !== undefined ? "call" : "key").length > 0 ? "border-destructive" : ""}`}
+                                    aria-invalid={fieldDiagnostics(idx, step.call !== undefined ? "call" : "key").length > 0}
+                                    data-testid={`select-step-key-${step.id}`}
+                                  >
                                     <SelectValue />
                                   </SelectTrigger>
                                   <SelectContent>
@@ -1130,8 +1415,17 @@ export function SequenceBuilder({ macroProfile, onUpdate }: SequenceBuilderProps
                                         {key}
                                       </SelectItem>
                                     ))}
+                                    {/* Other macros, run inline */}
+                                    {macroProfile.macros
+                                      .filter((m) => m.id !== selectedMacro.id)
+                                      .map((m) => (
+                                        <SelectItem key={m.id} value={`${CALL_PREFIX}${m.name}`}>
+                                          Call "{m.name}"
+                                        </SelectItem>
+                                      ))}
                                   </SelectContent>
                                 </Select>
+                                <FieldDiagnostics diagnostics={fieldDiagnostics(idx, step.call !== undefined ? "call" : "key")} />
                               </div>
 
                               {/* Echo Hits (Repetitions) */}
@@ -1143,7 +1437,7 @@ export function SequenceBuilder({ macroProfile, onUpdate }: SequenceBuilderProps
                                       <span className="ml-1 text-muted-foreground/60">(?)</span>
                                     </TooltipTrigger>
                                     <TooltipContent>
-                                      Repeat this key press multiple times
+                                      Repeat this key press multiple times; for scroll, the number of wheel notches
                                     </TooltipContent>
                                   </Tooltip>
                                 </Label>
@@ -1152,7 +1446,7 @@ export function SequenceBuilder({ macroProfile, onUpdate }: SequenceBuilderProps
                                     value={[step.echoHits || 1]}
                                     onValueChange={([v]) => updateStep(selectedMacro.id, step.id, { echoHits: v })}
                                     min={1}
-                                    max={SEQUENCE_CONSTRAINTS.MAX_REPEATS_PER_KEY}
+                                    max={SEQUENCE_CONSTRAINTS.MAX_ECHO_HITS}
                                     step={1}
                                     className="flex-1"
                                     data-testid={`slider-echo-hits-${step.id}`}
@@ -1161,6 +1455,7 @@ export function SequenceBuilder({ macroProfile, onUpdate }: SequenceBuilderProps
                                     {step.echoHits || 1}x
                                   </span>
                                 </div>
+                                <FieldDiagnostics diagnostics={fieldDiagnostics(idx, "echoHits")} />
                               </div>
 
                               {/* Min Delay */}
@@ -1180,10 +1475,12 @@ export function SequenceBuilder({ macroProfile, onUpdate }: SequenceBuilderProps
                                       });
                                     }}
                                     min={SEQUENCE_CONSTRAINTS.MIN_DELAY}
-                                    className="font-mono"
+                                    className={`font-mono ${fieldDiagnostics(idx, "minDelay").length > 0 ? "border-destructive" : ""}`}
+                                    aria-invalid={fieldDiagnostics(idx, "minDelay").length > 0}
                                     data-testid={`input-min-delay-${step.id}`}
                                   />
                                 </div>
+                                <FieldDiagnostics diagnostics={fieldDiagnostics(idx, "minDelay")} />
                               </div>
 
                               {/* Max Delay */}
@@ -1202,12 +1499,111 @@ export function SequenceBuilder({ macroProfile, onUpdate }: SequenceBuilderProps
                                       });
                                     }}
                                     min={step.minDelay + SEQUENCE_CONSTRAINTS.MIN_VARIANCE}
-                                    className="font-mono"
+                                    className={`font-mono ${fieldDiagnostics(idx, "maxDelay").length > 0 ? "border-destructive" : ""}`}
+                                    aria-invalid={fieldDiagnostics(idx, "maxDelay").length > 0}
                                     data-testid={`input-max-delay-${step.id}`}
                                   />
                                 </div>
+                                <FieldDiagnostics diagnostics={fieldDiagnostics(idx, "maxDelay")} />
                               </div>
                             </div>
+
+                            {/* Call steps take their keys from the called macro */}
+                            {step.call === undefined && (
+                              <div className="grid grid-cols-4 gap-4">
+                                {/* Action */}
+                                <div>
+                                  <Label className="text-xs text-muted-foreground">Action</Label>
+                                  <Select
+                                    value={step.action ?? "tap"}
+                                    onValueChange={(value) => {
+                                      const action = value as StepAction;
+                                      const single = action === "down" || action === "up";
+                                      updateStep(selectedMacro.id, step.id, {
+                                        action,
+                                        holdMs: action === "hold" ? step.holdMs ?? DEFAULT_HOLD_MS : undefined,
+                                        ...(single ? { echoHits: 1, modifiers: undefined } : {}),
+                                      });
+                                    }}
+                                  >
+                                    <SelectTrigger
+                                      className={`mt-1 ${fieldDiagnostics(idx, "action").length > 0 ? "border-destructive" : ""}`}
+                                      data-testid={`select-step-action-${step.id}`}
+                                    >
+                                      <SelectValue />
+                                    </SelectTrigger>
+                                    <SelectContent>
+                                      {STEP_ACTIONS.map((action) => (
+                                        <SelectItem
+                                          key={action}
+                                          value={action}
+                                          disabled={action !== "tap" && scrollOutput(step.key) !== null}
+                                        >
+                                          {STEP_ACTION_LABELS[action]}
+                                        </SelectItem>
+                                      ))}
+                                    </SelectContent>
+                                  </Select>
+                                  <FieldDiagnostics diagnostics={fieldDiagnostics(idx, "action")} />
+                                </div>
+
+                                {/* Chord Modifiers */}
+                                <div className="col-span-2">
+                                  <Label className="text-xs text-muted-foreground">Modifiers</Label>
+                                  <div className="flex gap-1 mt-1">
+                                    {MODIFIER_KEYS.map((modifier) => {
+                                      const active = step.modifiers?.includes(modifier) ?? false;
+                                      const toggled: ModifierKey[] = active
+                                        ? (step.modifiers ?? []).filter((m) => m !== modifier)
+                                        : [...(step.modifiers ?? []), modifier];
+                                      return (
+                                        <Button
+                                          key={modifier}
+                                          variant={active ? "default" : "outline"}
+                                          size="sm"
+                                          className="h-9 font-mono"
+                                          disabled={step.action === "down" || step.action === "up"}
+                                          onClick={() =>
+                                            updateStep(selectedMacro.id, step.id, {
+                                              modifiers: toggled.length > 0 ? toggled : undefined,
+                                            })
+                                          }
+                                          data-testid={`button-modifier-${modifier}-${step.id}`}
+                                        >
+                                          {modifier}
+                                        </Button>
+                                      );
+                                    })}
+                                    <span className="self-center ml-2 text-xs font-mono text-muted-foreground">
+                                      {chordId(step)}
+                                    </span>
+                                  </div>
+                                  <FieldDiagnostics diagnostics={fieldDiagnostics(idx, "modifiers")} />
+                                </div>
+
+                                {/* Hold Duration */}
+                                {step.action === "hold" && (
+                                  <div>
+                                    <Label className="text-xs text-muted-foreground">Hold (ms)</Label>
+                                    <Input
+                                      type="number"
+                                      value={step.holdMs ?? DEFAULT_HOLD_MS}
+                                      onChange={(e) =>
+                                        updateStep(selectedMacro.id, step.id, {
+                                          holdMs: parseInt(e.target.value) || SEQUENCE_CONSTRAINTS.MIN_DELAY,
+                                        })
+                                      }
+                                      min={SEQUENCE_CONSTRAINTS.MIN_DELAY}
+                                      max={SEQUENCE_CONSTRAINTS.MAX_HOLD_MS}
+                                      className={`mt-1 font-mono ${fieldDiagnostics(idx, "holdMs").length > 0 ? "border-destructive" : ""}`}
+                                      aria-invalid={fieldDiagnostics(idx, "holdMs").length > 0}
+                                      data-testid={`input-hold-ms-${step.id}`}
+                                    />
+                                    <FieldDiagnostics diagnostics={fieldDiagnostics(idx, "holdMs")} />
+                                  </div>
+                                )}
+                              </div>
+                            )}
                           </div>
 
                           {/* Delete Button */}
@@ -1305,7 +1701,7 @@ export function SequenceBuilder({ macroProfile, onUpdate }: SequenceBuilderProps
                                 value={[macroProfile.gestureSettings.defaultEchoHits]}
                                 onValueChange={([v]) => updateSettings({ defaultEchoHits: v })}
                                 min={1}
-                                max={SEQUENCE_CONSTRAINTS.MAX_REPEATS_PER_KEY}
+                                max={SEQUENCE_CONSTRAINTS.MAX_ECHO_HITS}
                                 step={1}
                                 className="flex-1"
                                 data-testid="slider-default-echo-hits"
@@ -1335,6 +1731,134 @@ export function SequenceBuilder({ macroProfile, onUpdate }: SequenceBuilderProps
                     </Card>
                   </Collapsible>
 
+                  {/* Gesture Definitions */}
+                  <Collapsible open={gesturesOpen} onOpenChange={setGesturesOpen}>
+                    <Card className="p-4">
+                      <CollapsibleTrigger className="flex items-center justify-between w-full">
+                        <h4 className="text-sm font-medium flex items-center gap-2">
+                          <Keyboard className="w-4 h-4" />
+                          Gestures ({macroProfile.gestures.length})
+                        </h4>
+                        <ChevronRight className={`w-4 h-4 transition-transform ${gesturesOpen ? "rotate-90" : ""}`} />
+                      </CollapsibleTrigger>
+                      <CollapsibleContent className="pt-4 space-y-3">
+                        <p className="text-xs text-muted-foreground">
+                          A gesture is a number of presses plus the hold of the last (or any) press.
+                          The first matching gesture wins. Cancel (hold past the cancel threshold) is built in.
+                        </p>
+                        {macroProfile.gestures.map((gesture, index) => (
+                          <div key={index} data-testid={`gesture-definition-${index}`}>
+                            <div className="grid grid-cols-[1fr_5rem_7rem_5rem_auto] gap-2 items-center">
+                              <Input
+                                value={gesture.name}
+                                onChange={(e) => updateGesture(index, { name: e.target.value.toLowerCase() })}
+                                className={`h-8 font-mono text-sm ${diagnosticsAt(gestureIssues, "gestures", index, "name").length > 0 ? "border-destructive" : ""}`}
+                                aria-invalid={diagnosticsAt(gestureIssues, "gestures", index, "name").length > 0}
+                                data-testid={`input-gesture-name-${index}`}
+                              />
+                              <Select
+                                value={String(gesture.presses)}
+                                onValueChange={(v) => updateGesture(index, { presses: parseInt(v) })}
+                              >
+                                <SelectTrigger className="h-8" data-testid={`select-gesture-presses-${index}`}>
+                                  <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                  {Array.from({ length: MAX_GESTURE_PRESSES }, (_, i) => i + 1).map((n) => (
+                                    <SelectItem key={n} value={String(n)}>
+                                      {n}x
+                                    </SelectItem>
+                                  ))}
+                                </SelectContent>
+                              </Select>
+                              <Select
+                                value={gesture.hold}
+                                onValueChange={(hold) => updateGesture(index, { hold: hold as HoldTier })}
+                              >
+                                <SelectTrigger className="h-8" data-testid={`select-gesture-hold-${index}`}>
+                                  <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                  {HOLD_TIERS.map((tier) => (
+                                    <SelectItem key={tier} value={tier}>
+                                      {HOLD_LABELS[tier]}
+                                    </SelectItem>
+                                  ))}
+                                </SelectContent>
+                              </Select>
+                              <Select
+                                value={gesture.holdOn}
+                                onValueChange={(holdOn) => updateGesture(index, { holdOn: holdOn as GestureDefinition["holdOn"] })}
+                                disabled={gesture.presses === 1}
+                              >
+                                <SelectTrigger className="h-8" data-testid={`select-gesture-hold-on-${index}`}>
+                                  <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                  <SelectItem value="last">Last</SelectItem>
+                                  <SelectItem value="any">Any</SelectItem>
+                                </SelectContent>
+                              </Select>
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                className="h-8 w-8"
+                                onClick={() => deleteGesture(index)}
+                                data-testid={`button-delete-gesture-${index}`}
+                              >
+                                <Trash2 className="w-4 h-4 text-destructive" />
+                              </Button>
+                            </div>
+                            <p className="text-xs text-muted-foreground mt-1">{describeGesture(gesture)}</p>
+                            <FieldDiagnostics diagnostics={diagnosticsAt(gestureIssues, "gestures", index)} />
+                          </div>
+                        ))}
+                        <Button variant="outline" size="sm" onClick={addGesture} data-testid="button-add-gesture">
+                          <Plus className="w-4 h-4 mr-2" />
+                          Add Gesture
+                        </Button>
+                      </CollapsibleContent>
+                    </Card>
+                  </Collapsible>
+
+                  {/* Safety Interlock */}
+                  <Collapsible open={safetyOpen} onOpenChange={setSafetyOpen}>
+                    <Card className="p-4">
+                      <CollapsibleTrigger className="flex items-center justify-between w-full">
+                        <h4 className="text-sm font-medium flex items-center gap-2">
+                          <OctagonX className="w-4 h-4" />
+                          Panic Hotkey
+                          {macroProfile.safety.panic && (
+                            <Badge variant="outline" className="font-mono text-xs">
+                              {describeHotkey(macroProfile.safety.panic)}
+                            </Badge>
+                          )}
+                        </h4>
+                        <ChevronRight className={`w-4 h-4 transition-transform ${safetyOpen ? "rotate-90" : ""}`} />
+                      </CollapsibleTrigger>
+                      <CollapsibleContent className="pt-4 space-y-3">
+                        <p className="text-xs text-muted-foreground">
+                          Hold every key at once to stop all running sequences and pause the agent until the
+                          resume hotkey. Without a resume hotkey, the panic hotkey resumes too.
+                        </p>
+                        <HotkeyEditor
+                          label="Panic Keys"
+                          hotkey={macroProfile.safety.panic}
+                          placeholder="e.g. SHIFT+F12"
+                          testId="panic"
+                          onChange={(panic) => updateSafety({ panic })}
+                        />
+                        <HotkeyEditor
+                          label="Resume Keys"
+                          hotkey={macroProfile.safety.resume}
+                          placeholder="Same as panic"
+                          testId="resume"
+                          onChange={(resume) => updateSafety({ resume })}
+                        />
+                      </CollapsibleContent>
+                    </Card>
+                  </Collapsible>
+
                   {/* Constraints Info */}
                   <Card className="p-4 bg-muted/30">
                     <h4 className="text-sm font-medium mb-2 flex items-center gap-2">
@@ -0,0 +1,50 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import type { Profile, ProfileRevision, ProfileRevisionSummary } from "@shared/schema";
+import type { ProfileDiff } from "@shared/profileHistory";
+
+export interface RevisionDiffResponse {
+  from: number;
+  to: number;
+  diff: ProfileDiff;
+}
+
+export function useProfileRevisions(profileId: string) {
+  return useQuery<ProfileRevisionSummary[]>({
+    queryKey: ["/api/profiles", profileId, "revisions"],
+    enabled: !!profileId,
+  });
+}
+
+export function useProfileRevision(profileId: string, revisionId: string | null) {
+  return useQuery<ProfileRevision>({
+    queryKey: ["/api/profiles", profileId, "revisions", revisionId],
+    enabled: !!profileId && !!revisionId,
+  });
+}
+
+export function useRevisionDiff(profileId: string, fromId: string | null, toId: string | null) {
+  return useQuery<RevisionDiffResponse>({
+    // Revisions are immutable, so a diff between two ids never goes stale
+    queryKey: ["/api/profiles", profileId, `revisions/diff?from=${fromId}&to=${toId}`],
+    enabled: !!profileId && !!fromId && !!toId && fromId !== toId,
+  });
+}
+
+export function useRestoreRevision() {
+  return useMutation({
+    mutationFn: async ({ profileId, revisionId }: { profileId: string; revisionId: string }) => {
+      const res = await apiRequest("POST", `/api/profiles/${profileId}/revisions/${revisionId}/restore`);
+      return await res.json() as Profile;
+    },
+    onSuccess: (restoredProfile, variables) => {
+      queryClient.setQueryData(["/api/profiles"], (old: Profile[] | undefined) => {
+        if (!old) return old;
+        return old.map(p => p.id === restoredProfile.id ? restoredProfile : p);
+      });
+      queryClient.setQueryData(["/api/profiles", variables.profileId], restoredProfile);
+      // Refreshes the profile list and this profile's revision list
+      queryClient.invalidateQueries({ queryKey: ["/api/profiles"] });
+    },
+  });
+}
@@ -1,5 +1,5 @@
 import { useQuery, useMutation } from "@tanstack/react-query";
-import { queryClient, apiRequest } from "@/lib/queryClient";
+import { queryClient, apiRequest, ApiError } from "@/lib/queryClient";
 import type { Profile, InsertProfile } from "@shared/schema";
 
 export function useProfiles() {
@@ -33,12 +33,45 @@ export function useCreateProfile() {
   });
 }
 
+// Response body of a 409 from PATCH /api/profiles/:id
+export interface ProfileConflict {
+  error: string;
+  current: Profile;
+}
+
+export function isProfileConflict(error: unknown): error is ApiError {
+  return error instanceof ApiError && error.status === 409;
+}
+
+function cachedProfile(id: string): Profile | undefined {
+  return (
+    queryClient.getQueryData<Profile>(["/api/profiles", id]) ??
+    queryClient.getQueryData<Profile[]>(["/api/profiles"])?.find(p => p.id === id)
+  );
+}
+
 export function useUpdateProfile() {
   return useMutation({
+    // Updates run one at a time so each one is based on the version the previous one returned
+    scope: { id: "profile-update" },
     mutationFn: async ({ id, updates }: { id: string; updates: Partial<InsertProfile> }) => {
-      const res = await apiRequest("PATCH", `/api/profiles/${id}`, updates);
+      const base = cachedProfile(id);
+      const headers = base
+        ? { "If-Match": `"${new Date(base.updatedAt).getTime()}"` }
+        : undefined;
+      const res = await apiRequest("PATCH", `/api/profiles/${id}`, updates, headers);
       return await res.json() as Profile;
     },
+    onError: (error, variables) => {
+      // Another client saved first: adopt the server copy so the next edit applies on top of it
+      const conflict = isProfileConflict(error) ? error.json<ProfileConflict>() : undefined;
+      if (!conflict?.current) return;
+      queryClient.setQueryData(["/api/profiles"], (old: Profile[] | undefined) => {
+        if (!old) return old;
+        return old.map(p => p.id === conflict.current.id ? conflict.current : p);
+      });
+      queryClient.setQueryData(["/api/profiles", variables.id], conflict.current);
+    },
     onSuccess: (updatedProfile, variables) => {
       // Immediately update the query cache with the returned profile
       queryClient.setQueryData(["/api/profiles"], (old: Profile[] | undefined) => {
@@ -0,0 +1,58 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import type { SequenceProfile, InsertSequenceProfile } from "@shared/schema";
+
+function listKey(profileId: string) {
+  return ["/api/profiles", profileId, "sequence-profiles"];
+}
+
+export function useSequenceProfiles(profileId: string) {
+  return useQuery<SequenceProfile[]>({
+    queryKey: listKey(profileId),
+    enabled: !!profileId,
+  });
+}
+
+export function useCreateSequenceProfile() {
+  return useMutation({
+    mutationFn: async (sequenceProfile: InsertSequenceProfile) => {
+      const res = await apiRequest("POST", "/api/sequence-profiles", sequenceProfile);
+      return await res.json() as SequenceProfile;
+    },
+    onSuccess: (newSequenceProfile) => {
+      queryClient.setQueryData(listKey(newSequenceProfile.profileId), (old: SequenceProfile[] | undefined) => {
+        return old ? [...old, newSequenceProfile] : [newSequenceProfile];
+      });
+      queryClient.setQueryData(["/api/sequence-profiles", newSequenceProfile.id], newSequenceProfile);
+    },
+  });
+}
+
+export function useUpdateSequenceProfile() {
+  return useMutation({
+    // Saves run in order so a slow request never overwrites a newer edit
+    scope: { id: "sequence-profile-update" },
+    mutationFn: async ({ id, updates }: { id: string; updates: Partial<InsertSequenceProfile> }) => {
+      const res = await apiRequest("PATCH", `/api/sequence-profiles/${id}`, updates);
+      return await res.json() as SequenceProfile;
+    },
+    onSuccess: (updatedSequenceProfile) => {
+      queryClient.setQueryData(listKey(updatedSequenceProfile.profileId), (old: SequenceProfile[] | undefined) => {
+        if (!old) return old;
+        return old.map(sp => sp.id === updatedSequenceProfile.id ? updatedSequenceProfile : sp);
+      });
+      queryClient.setQueryData(["/api/sequence-profiles", updatedSequenceProfile.id], updatedSequenceProfile);
+    },
+  });
+}
+
+export function useDeleteSequenceProfile() {
+  return useMutation({
+    mutationFn: async (sequenceProfile: SequenceProfile) => {
+      await apiRequest("DELETE", `/api/sequence-profiles/${sequenceProfile.id}`, undefined);
+    },
+    onSuccess: (_data, sequenceProfile) => {
+      queryClient.invalidateQueries({ queryKey: listKey(sequenceProfile.profileId) });
+    },
+  });
+}
@@ -3,6 +3,15 @@
  * Supports simultaneous multi-key sequence tracking with dynamic timing windows
  */
 
+import {
+  holdTier,
+  resolveGesture,
+  canExtendGesture,
+  type GestureDefinition,
+  type HoldTier,
+} from "@shared/schema";
+import { systemClock, type Clock, type TimerHandle } from "../../../agent-profile/clock";
+
 export type GesturePhase = "idle" | "recording" | "executing" | "cooldown";
 
 export type LongPressTier = "none" | "long" | "super_long" | "canceled";
@@ -34,8 +43,8 @@ export interface KeyTimelineState {
   longPressTier: LongPressTier;
   
   // Timers
-  waitTimer: NodeJS.Timeout | null;
-  longPressTimer: NodeJS.Timeout | null;
+  waitTimer: TimerHandle | null;
+  longPressTimer: TimerHandle | null;
   
   // Result
   detectedGesture: string | null;
@@ -49,18 +58,41 @@ const SUPER_LONG_PRESS_MIN = 180;
 const CANCEL_THRESHOLD_MS = 250;
 const EMERGENCY_CANCEL_MS = 28;
 
+// Hold tiers use the simulator's thresholds; super long wins from 180ms
+const HOLD_THRESHOLDS = {
+  longPressMin: LONG_PRESS_MIN,
+  longPressMax: SUPER_LONG_PRESS_MIN,
+  superLongMin: SUPER_LONG_PRESS_MIN,
+};
+
+// Practice gesture names, resolved with the same rules as the local agent
+export const SIMULATOR_GESTURES: GestureDefinition[] = [
+  { name: "single_press", presses: 1, hold: "short", holdOn: "last" },
+  { name: "long_press", presses: 1, hold: "long", holdOn: "last" },
+  { name: "super_long_press", presses: 1, hold: "super_long", holdOn: "last" },
+  { name: "double_press", presses: 2, hold: "short", holdOn: "last" },
+  { name: "triple_press", presses: 3, hold: "short", holdOn: "last" },
+  { name: "quadruple_press", presses: 4, hold: "short", holdOn: "last" },
+];
+
 export class GestureManager {
   private keyStates: Map<string, KeyTimelineState>;
   private onGestureDetected?: (key: string, gesture: string, modifiers: string) => void;
   private onGestureAttempt?: (key: string, gesture: string, modifiers: string) => void;
   private onStateUpdate?: () => void;
+  private clock: Clock;
+  private gestures: GestureDefinition[];
   
   constructor(
     onGestureDetected?: (key: string, gesture: string, modifiers: string) => void,
     onStateUpdate?: () => void,
-    onGestureAttempt?: (key: string, gesture: string, modifiers: string) => void
+    onGestureAttempt?: (key: string, gesture: string, modifiers: string) => void,
+    clock: Clock = systemClock,
+    gestures: GestureDefinition[] = SIMULATOR_GESTURES
   ) {
     this.keyStates = new Map();
+    this.clock = clock;
+    this.gestures = gestures;
     this.onGestureDetected = onGestureDetected;
     this.onStateUpdate = onStateUpdate;
     this.onGestureAttempt = onGestureAttempt;
@@ -104,11 +136,11 @@ export class GestureManager {
    */
   private clearTimers(state: KeyTimelineState): void {
     if (state.waitTimer) {
-      clearTimeout(state.waitTimer);
+      this.clock.clearTimeout(state.waitTimer);
       state.waitTimer = null;
     }
     if (state.longPressTimer) {
-      clearTimeout(state.longPressTimer);
+      this.clock.clearTimeout(state.longPressTimer);
       state.longPressTimer = null;
     }
   }
@@ -129,7 +161,7 @@ export class GestureManager {
    */
   startPress(keyCode: string, modifierHash: string = "normal"): void {
     const state = this.getOrCreateState(keyCode, modifierHash);
-    const now = Date.now();
+    const now = this.clock.now();
     
     // Clear ALL existing timers (new press interrupts everything)
     this.clearTimers(state);
@@ -150,7 +182,7 @@ export class GestureManager {
     console.log(`[GestureManager] ${keyCode} press #${state.pressCount} (${modifierHash}), wait window: ${state.waitWindowMs}ms`);
     
     // Start long press detection timer
-    state.longPressTimer = setTimeout(() => {
+    state.longPressTimer = this.clock.setTimeout(() => {
       this.checkLongPressTier(state);
     }, LONG_PRESS_MIN);
     
@@ -163,7 +195,7 @@ export class GestureManager {
   private checkLongPressTier(state: KeyTimelineState): void {
     if (!state.pressStartTime) return;
     
-    const holdDuration = Date.now() - state.pressStartTime;
+    const holdDuration = this.clock.now() - state.pressStartTime;
     
     if (holdDuration >= CANCEL_THRESHOLD_MS) {
       // Cancel entire sequence for this key - track as failed attempt
@@ -186,7 +218,7 @@ export class GestureManager {
       this.notifyStateUpdate();
       
       // Schedule cancel check
-      state.longPressTimer = setTimeout(() => {
+      state.longPressTimer = this.clock.setTimeout(() => {
         this.checkLongPressTier(state);
       }, CANCEL_THRESHOLD_MS - holdDuration);
       return;
@@ -198,7 +230,7 @@ export class GestureManager {
       this.notifyStateUpdate();
       
       // Schedule super long check
-      state.longPressTimer = setTimeout(() => {
+      state.longPressTimer = this.clock.setTimeout(() => {
         this.checkLongPressTier(state);
       }, SUPER_LONG_PRESS_MIN - holdDuration);
       return;
@@ -217,14 +249,14 @@ export class GestureManager {
       return;
     }
     
-    const now = Date.now();
+    const now = this.clock.now();
     const holdDuration = now - state.pressStartTime;
     
     console.log(`[GestureManager] ${keyCode} release after ${holdDuration}ms, pressCount=${state.pressCount}`);
     
     // Clear long press timer
     if (state.longPressTimer) {
-      clearTimeout(state.longPressTimer);
+      this.clock.clearTimeout(state.longPressTimer);
       state.longPressTimer = null;
     }
     
@@ -238,28 +270,17 @@ export class GestureManager {
     state.pressStartTime = null;
     state.lastTapTime = now;
     
-    // Determine if this was a tap or long press
-    if (holdDuration >= LONG_PRESS_MIN && holdDuration < CANCEL_THRESHOLD_MS) {
-      // Long press detected - emit immediately
-      const gesture = holdDuration >= SUPER_LONG_PRESS_MIN ? "super_long_press" : "long_press";
-      
-      console.log(`[GestureManager] Long press detected: ${gesture} (hold=${holdDuration}ms)`);
-      
-      // Track attempt
-      if (this.onGestureAttempt) {
-        this.onGestureAttempt(state.keyCode, gesture, state.modifierHash);
-      }
-      
-      this.emitGesture(state, gesture);
-      this.resetKeyState(state);
-      this.notifyStateUpdate(); // Update UI after reset
+    // A super long press ends the sequence, and so does a press no gesture can follow
+    const tier = holdTier(holdDuration, HOLD_THRESHOLDS);
+    if (tier === "super_long" || !canExtendGesture(state.pressCount, this.gestures)) {
+      this.finalizeGesture(state);
       return;
     }
     
-    // Short tap - start wait window
-    console.log(`[GestureManager] Tap detected, starting ${state.waitWindowMs}ms wait window`);
+    // Start wait window for the next tap
+    console.log(`[GestureManager] ${tier} press, starting ${state.waitWindowMs}ms wait window`);
     state.phase = "executing";
-    state.waitTimer = setTimeout(() => {
+    state.waitTimer = this.clock.setTimeout(() => {
       this.finalizeGesture(state);
     }, state.waitWindowMs);
     
@@ -267,39 +288,40 @@ export class GestureManager {
   }
   
   /**
-   * Finalize and emit gesture after wait window expires
+   * Finalize and emit gesture after wait window expires. Presses that match
+   * no gesture only count as a failed attempt.
    */
   private finalizeGesture(state: KeyTimelineState): void {
-    const gesture = this.determineGesture(state);
+    const gesture = resolveGesture(this.pressTiers(state), this.gestures);
     
-    console.log(`[GestureManager] Finalizing: ${state.keyCode} → ${gesture} (pressCount=${state.pressCount})`);
+    console.log(`[GestureManager] Finalizing: ${state.keyCode} → ${gesture ?? "no gesture"} (pressCount=${state.pressCount})`);
     
     // Track attempt
     if (this.onGestureAttempt) {
-      this.onGestureAttempt(state.keyCode, gesture, state.modifierHash);
+      this.onGestureAttempt(state.keyCode, gesture ?? this.determineGesture(state), state.modifierHash);
     }
     
-    this.emitGesture(state, gesture);
+    if (gesture) {
+      this.emitGesture(state, gesture);
+    }
     this.resetKeyState(state);
     this.notifyStateUpdate();
   }
   
   /**
-   * Determine gesture type from tap count
+   * Hold tier of each released press
+   */
+  private pressTiers(state: KeyTimelineState): HoldTier[] {
+    return state.pressHistory
+      .filter((event) => event.type === "release")
+      .map((event) => holdTier(event.duration ?? 0, HOLD_THRESHOLDS));
+  }
+  
+  /**
+   * Gesture the presses so far are heading for, for attempt tracking
    */
   private determineGesture(state: KeyTimelineState): string {
-    switch (state.pressCount) {
-      case 1:
-        return "single_press";
-      case 2:
-        return "double_press";
-      case 3:
-        return "triple_press";
-      case 4:
-        return "quadruple_press";
-      default:
-        return `${state.pressCount}_press`;
-    }
+    return resolveGesture(this.pressTiers(state), this.gestures) ?? `${state.pressCount}_press`;
   }
   
   /**
@@ -1,7 +1,7 @@
-import { useState, useMemo } from "react";
+import { useState, useMemo, useEffect, useRef } from "react";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Button } from "@/components/ui/button";
-import { Save, Star } from "lucide-react";
+import { RotateCcw, Save, Star } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { useModifierContext } from "@/contexts/ModifierContext";
 import { DeviceConfigKeyboard } from "@/components/device-config-keyboard";
@@ -17,7 +17,22 @@ import { ProfileExport } from "@/components/profile-export";
 import { ProfileImport } from "@/components/profile-import";
 import { SequenceBuilder } from "@/components/sequence-builder";
 import { AbilityRegistryComponent } from "@/components/ability-registry";
-import type { Profile, MacroProfile } from "@shared/schema";
+import { ProfileHistory } from "@/components/profile-history";
+import { useSequenceProfiles, useCreateSequenceProfile, useUpdateSequenceProfile } from "@/hooks/use-sequence-profiles";
+import {
+  macroProfileSchema,
+  macroGestureSettingsSchema,
+  DEFAULT_GESTURES,
+  DEFAULT_SAFETY,
+  toMacroProfile,
+  validateMacroProfile,
+  type Profile,
+  type MacroProfile,
+  type InsertSequenceProfile,
+} from "@shared/schema";
+
+// Quiet period before a valid sequence edit is saved, so typing sends one PATCH
+const SEQUENCE_AUTOSAVE_MS = 500;
 
 interface HomeProps {
   currentProfile: Profile;
@@ -49,24 +64,90 @@ export default function Home({
   const [hasUnsavedChanges, setHasUnsavedChanges] = useState(false);
   const { modifierState, toggleModifier, setMode, resetToDefaults, hasChanges: hasModifierChanges } = useModifierContext();
 
-  // Macro profile state for Sequence Builder
-  const [macroProfile, setMacroProfile] = useState<MacroProfile>({
-    name: currentProfile.name + " Macros",
-    description: "Macro sequences for local agent",
-    gestureSettings: {
-      multiPressWindow: 350,
-      debounceDelay: 10,
-      longPressMin: 80,
-      longPressMax: 140,
-      superLongMin: 300,
-      superLongMax: 2000,
-      cancelThreshold: 3000,
-      defaultMinDelay: 30,
-      defaultMaxDelay: 40,
-      defaultEchoHits: 1,
-    },
-    macros: [],
-  });
+  // Macro sequence profile for Sequence Builder, stored on the server per gesture profile
+  const { data: sequenceProfiles, isSuccess: sequenceProfilesLoaded } = useSequenceProfiles(currentProfile.id);
+  const createSequenceProfile = useCreateSequenceProfile();
+  const updateSequenceProfile = useUpdateSequenceProfile();
+  const sequenceProfile = sequenceProfiles?.[0];
+
+  // Edits live in a local draft so an invalid intermediate state is not thrown away;
+  // the draft is saved whenever it passes validation
+  const [macroDraft, setMacroDraft] = useState<{ id: string; profile: MacroProfile } | null>(null);
+  const macroProfile = useMemo(() => {
+    if (!sequenceProfile) return null;
+    if (macroDraft?.id === sequenceProfile.id) return macroDraft.profile;
+    return toMacroProfile(sequenceProfile);
+  }, [sequenceProfile, macroDraft]);
+
+  // First visit to a profile's sequences: create its sequence profile with default settings.
+  // A failed create waits for the user to retry instead of looping; the failure belongs
+  // to the profile it was made for, so other profiles still create theirs.
+  const sequenceProfileCreateFailed =
+    createSequenceProfile.isError && createSequenceProfile.variables?.profileId === currentProfile.id;
+  const creatingSequenceProfileFor = useRef<string | null>(null);
+  useEffect(() => {
+    if (!sequenceProfilesLoaded || sequenceProfiles.length > 0) return;
+    if (sequenceProfileCreateFailed) return;
+    if (creatingSequenceProfileFor.current === currentProfile.id) return;
+    creatingSequenceProfileFor.current = currentProfile.id;
+    createSequenceProfile.mutate(
+      {
+        profileId: currentProfile.id,
+        name: currentProfile.name + " Macros",
+        description: "Macro sequences for local agent",
+        gestureSettings: macroGestureSettingsSchema.parse({}),
+        gestures: DEFAULT_GESTURES,
+        safety: DEFAULT_SAFETY,
+        macros: [],
+      },
+      {
+        onError: () => {
+          creatingSequenceProfileFor.current = null;
+        },
+      }
+    );
+  }, [sequenceProfilesLoaded, sequenceProfiles, currentProfile.id, currentProfile.name, createSequenceProfile, sequenceProfileCreateFailed]);
+
+  // Valid edits are saved once the user pauses; a pending save is flushed
+  // when the sequence profile changes or the page unmounts
+  const pendingSequenceSave = useRef<{ id: string; updates: Partial<InsertSequenceProfile> } | null>(null);
+  const sequenceSaveTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const flushSequenceSave = () => {
+    if (sequenceSaveTimer.current !== null) {
+      clearTimeout(sequenceSaveTimer.current);
+      sequenceSaveTimer.current = null;
+    }
+    const pending = pendingSequenceSave.current;
+    if (!pending) return;
+    pendingSequenceSave.current = null;
+    updateSequenceProfile.mutate(pending, {
+      onError: () => {
+        toast({
+          title: "Error",
+          description: "Failed to save macro sequences.",
+          variant: "destructive",
+        });
+      },
+    });
+  };
+
+  const flushSequenceSaveRef = useRef(flushSequenceSave);
+  flushSequenceSaveRef.current = flushSequenceSave;
+  useEffect(() => () => flushSequenceSaveRef.current(), [sequenceProfile?.id]);
+
+  const handleMacroProfileUpdate = (updated: MacroProfile) => {
+    if (!sequenceProfile) return;
+    setMacroDraft({ id: sequenceProfile.id, profile: updated });
+
+    const parsed = macroProfileSchema.safeParse(updated);
+    if (!parsed.success || !validateMacroProfile(parsed.data).valid) return;
+    pendingSequenceSave.current = { id: sequenceProfile.id, updates: parsed.data };
+    if (sequenceSaveTimer.current !== null) {
+      clearTimeout(sequenceSaveTimer.current);
+    }
+    sequenceSaveTimer.current = setTimeout(flushSequenceSave, SEQUENCE_AUTOSAVE_MS);
+  };
 
   const handleProfileChange = (updates: Partial<Profile>) => {
     const updatedProfile = { ...currentProfile, ...updates };
@@ -154,6 +235,9 @@ export default function Home({
             <TabsTrigger value="abilities" data-testid="tab-abilities">
               Ability Registry
             </TabsTrigger>
+            <TabsTrigger value="history" data-testid="tab-history">
+              History
+            </TabsTrigger>
           </TabsList>
 
           <TabsContent value="configure" className="space-y-6" data-testid="tab-content-configure">
@@ -276,6 +360,7 @@ export default function Home({
             <div className="space-y-6">
               <GestureSimulator 
                 settings={currentProfile.gestureSettings}
+                profileName={currentProfile.name}
                 onSettingsChange={(gestureSettings) => handleProfileChange({ gestureSettings })}
               />
               <ModifierToggle
@@ -299,10 +384,32 @@ export default function Home({
           </TabsContent>
 
           <TabsContent value="sequences" className="h-[calc(100vh-280px)]" data-testid="tab-content-sequences">
-            <SequenceBuilder
-              macroProfile={macroProfile}
-              onUpdate={setMacroProfile}
-            />
+            {sequenceProfile && macroProfile ? (
+              <SequenceBuilder
+                key={sequenceProfile.id}
+                macroProfile={macroProfile}
+                onUpdate={handleMacroProfileUpdate}
+              />
+            ) : sequenceProfileCreateFailed ? (
+              <div className="flex items-center gap-3" data-testid="text-sequences-error">
+                <p className="text-sm text-destructive">
+                  Failed to create macro sequences: {createSequenceProfile.error.message}
+                </p>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => createSequenceProfile.reset()}
+                  data-testid="button-retry-sequences"
+                >
+                  <RotateCcw className="w-4 h-4 mr-2" />
+                  Retry
+                </Button>
+              </div>
+            ) : (
+              <p className="text-sm text-muted-foreground" data-testid="text-sequences-loading">
+                Loading macro sequences...
+              </p>
+            )}
           </TabsContent>
 
           <TabsContent value="abilities" data-testid="tab-content-abilities">
@@ -311,6 +418,10 @@ export default function Home({
               onProfileUpdate={onProfileUpdate}
             />
           </TabsContent>
+
+          <TabsContent value="history" data-testid="tab-content-history">
+            <ProfileHistory profile={currentProfile} />
+          </TabsContent>
         </Tabs>
       </main>
 
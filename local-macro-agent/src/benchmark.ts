@@ -0,0 +1,68 @@
+// ============================================================================
+// BENCHMARK - How closely a backend keeps to the configured delays
+// ============================================================================
+//
+// Runs a synthetic binding through a backend a number of times and prints
+// the overshoot and jitter percentiles its timing telemetry collected (see
+// timingTelemetry.ts). The robotjs and interception backends send real
+// keypresses; the mock backend only waits.
+//
+// ============================================================================
+
+import { MacroBinding, DEFAULT_CONCURRENCY } from './types.js';
+import { ExecutorFactory, ExecutorBackend } from './executorFactory.js';
+import { TimingTelemetry } from './timingTelemetry.js';
+
+export const DEFAULT_BENCHMARK_RUNS = 20;
+
+// Delays from the 25ms floor up to a slow step, with echo hits, so both
+// short and long timers are measured
+const BENCHMARK_BINDING: MacroBinding = {
+  name: 'Benchmark',
+  trigger: { key: 'W', gesture: 'single' },
+  sequence: [
+    { key: 'a', minDelay: 25, maxDelay: 29, echoHits: 3 },
+    { key: 's', minDelay: 30, maxDelay: 50 },
+    { key: 'd', minDelay: 60, maxDelay: 80, echoHits: 2 },
+    { key: 'f', minDelay: 100, maxDelay: 140 },
+  ],
+  enabled: true,
+  concurrency: DEFAULT_CONCURRENCY,
+};
+
+/**
+ * Run the benchmark binding `runs` times, one after another, and print the
+ * backend's timing percentiles. Returns false if a run failed.
+ */
+export async function runBenchmark(backend: ExecutorBackend, runs: number = DEFAULT_BENCHMARK_RUNS): Promise<boolean> {
+  console.log(`\n⏱️  Benchmarking the ${backend} backend (${runs} runs)`);
+  if (backend !== 'mock') {
+    const keys = BENCHMARK_BINDING.sequence.map(step => step.key).join(', ');
+    console.log(`⚠️  Sends real keypresses (${keys}); focus a window where they do no harm`);
+  }
+
+  const telemetry = new TimingTelemetry();
+  const executor = await ExecutorFactory.create({
+    backend,
+    onEvent: (event) => {
+      if (event.type === 'timing' && event.interval) {
+        telemetry.record(backend, event.interval);
+      }
+    },
+  });
+
+  try {
+    for (let run = 0; run < runs; run++) {
+      if (!await executor.execute(BENCHMARK_BINDING)) {
+        console.error(`❌ Benchmark run ${run + 1} failed`);
+        return false;
+      }
+    }
+  } finally {
+    executor.destroy?.();
+  }
+
+  console.log('');
+  telemetry.print();
+  return true;
+}
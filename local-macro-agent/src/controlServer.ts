@@ -0,0 +1,312 @@
+// ============================================================================
+// CONTROL SERVER - Localhost HTTP + WebSocket API for driving the agent
+// ============================================================================
+//
+// Opt-in (--control). Binds to 127.0.0.1 only and every request must carry
+// the session token, either as "Authorization: Bearer <token>" (HTTP) or as
+// "?token=<token>" (WebSocket, since browsers cannot set headers there).
+//
+//   GET  /api/status            Agent state
+//   GET  /api/profiles          Profile files and the active one
+//   POST /api/profiles/load     { filename } - switch to a profile on disk
+//   PUT  /api/profile           { profile, filename? } - push a profile JSON
+//   POST /api/pause             Stop reacting to input
+//   POST /api/resume            React to input again
+//   POST /api/cancel            Cancel running sequences
+//   WS   /api/events            Stream of ControlEvent messages
+//
+// ============================================================================
+
+import http from 'http';
+import crypto from 'crypto';
+import { WebSocketServer, WebSocket } from 'ws';
+import { Diagnostic } from '@swtor/agent-profile';
+import { GestureEvent } from './types.js';
+import { ExecutionEvent } from './sequenceExecutor.js';
+import { ExecutorBackend } from './executorFactory.js';
+import { InterlockAction } from './safetyInterlock.js';
+
+export const CONTROL_HOST = '127.0.0.1';
+export const DEFAULT_CONTROL_PORT = 7433;
+
+// Largest profile body accepted from the web app
+const MAX_BODY_BYTES = 1024 * 1024;
+
+export interface AgentStatus {
+  backend: ExecutorBackend;
+  profileName: string | null;
+  profileFile: string | null;  // null when the profile was pushed without a filename
+  paused: boolean;
+}
+
+// Warnings can come with a successful change
+export interface ProfileChangeResult {
+  success: boolean;
+  diagnostics: Diagnostic[];
+}
+
+/**
+ * What the control server needs from the agent
+ */
+export interface AgentController {
+  getStatus(): AgentStatus;
+  listProfiles(): string[];
+  switchProfile(filename: string): ProfileChangeResult;
+  pushProfile(profile: unknown, filename?: string): ProfileChangeResult;
+  setPaused(paused: boolean): void;
+  cancelAll(): boolean;
+}
+
+// Messages sent to WebSocket clients
+export type ControlEvent =
+  | { type: 'status'; status: AgentStatus }
+  | { type: 'gesture'; event: GestureEvent }
+  | { type: 'execution'; event: ExecutionEvent }
+  | { type: 'interlock'; action: InterlockAction; timestamp: number };  // Panic/resume hotkey; a status event follows
+
+export interface ControlServerConfig {
+  port: number;
+  token: string;
+}
+
+class HttpError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+  }
+}
+
+// Only plain file names inside profiles/ may be loaded or written
+function isSafeProfileFilename(filename: unknown): filename is string {
+  return typeof filename === 'string' &&
+    /^[\w.-]+\.json$/.test(filename) &&
+    !filename.startsWith('.');
+}
+
+export class ControlServer {
+  private controller: AgentController;
+  private config: ControlServerConfig;
+  private server: http.Server;
+  private wss: WebSocketServer;
+
+  constructor(controller: AgentController, config: ControlServerConfig) {
+    this.controller = controller;
+    this.config = config;
+
+    this.server = http.createServer((req, res) => {
+      this.handleRequest(req, res).catch((error) => {
+        const status = error instanceof HttpError ? error.status : 500;
+        const message = error instanceof HttpError ? error.message : 'Internal error';
+        if (status === 500) {
+          console.error('❌ Control API error:', error);
+        }
+        this.sendJson(req, res, status, { error: message });
+      });
+    });
+
+    this.wss = new WebSocketServer({ noServer: true });
+    this.server.on('upgrade', (req, socket, head) => {
+      const url = new URL(req.url || '/', `http://${CONTROL_HOST}`);
+      if (url.pathname !== '/api/events' || !this.isAuthorized(url.searchParams.get('token'))) {
+        socket.write('HTTP/1.1 401 Unauthorized\r\n\r\n');
+        socket.destroy();
+        return;
+      }
+      this.wss.handleUpgrade(req, socket, head, (ws) => {
+        // New clients start from the current state
+        ws.send(JSON.stringify({ type: 'status', status: this.controller.getStatus() } satisfies ControlEvent));
+      });
+    });
+  }
+
+  /**
+   * Create a random session token
+   */
+  static generateToken(): string {
+    return crypto.randomBytes(24).toString('hex');
+  }
+
+  /**
+   * Port actually listened on; differs from the configured one when that is 0
+   */
+  get port(): number {
+    const address = this.server.address();
+    return typeof address === 'object' && address !== null ? address.port : this.config.port;
+  }
+
+  /**
+   * Start listening on loopback
+   */
+  start(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      this.server.once('error', reject);
+      this.server.listen(this.config.port, CONTROL_HOST, () => {
+        this.server.off('error', reject);
+        console.log(`🌐 Control API listening on http://${CONTROL_HOST}:${this.port}`);
+        resolve();
+      });
+    });
+  }
+
+  /**
+   * Close all connections and stop listening
+   */
+  stop(): Promise<void> {
+    for (const client of this.wss.clients) {
+      client.terminate();
+    }
+    this.wss.close();
+    return new Promise((resolve) => this.server.close(() => resolve()));
+  }
+
+  /**
+   * Send an event to every connected WebSocket client
+   */
+  broadcast(event: ControlEvent): void {
+    if (this.wss.clients.size === 0) return;
+    const message = JSON.stringify(event);
+    for (const client of this.wss.clients) {
+      if (client.readyState === WebSocket.OPEN) {
+        client.send(message);
+      }
+    }
+  }
+
+  /**
+   * Constant-time token comparison
+   */
+  private isAuthorized(token: string | null | undefined): boolean {
+    if (!token) return false;
+    const expected = Buffer.from(this.config.token);
+    const actual = Buffer.from(token);
+    return actual.length === expected.length && crypto.timingSafeEqual(actual, expected);
+  }
+
+  private async handleRequest(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    // CORS preflight from the web app (the token still guards the real request)
+    if (req.method === 'OPTIONS') {
+      this.setCorsHeaders(req, res);
+      res.writeHead(204).end();
+      return;
+    }
+
+    const auth = req.headers.authorization;
+    const token = auth?.startsWith('Bearer ') ? auth.slice('Bearer '.length) : null;
+    if (!this.isAuthorized(token)) {
+      throw new HttpError(401, 'Missing or invalid token');
+    }
+
+    const { pathname } = new URL(req.url || '/', `http://${CONTROL_HOST}`);
+    const route = `${req.method} ${pathname}`;
+
+    switch (route) {
+      case 'GET /api/status':
+        this.sendJson(req, res, 200, this.controller.getStatus());
+        return;
+
+      case 'GET /api/profiles':
+        this.sendJson(req, res, 200, {
+          profiles: this.controller.listProfiles(),
+          active: this.controller.getStatus().profileFile,
+        });
+        return;
+
+      case 'POST /api/profiles/load': {
+        const body = await this.readJson(req);
+        if (!isSafeProfileFilename(body.filename)) {
+          throw new HttpError(400, 'filename must be a .json file name inside profiles/');
+        }
+        this.sendProfileChange(req, res, this.controller.switchProfile(body.filename));
+        return;
+      }
+
+      case 'PUT /api/profile': {
+        const body = await this.readJson(req);
+        if (typeof body.profile !== 'object' || body.profile === null) {
+          throw new HttpError(400, 'profile is required');
+        }
+        if (body.filename !== undefined && !isSafeProfileFilename(body.filename)) {
+          throw new HttpError(400, 'filename must be a .json file name inside profiles/');
+        }
+        this.sendProfileChange(
+          req,
+          res,
+          this.controller.pushProfile(body.profile, body.filename as string | undefined)
+        );
+        return;
+      }
+
+      case 'POST /api/pause':
+      case 'POST /api/resume':
+        this.controller.setPaused(pathname === '/api/pause');
+        this.sendStatus(req, res);
+        return;
+
+      case 'POST /api/cancel':
+        if (!this.controller.cancelAll()) {
+          throw new HttpError(503, 'No executor is ready yet');
+        }
+        this.sendStatus(req, res);
+        return;
+
+      default:
+        throw new HttpError(404, `No route for ${route}`);
+    }
+  }
+
+  private sendProfileChange(req: http.IncomingMessage, res: http.ServerResponse, result: ProfileChangeResult): void {
+    if (!result.success) {
+      this.sendJson(req, res, 422, { error: 'Invalid profile', diagnostics: result.diagnostics });
+      return;
+    }
+    const status = this.controller.getStatus();
+    this.broadcast({ type: 'status', status });
+    this.sendJson(req, res, 200, { ...status, diagnostics: result.diagnostics });
+  }
+
+  /**
+   * Reply with the new status and tell WebSocket clients about it
+   */
+  private sendStatus(req: http.IncomingMessage, res: http.ServerResponse): void {
+    const status = this.controller.getStatus();
+    this.broadcast({ type: 'status', status });
+    this.sendJson(req, res, 200, status);
+  }
+
+  private async readJson(req: http.IncomingMessage): Promise<Record<string, unknown>> {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    for await (const chunk of req) {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        throw new HttpError(413, 'Request body too large');
+      }
+      chunks.push(chunk);
+    }
+
+    try {
+      const body = JSON.parse(Buffer.concat(chunks).toString('utf-8'));
+      if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+        throw new HttpError(400, 'Request body must be a JSON object');
+      }
+      return body;
+    } catch (error) {
+      if (error instanceof HttpError) throw error;
+      throw new HttpError(400, 'Request body must be valid JSON');
+    }
+  }
+
+  private setCorsHeaders(req: http.IncomingMessage, res: http.ServerResponse): void {
+    if (req.headers.origin) {
+      res.setHeader('Access-Control-Allow-Origin', req.headers.origin);
+      res.setHeader('Vary', 'Origin');
+      res.setHeader('Access-Control-Allow-Methods', 'GET, POST, PUT, OPTIONS');
+      res.setHeader('Access-Control-Allow-Headers', 'Authorization, Content-Type');
+    }
+  }
+
+  private sendJson(req: http.IncomingMessage, res: http.ServerResponse, status: number, body: unknown): void {
+    this.setCorsHeaders(req, res);
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(body));
+  }
+}
@@ -0,0 +1,70 @@
+// ============================================================================
+// DRY RUN - Lists what a binding would send, without sending anything
+// ============================================================================
+//
+// Shared by every executor backend's dryRun(); each passes its own sequence
+// check, so a dry run rejects what that backend would reject.
+//
+// ============================================================================
+
+import {
+  formatDiagnostic,
+  chordId,
+  describeStep,
+  sequenceDuration,
+  expandSequence,
+  executionSteps,
+} from '@swtor/agent-profile';
+import { SequenceStep, MacroBinding, SEQUENCE_CONSTRAINTS } from './types.js';
+
+// First problem a backend has with a sequence, or null if it can run it
+export type SequenceCheck = (sequence: SequenceStep[]) => string | null;
+
+/**
+ * Print a binding's keypresses, expansion and total time. Call steps are
+ * expanded from `bindings`.
+ */
+export function printDryRun(binding: MacroBinding, bindings: MacroBinding[], validate: SequenceCheck): void {
+  const { name } = binding;
+  const expansion = expandSequence(binding.sequence, bindings, ['sequence'], [name]);
+  const sequence = executionSteps(expansion.steps);
+
+  // Validate
+  const [callError] = expansion.diagnostics;
+  const validationError = callError ? formatDiagnostic(callError) : validate(sequence);
+  if (validationError) {
+    console.error(`❌ Validation failed: ${validationError}`);
+    return;
+  }
+
+  console.log(`\n🧪 DRY RUN: "${name}" (${binding.sequence.length} steps, ${expansion.steps.length} expanded)`);
+
+  // Count keys (chords count as their own key) including echoHits; "up" only releases
+  const keyCount: Map<string, number> = new Map();
+  let totalPresses = 0;
+  for (const step of sequence) {
+    if (step.action === 'up') continue;
+    const echoHits = step.echoHits || 1;
+    const chord = chordId(step);
+    keyCount.set(chord, (keyCount.get(chord) || 0) + echoHits);
+    totalPresses += echoHits;
+  }
+
+  console.log(`   Unique keys: ${keyCount.size}/${SEQUENCE_CONSTRAINTS.MAX_UNIQUE_KEYS}`);
+  console.log(`   Total key presses: ${totalPresses}`);
+  for (const [key, count] of keyCount) {
+    console.log(`   - "${key}": ${count}x`);
+  }
+
+  // Called steps are listed under their call, after the bindings they came through
+  for (const { step, origin, via, delayAfter } of expansion.steps) {
+    const echoHits = step.echoHits || 1;
+    const through = via.length > 0 ? `${via.join(' › ')} › ` : '';
+    const then = delayAfter ? `, then ${delayAfter.minDelay}-${delayAfter.maxDelay}ms` : '';
+    console.log(`   [${origin + 1}] ${through}"${describeStep(step)}" x${echoHits} → wait ${step.minDelay}-${step.maxDelay}ms${then}`);
+  }
+
+  // Holds, plus a delay after every keypress except the last
+  const total = sequenceDuration(sequence);
+  console.log(`   ⏱️  Total time: ${total.min}-${total.max}ms\n`);
+}
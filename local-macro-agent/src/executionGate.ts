@@ -0,0 +1,160 @@
+// ============================================================================
+// EXECUTION GATE - Applies each binding's concurrency policy
+// ============================================================================
+//
+// Every executor backend admits a binding through a gate before sending keys
+// and finishes the run afterwards, so drop/queue/restart/cancel_key/parallel
+// behave the same whichever backend is active.
+//
+// Cancelling only flags a run; the executor stops at its next keystroke. A
+// restarted binding therefore starts at once while the old run unwinds, and
+// the old run never presses another key.
+//
+// ============================================================================
+
+import { InputKey, MacroBinding } from './types.js';
+
+export interface ExecutionRun {
+  readonly id: number;
+  readonly binding: MacroBinding;
+  cancelled: boolean;
+}
+
+interface QueuedRun {
+  binding: MacroBinding;
+  resolve: (run: ExecutionRun | null) => void;
+}
+
+export type RunCancelledCallback = (run: ExecutionRun) => void;
+
+export class ExecutionGate {
+  private running: Set<ExecutionRun> = new Set();
+  private queues: Map<string, QueuedRun[]> = new Map();
+  private nextId: number = 1;
+  private onCancel: RunCancelledCallback;
+
+  constructor(onCancel?: RunCancelledCallback) {
+    this.onCancel = onCancel || (() => {});
+  }
+
+  /**
+   * Apply the binding's policy to a new trigger. Resolves with the run to
+   * execute, or null when the trigger is dropped. Queued triggers resolve
+   * once the run ahead of them finishes, or with null if they are cancelled.
+   */
+  admit(binding: MacroBinding): Promise<ExecutionRun | null> {
+    const { mode, maxQueue } = binding.concurrency;
+    const active = this.activeRuns(run => run.binding.name === binding.name);
+
+    switch (mode) {
+      case 'drop':
+        if (active.length > 0) {
+          console.log(`⚠️  "${binding.name}" already executing, skipping...`);
+          return Promise.resolve(null);
+        }
+        break;
+
+      case 'queue':
+        if (active.length > 0) {
+          const queue = this.queues.get(binding.name) ?? [];
+          if (queue.length >= maxQueue) {
+            console.log(`⚠️  "${binding.name}" queue full (${maxQueue}), skipping...`);
+            return Promise.resolve(null);
+          }
+          console.log(`⏳ "${binding.name}" queued (${queue.length + 1}/${maxQueue})`);
+          return new Promise(resolve => {
+            queue.push({ binding, resolve });
+            this.queues.set(binding.name, queue);
+          });
+        }
+        break;
+
+      case 'restart':
+        active.forEach(run => this.cancelRun(run));
+        break;
+
+      case 'cancel_key':
+        this.cancelKey(binding.trigger.key);
+        break;
+
+      case 'parallel':
+        break;
+    }
+
+    return Promise.resolve(this.start(binding));
+  }
+
+  /**
+   * Release a run once its executor has stopped, starting the next queued
+   * trigger of the same binding
+   */
+  finish(run: ExecutionRun): void {
+    if (!this.running.delete(run)) return;
+
+    const name = run.binding.name;
+    if (this.activeRuns(other => other.binding.name === name).length > 0) return;
+
+    const next = this.queues.get(name)?.shift();
+    if (next) {
+      next.resolve(this.start(next.binding));
+    }
+  }
+
+  /**
+   * Check if a binding has a run that has not been cancelled
+   */
+  isRunning(bindingName: string): boolean {
+    return this.activeRuns(run => run.binding.name === bindingName).length > 0;
+  }
+
+  /**
+   * Cancel a binding's runs and drop its queued triggers
+   */
+  cancel(bindingName: string): void {
+    this.dropQueued(bindingName);
+    this.activeRuns(run => run.binding.name === bindingName).forEach(run => this.cancelRun(run));
+  }
+
+  /**
+   * Cancel every run and queued trigger of bindings on one input key
+   */
+  cancelKey(key: InputKey): void {
+    for (const queue of this.queues.values()) {
+      if (queue[0]?.binding.trigger.key === key) {
+        this.dropQueued(queue[0].binding.name);
+      }
+    }
+    this.activeRuns(run => run.binding.trigger.key === key).forEach(run => this.cancelRun(run));
+  }
+
+  /**
+   * Cancel everything, queued triggers included
+   */
+  cancelAll(): void {
+    for (const name of [...this.queues.keys()]) {
+      this.dropQueued(name);
+    }
+    this.activeRuns(() => true).forEach(run => this.cancelRun(run));
+  }
+
+  private start(binding: MacroBinding): ExecutionRun {
+    const run: ExecutionRun = { id: this.nextId++, binding, cancelled: false };
+    this.running.add(run);
+    return run;
+  }
+
+  private activeRuns(predicate: (run: ExecutionRun) => boolean): ExecutionRun[] {
+    return [...this.running].filter(run => !run.cancelled && predicate(run));
+  }
+
+  private cancelRun(run: ExecutionRun): void {
+    run.cancelled = true;
+    this.onCancel(run);
+  }
+
+  private dropQueued(bindingName: string): void {
+    const queue = this.queues.get(bindingName);
+    this.queues.delete(bindingName);
+    queue?.forEach(queued => queued.resolve(null));
+  }
+}
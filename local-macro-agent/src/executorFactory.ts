@@ -2,9 +2,12 @@
 // EXECUTOR FACTORY - Backend selection for keypress injection
 // ============================================================================
 
-import { MacroBinding } from './types.js';
+import { Scheduler, sharedScheduler } from '@swtor/agent-profile';
+import { MacroBinding, SequenceStep } from './types.js';
 import { SequenceExecutor, ExecutionCallback, ExecutionEvent } from './sequenceExecutor.js';
 import { InterceptionExecutor, MockInterceptionExecutor } from './interceptionExecutor.js';
+import { ExecutionGate } from './executionGate.js';
+import { printDryRun } from './dryRun.js';
 
 /**
  * Available execution backends
@@ -12,14 +15,19 @@ import { InterceptionExecutor, MockInterceptionExecutor } from './interceptionEx
 export type ExecutorBackend = 'robotjs' | 'interception' | 'mock';
 
 /**
- * Unified executor interface
+ * Unified executor interface, implemented in full by every backend.
+ * execute() applies the binding's concurrency policy (see executionGate.ts)
+ * and resolves false if the trigger was dropped. It takes a binding whose
+ * calls are already expanded (expandBinding); dryRun() expands them itself
+ * from `bindings` so it can list the expansion. A cancelled run stops before
+ * its next keystroke, and every keystroke is reported as a 'step' event.
  */
 export interface IExecutor {
   execute(binding: MacroBinding): Promise<boolean>;
-  isBindingExecuting?(bindingName: string): boolean;
-  cancel?(bindingName: string): void;
-  cancelAll?(): void;
-  dryRun?(binding: MacroBinding): Promise<void>;
+  isBindingExecuting(bindingName: string): boolean;
+  cancel(bindingName: string): void;
+  cancelAll(): void;
+  dryRun(binding: MacroBinding, bindings?: MacroBinding[]): Promise<void>;
   destroy?(): void;
 }
 
@@ -30,6 +38,7 @@ export interface ExecutorConfig {
   backend: ExecutorBackend;
   interceptionDllPath?: string;
   onEvent?: ExecutionCallback;
+  scheduler?: Scheduler;   // Timing loop for step delays; defaults to the one all executors share
 }
 
 /**
@@ -45,29 +54,126 @@ const DEFAULT_CONFIG: ExecutorConfig = {
 class InterceptionExecutorWrapper implements IExecutor {
   private executor: InterceptionExecutor | MockInterceptionExecutor;
   private onEvent: ExecutionCallback;
+  private gate: ExecutionGate;
 
   constructor(executor: InterceptionExecutor | MockInterceptionExecutor, onEvent?: ExecutionCallback) {
     this.executor = executor;
     this.onEvent = onEvent || (() => {});
+    this.gate = new ExecutionGate(run => {
+      this.onEvent({
+        type: 'cancelled',
+        bindingName: run.binding.name,
+        timestamp: Date.now(),
+      });
+    });
+  }
+
+  /**
+   * First problem the backend has with a sequence, or null
+   */
+  private validateSequence(sequence: SequenceStep[]): string | null {
+    return this.executor.validateSequence(sequence).errors[0] ?? null;
+  }
+
+  /**
+   * Check if a binding is currently executing
+   */
+  isBindingExecuting(bindingName: string): boolean {
+    return this.gate.isRunning(bindingName);
+  }
+
+  /**
+   * Cancel execution for a specific binding, including queued triggers
+   */
+  cancel(bindingName: string): void {
+    this.gate.cancel(bindingName);
+  }
+
+  /**
+   * Cancel all executions
+   */
+  cancelAll(): void {
+    this.gate.cancelAll();
   }
 
   async execute(binding: MacroBinding): Promise<boolean> {
+    // Validate up front, like SequenceExecutor, so the error names the problem
+    const validationError = this.validateSequence(binding.sequence);
+    if (validationError) {
+      this.onEvent({
+        type: 'error',
+        bindingName: binding.name,
+        error: validationError,
+        timestamp: Date.now(),
+      });
+      return false;
+    }
+
+    const run = await this.gate.admit(binding);
+    if (!run) {
+      return false;
+    }
+
     this.onEvent({
       type: 'started',
       bindingName: binding.name,
       timestamp: Date.now(),
     });
 
-    const result = await this.executor.executeSequence(binding.sequence);
+    try {
+      const result = await this.executor.executeSequence(
+        binding.sequence,
+        () => !run.cancelled,
+        (stepIndex, interval) => this.onEvent({
+          type: 'timing',
+          bindingName: binding.name,
+          stepIndex,
+          interval,
+          timestamp: Date.now(),
+        }),
+        (stepIndex, delay) => this.onEvent({
+          type: 'step',
+          bindingName: binding.name,
+          step: binding.sequence[stepIndex],
+          stepIndex,
+          delay,
+          timestamp: Date.now(),
+        })
+      );
 
-    this.onEvent({
-      type: result ? 'completed' : 'error',
-      bindingName: binding.name,
-      error: result ? undefined : 'Execution failed',
-      timestamp: Date.now(),
-    });
+      // A cancelled run already reported 'cancelled' through the gate
+      if (!run.cancelled) {
+        this.onEvent({
+          type: result ? 'completed' : 'error',
+          bindingName: binding.name,
+          error: result ? undefined : 'Execution failed',
+          timestamp: Date.now(),
+        });
+      }
 
-    return result;
+      return result;
+    } catch (error) {
+      // Report a throwing send the way SequenceExecutor does
+      const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+      this.onEvent({
+        type: 'error',
+        bindingName: binding.name,
+        error: errorMsg,
+        timestamp: Date.now(),
+      });
+      console.error(`❌ "${binding.name}" failed: ${errorMsg}`);
+      return false;
+    } finally {
+      this.gate.finish(run);
+    }
+  }
+
+  /**
+   * Test execution without actually sending keys (dry run). Call steps are
+   * expanded from `bindings` and the expansion is listed.
+   */
+  async dryRun(binding: MacroBinding, bindings: MacroBinding[] = []): Promise<void> {
+    printDryRun(binding, bindings, sequence => this.validateSequence(sequence));
   }
 
   destroy(): void {
@@ -84,23 +190,24 @@ export class ExecutorFactory {
    */
   static async create(config: Partial<ExecutorConfig> = {}): Promise<IExecutor> {
     const fullConfig = { ...DEFAULT_CONFIG, ...config };
+    const scheduler = fullConfig.scheduler ?? sharedScheduler;
 
     switch (fullConfig.backend) {
       case 'robotjs':
         console.log('[ExecutorFactory] Creating RobotJS executor (SendInput API)');
         console.log('[ExecutorFactory] Detection level: MEDIUM (software injection flag set)');
-        return new SequenceExecutor(fullConfig.onEvent);
+        return new SequenceExecutor(fullConfig.onEvent, scheduler);
 
       case 'interception':
         console.log('[ExecutorFactory] Creating Interception executor (kernel-level)');
         console.log('[ExecutorFactory] Detection level: HARD (appears as hardware input)');
         
-        const interception = new InterceptionExecutor(fullConfig.interceptionDllPath);
+        const interception = new InterceptionExecutor(fullConfig.interceptionDllPath, scheduler);
         const initialized = await interception.initialize();
         
         if (!initialized) {
           console.warn('[ExecutorFactory] Interception init failed, falling back to mock');
-          const mock = new MockInterceptionExecutor();
+          const mock = new MockInterceptionExecutor(scheduler);
           await mock.initialize();
           return new InterceptionExecutorWrapper(mock, fullConfig.onEvent);
         }
@@ -110,7 +217,7 @@ export class ExecutorFactory {
       case 'mock':
         console.log('[ExecutorFactory] Creating Mock executor (no keypresses)');
         console.log('[ExecutorFactory] Use this for testing profile logic');
-        const mock = new MockInterceptionExecutor();
+        const mock = new MockInterceptionExecutor(scheduler);
         await mock.initialize();
         return new InterceptionExecutorWrapper(mock, fullConfig.onEvent);
 
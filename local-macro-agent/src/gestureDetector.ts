@@ -1,177 +1,194 @@
 // ============================================================================
-// GESTURE DETECTOR - Per-key gesture detection with 9 gesture types
+// GESTURE DETECTOR - Per-key gesture detection from the profile's gestures
 // ============================================================================
 
+import { Clock, TimerHandle, VirtualClock, systemClock } from '@swtor/agent-profile';
 import { 
   InputKey, 
   GestureType, 
   GestureSettings, 
   GestureEvent,
-  INPUT_KEYS 
+  GestureDefinition,
+  HoldTier,
+  INPUT_KEYS,
+  CANCEL_GESTURE,
+  holdTier,
+  resolveGesture,
+  canExtendGesture,
 } from './types.js';
 
-export type GestureCallback = (event: GestureEvent) => void;
+import { InputEvent } from './inputSource.js';
 
-interface PressRecord {
-  timestamp: number;
-  isLong: boolean;
-}
+export type GestureCallback = (event: GestureEvent) => void;
 
 // Per-key state machine for gesture detection
 class KeyGestureStateMachine {
   private key: InputKey;
   private settings: GestureSettings;
+  private gestures: GestureDefinition[];
   private callback: GestureCallback;
   
-  private pressHistory: PressRecord[] = [];
+  private pressHistory: HoldTier[] = [];
   private keyDownTime: number | null = null;
-  private gestureTimer: ReturnType<typeof setTimeout> | null = null;
-  private longPressTimer: ReturnType<typeof setTimeout> | null = null;
-  private cancelTimer: ReturnType<typeof setTimeout> | null = null;
-
-  constructor(key: InputKey, settings: GestureSettings, callback: GestureCallback) {
+  private lastReleaseTime: number | null = null;
+  private gestureTimer: TimerHandle | null = null;
+  private cancelTimer: TimerHandle | null = null;
+  private releaseTimer: TimerHandle | null = null;  // A release held back in case the press bounced
+  private clock: Clock;
+
+  constructor(
+    key: InputKey,
+    settings: GestureSettings,
+    gestures: GestureDefinition[],
+    callback: GestureCallback,
+    clock: Clock
+  ) {
     this.key = key;
     this.settings = settings;
+    this.gestures = gestures;
     this.callback = callback;
+    this.clock = clock;
   }
 
   private clearTimers(): void {
     if (this.gestureTimer) {
-      clearTimeout(this.gestureTimer);
+      this.clock.clearTimeout(this.gestureTimer);
       this.gestureTimer = null;
     }
-    if (this.longPressTimer) {
-      clearTimeout(this.longPressTimer);
-      this.longPressTimer = null;
-    }
     if (this.cancelTimer) {
-      clearTimeout(this.cancelTimer);
+      this.clock.clearTimeout(this.cancelTimer);
       this.cancelTimer = null;
     }
+    if (this.releaseTimer) {
+      this.clock.clearTimeout(this.releaseTimer);
+      this.releaseTimer = null;
+    }
   }
 
   private emitGesture(gesture: GestureType, holdDuration?: number): void {
     this.callback({
       inputKey: this.key,
       gesture,
-      timestamp: Date.now(),
+      timestamp: this.clock.now(),
       holdDuration,
     });
     this.pressHistory = [];
   }
 
-  private resolveGesture(): void {
-    const count = this.pressHistory.length;
-    const lastPress = this.pressHistory[count - 1];
-
-    if (count === 0) return;
-
-    let gesture: GestureType;
+  /**
+   * Emit whatever the recorded presses match. Presses that match no
+   * gesture are dropped.
+   */
+  private resolveGesture(holdDuration?: number): void {
+    const gesture = resolveGesture(this.pressHistory, this.gestures);
+    this.pressHistory = [];
 
-    if (count === 1) {
-      gesture = lastPress.isLong ? 'long' : 'single';
-    } else if (count === 2) {
-      gesture = lastPress.isLong ? 'double_long' : 'double';
-    } else if (count === 3) {
-      gesture = lastPress.isLong ? 'triple_long' : 'triple';
-    } else if (count >= 4) {
-      gesture = 'quadruple_long'; // 4+ presses, last is long
-    } else {
-      gesture = 'single';
+    if (gesture) {
+      this.emitGesture(gesture, holdDuration);
     }
-
-    this.emitGesture(gesture);
   }
 
   handleKeyDown(): void {
-    const now = Date.now();
+    const now = this.clock.now();
+
+    // Contact debounce: the held-back release was the switch bouncing as it
+    // went down, so the press goes on
+    if (this.releaseTimer) {
+      this.clock.clearTimeout(this.releaseTimer);
+      this.releaseTimer = null;
+      return;
+    }
+
+    // Contact debounce: a press this soon after the release is the switch bouncing
+    if (this.lastReleaseTime !== null && now - this.lastReleaseTime < this.settings.debounceDelay) {
+      return;
+    }
+
     this.keyDownTime = now;
 
-    // Clear existing timers
+    // Clear existing timers; a press inside the multi-press window
+    // continues the sequence, so its pending resolution is dropped
     this.clearTimers();
 
-    // Start long press detection
-    this.longPressTimer = setTimeout(() => {
-      // Still holding - mark as long press
-    }, this.settings.longPressMin);
+    // Holds past superLongMax are cancels right away when configured;
+    // otherwise only a hold reaching cancelThreshold cancels
+    const cancelAfter = this.settings.superLongOverflow === 'cancel'
+      ? Math.min(this.settings.superLongMax, this.settings.cancelThreshold)
+      : this.settings.cancelThreshold;
 
-    // Start super long detection
-    const superLongTimer = setTimeout(() => {
-      if (this.keyDownTime !== null) {
-        const holdDuration = Date.now() - this.keyDownTime;
-        if (holdDuration >= this.settings.superLongMin) {
-          this.emitGesture('super_long', holdDuration);
-          this.keyDownTime = null;
-          this.clearTimers();
-        }
-      }
-    }, this.settings.superLongMin);
-
-    // Start cancel detection
-    this.cancelTimer = setTimeout(() => {
+    this.cancelTimer = this.clock.setTimeout(() => {
+      this.cancelTimer = null;
       if (this.keyDownTime !== null) {
-        const holdDuration = Date.now() - this.keyDownTime;
-        this.emitGesture('cancel', holdDuration);
+        const holdDuration = this.clock.now() - this.keyDownTime;
+        this.emitGesture(CANCEL_GESTURE, holdDuration);
         this.keyDownTime = null;
-        this.pressHistory = [];
         this.clearTimers();
       }
-    }, this.settings.cancelThreshold);
+    }, cancelAfter);
   }
 
   handleKeyUp(): void {
+    if (this.keyDownTime === null || this.releaseTimer) return;
+
+    const now = this.clock.now();
+
+    // Contact debounce: a release this soon after the press only counts if
+    // no press follows within debounceDelay
+    if (now - this.keyDownTime < this.settings.debounceDelay) {
+      this.releaseTimer = this.clock.setTimeout(() => {
+        this.releaseTimer = null;
+        this.release(now);
+      }, this.settings.debounceDelay);
+      return;
+    }
+
+    this.release(now);
+  }
+
+  /**
+   * End the current press at `releasedAt`, which may be a little in the
+   * past when the release was held back for debounce
+   */
+  private release(releasedAt: number): void {
     if (this.keyDownTime === null) return;
 
-    const now = Date.now();
-    const holdDuration = now - this.keyDownTime;
+    const holdDuration = releasedAt - this.keyDownTime;
     this.keyDownTime = null;
+    this.lastReleaseTime = releasedAt;
 
     // Clear cancel timer
     if (this.cancelTimer) {
-      clearTimeout(this.cancelTimer);
+      this.clock.clearTimeout(this.cancelTimer);
       this.cancelTimer = null;
     }
 
-    // Check if this was a super long hold (already handled in keyDown timer)
-    if (holdDuration >= this.settings.superLongMin) {
-      return; // Already emitted
-    }
-
-    // Determine if this was a long press
-    const isLong = holdDuration >= this.settings.longPressMin && 
-                   holdDuration <= this.settings.longPressMax;
-
-    // Check if this press is within multi-press window
-    const lastPress = this.pressHistory[this.pressHistory.length - 1];
-    const isWithinWindow = lastPress && 
-                           (now - lastPress.timestamp) < this.settings.multiPressWindow;
-
-    if (!isWithinWindow) {
-      // Start fresh press sequence
+    // Too long for super_long and short of a cancel: the press and its sequence are dropped
+    if (holdDuration > this.settings.superLongMax) {
       this.pressHistory = [];
+      return;
     }
 
-    // Record this press
-    this.pressHistory.push({
-      timestamp: now,
-      isLong,
-    });
+    const tier = holdTier(holdDuration, this.settings);
+    this.pressHistory.push(tier);
 
-    // Clear existing gesture timer
-    if (this.gestureTimer) {
-      clearTimeout(this.gestureTimer);
+    // A super_long press ends the sequence, and so does one no gesture can follow
+    if (tier === 'super_long' || !canExtendGesture(this.pressHistory.length, this.gestures)) {
+      this.resolveGesture(tier === 'super_long' ? holdDuration : undefined);
+      return;
     }
 
     // Set timer to resolve gesture after multi-press window
-    this.gestureTimer = setTimeout(() => {
+    this.gestureTimer = this.clock.setTimeout(() => {
+      this.gestureTimer = null;
       this.resolveGesture();
-    }, this.settings.multiPressWindow);
+    }, this.settings.multiPressWindow - (this.clock.now() - releasedAt));
   }
 
   reset(): void {
     this.clearTimers();
     this.pressHistory = [];
     this.keyDownTime = null;
+    this.lastReleaseTime = null;
   }
 }
 
@@ -180,17 +197,34 @@ export class GestureDetector {
   private machines: Map<InputKey, KeyGestureStateMachine> = new Map();
   private callback: GestureCallback;
   private settings: GestureSettings;
-
-  constructor(settings: GestureSettings, callback: GestureCallback) {
+  private gestures: GestureDefinition[];
+  private clock: Clock;
+
+  /**
+   * Pass a VirtualClock to drive detection deterministically (see simulateGestures)
+   */
+  constructor(
+    settings: GestureSettings,
+    gestures: GestureDefinition[],
+    callback: GestureCallback,
+    clock: Clock = systemClock
+  ) {
     this.settings = settings;
+    this.gestures = gestures;
     this.callback = callback;
+    this.clock = clock;
+
+    this.createMachines();
+
+    console.log(`🎯 GestureDetector initialized for ${INPUT_KEYS.length} keys, ${gestures.length} gestures`);
+  }
 
-    // Create independent state machine for each input key
+  // Create independent state machine for each input key
+  private createMachines(): void {
+    this.machines.clear();
     for (const key of INPUT_KEYS) {
-      this.machines.set(key, new KeyGestureStateMachine(key, settings, callback));
+      this.machines.set(key, new KeyGestureStateMachine(key, this.settings, this.gestures, this.callback, this.clock));
     }
-
-    console.log(`🎯 GestureDetector initialized for ${INPUT_KEYS.length} keys`);
   }
 
   handleKeyDown(key: string): void {
@@ -229,12 +263,44 @@ export class GestureDetector {
     }
   }
 
-  updateSettings(settings: GestureSettings): void {
+  updateSettings(settings: GestureSettings, gestures: GestureDefinition[] = this.gestures): void {
     this.settings = settings;
+    this.gestures = gestures;
     // Recreate machines with new settings
-    this.machines.clear();
-    for (const key of INPUT_KEYS) {
-      this.machines.set(key, new KeyGestureStateMachine(key, settings, this.callback));
+    this.createMachines();
+  }
+}
+
+/**
+ * Run input events through a fresh detector on a VirtualClock and return
+ * every gesture it emits. Event timestamps are used as-is, so the same
+ * events, settings and gesture definitions always produce the same gestures.
+ */
+export function simulateGestures(
+  events: InputEvent[],
+  settings: GestureSettings,
+  definitions: GestureDefinition[]
+): GestureEvent[] {
+  const clock = new VirtualClock(events.length > 0 ? events[0].timestamp : 0);
+  const gestures: GestureEvent[] = [];
+  const detector = new GestureDetector(settings, definitions, (event) => gestures.push(event), clock);
+
+  for (const event of events) {
+    clock.advanceTo(event.timestamp);
+    if ('key' in event) {
+      if (event.type === 'down') {
+        detector.handleKeyDown(event.key);
+      } else {
+        detector.handleKeyUp(event.key);
+      }
+    } else if (event.type === 'down') {
+      detector.handleMouseDown(event.button);
+    } else {
+      detector.handleMouseUp(event.button);
     }
   }
+
+  // Let pending multi-press windows close
+  clock.runAll();
+  return gestures;
 }
@@ -2,225 +2,67 @@
 // SWTOR MACRO AGENT - Main Entry Point
 // ============================================================================
 
-import { GestureDetector } from './gestureDetector.js';
-import { SequenceExecutor, ExecutionEvent } from './sequenceExecutor.js';
-import { InputListener, KeyEvent, MouseEvent } from './inputListener.js';
-import { ProfileLoader, DEFAULT_GESTURE_SETTINGS } from './profileLoader.js';
-import { MacroProfile, GestureEvent, MacroBinding } from './types.js';
-import { ExecutorFactory, IExecutor, ExecutorBackend } from './executorFactory.js';
+import { simulateGestures } from './gestureDetector.js';
+import { InputSource } from './inputSource.js';
+import { ReplayInputSource } from './replayInputSource.js';
+import { loadInputTrace, traceInputEvents } from './inputTrace.js';
+import { ProfileLoader } from './profileLoader.js';
+import { runBenchmark, DEFAULT_BENCHMARK_RUNS } from './benchmark.js';
+import { ReloadPolicy, RELOAD_POLICIES } from './types.js';
+import { ExecutorBackend } from './executorFactory.js';
+import { ControlServer, ControlServerConfig, DEFAULT_CONTROL_PORT } from './controlServer.js';
+import { MacroAgent } from './macroAgent.js';
 
-// Event callback for logging
-function createEventCallback(): (event: ExecutionEvent) => void {
-  return (event) => {
-    if (event.type === 'started') {
-      console.log(`⚡ Started: ${event.bindingName}`);
-    } else if (event.type === 'completed') {
-      console.log(`✅ Completed: ${event.bindingName}`);
-    } else if (event.type === 'error') {
-      console.error(`❌ Error: ${event.bindingName} - ${event.error}`);
-    }
-  };
-}
-
-class MacroAgent {
-  private profile: MacroProfile | null = null;
-  private gestureDetector: GestureDetector | null = null;
-  private executor: IExecutor | null = null;
-  private inputListener: InputListener;
-  private profileLoader: ProfileLoader;
-  private currentBackend: ExecutorBackend = 'robotjs';
-
-  constructor() {
-    this.profileLoader = new ProfileLoader('./profiles');
-
-    // Create input listener
-    this.inputListener = new InputListener((event) => {
-      this.handleInputEvent(event);
-    });
-  }
-
-  /**
-   * Initialize the executor with specified backend
-   */
-  async initializeExecutor(backend?: ExecutorBackend): Promise<void> {
-    if (backend) {
-      // Use specified backend
-      this.executor = await ExecutorFactory.create({
-        backend,
-        onEvent: createEventCallback(),
-      });
-      this.currentBackend = backend;
-    } else {
-      // Auto-select best available
-      const result = await ExecutorFactory.createBest(createEventCallback());
-      this.executor = result.executor;
-      this.currentBackend = result.backend;
-    }
-  }
-
-  /**
-   * Handle raw input events
-   */
-  private handleInputEvent(event: KeyEvent | MouseEvent): void {
-    if (!this.gestureDetector) return;
+// ============================================================================
+// MAIN
+// ============================================================================
 
-    if ('key' in event) {
-      // Keyboard event
-      if (event.type === 'down') {
-        this.gestureDetector.handleKeyDown(event.key);
-      } else {
-        this.gestureDetector.handleKeyUp(event.key);
-      }
-    } else {
-      // Mouse event
-      if (event.type === 'down') {
-        this.gestureDetector.handleMouseDown(event.button);
-      } else {
-        this.gestureDetector.handleMouseUp(event.button);
-      }
-    }
+// Time to keep running after a replayed trace ends
+const REPLAY_SETTLE_MS = 2000;
+
+/**
+ * Run a trace through the gesture detector on a virtual clock, without
+ * real time or an executor. Agent traces also carry the gestures detected
+ * when they were recorded; returns false if the simulation disagrees.
+ */
+function simulateTrace(filepath: string, profileFile?: string): boolean {
+  const trace = loadInputTrace(filepath);
+  if (!trace) return false;
+
+  const loader = new ProfileLoader('./profiles');
+  const profile = loader.loadProfile(profileFile || loader.listProfiles()[0] || 'example.json');
+  if (!profile) return false;
+
+  console.log(`\n🧪 Simulating "${filepath}" with the gestures of "${profile.name}"\n`);
+  const origin = trace.inputs[0].timestamp;
+  const gestures = simulateGestures(traceInputEvents(trace), profile.gestureSettings, profile.gestures);
+
+  for (const gesture of gestures) {
+    const hold = gesture.holdDuration !== undefined ? ` (held ${gesture.holdDuration}ms)` : '';
+    console.log(`   +${Math.round(gesture.timestamp - origin)}ms  ${gesture.inputKey} → ${gesture.gesture}${hold}`);
   }
-
-  /**
-   * Handle detected gestures
-   */
-  private handleGesture(event: GestureEvent): void {
-    if (!this.profile || !this.executor) return;
-
-    console.log(`\n🎯 Gesture: ${event.inputKey} → ${event.gesture}`);
-
-    // Find matching macro binding
-    const binding = this.profile.macros.find(
-      m => m.trigger.key === event.inputKey &&
-           m.trigger.gesture === event.gesture &&
-           m.enabled
-    );
-
-    if (binding) {
-      console.log(`   Matched: "${binding.name}"`);
-      this.executor.execute(binding);
-    } else {
-      console.log(`   No macro bound`);
-    }
+  if (gestures.length === 0) {
+    console.log('   No gestures detected');
   }
 
-  /**
-   * Load a profile
-   */
-  loadProfile(filename: string): boolean {
-    const profile = this.profileLoader.loadProfile(filename);
-    
-    if (!profile) {
-      return false;
-    }
-
-    this.profile = profile;
-
-    // Create gesture detector with profile settings
-    this.gestureDetector = new GestureDetector(
-      profile.gestureSettings || DEFAULT_GESTURE_SETTINGS,
-      (event) => this.handleGesture(event)
-    );
-
+  // Browser traces use the simulator's own gesture names, so only agent traces compare
+  if (trace.header?.source !== 'agent' || trace.gestures.length === 0) {
     return true;
   }
 
-  /**
-   * Start the macro agent
-   */
-  async start(backend?: ExecutorBackend): Promise<void> {
-    console.log('\n╔════════════════════════════════════════════════════╗');
-    console.log('║       SWTOR MACRO AGENT - Per-Key Gestures         ║');
-    console.log('╚════════════════════════════════════════════════════╝\n');
-
-    // Initialize executor
-    await this.initializeExecutor(backend);
-    console.log(`\n🔧 Executor backend: ${this.currentBackend.toUpperCase()}`);
-
-    // List available profiles
-    const profiles = this.profileLoader.listProfiles();
-    
-    if (profiles.length === 0) {
-      console.log('⚠️  No profiles found in ./profiles/');
-      console.log('   Creating example profile...\n');
-      
-      // Profile will be created from the example.json we already have
-      if (!this.loadProfile('example.json')) {
-        console.error('❌ Failed to load profile');
-        return;
-      }
-    } else {
-      console.log(`📂 Available profiles: ${profiles.join(', ')}`);
-      
-      // Load first profile
-      if (!this.loadProfile(profiles[0])) {
-        console.error('❌ Failed to load profile');
-        return;
-      }
-    }
-
-    // Show loaded macros
-    if (this.profile) {
-      console.log(`\n📋 Loaded macros:`);
-      for (const macro of this.profile.macros) {
-        if (macro.enabled) {
-          console.log(`   • ${macro.trigger.key} (${macro.trigger.gesture}) → "${macro.name}"`);
-        }
-      }
-    }
-
-    // Show constraints reminder
-    console.log('\n📏 Sequence Constraints:');
-    console.log('   • Min delay: 25ms');
-    console.log('   • Variance: ≥4ms (max - min)');
-    console.log('   • Max unique keys: 4 per sequence');
-    console.log('   • Max repeats: 6 per key');
-
-    // Start listening
-    console.log('\n─────────────────────────────────────────────────────');
-    this.inputListener.start();
-  }
-
-  /**
-   * Stop the macro agent
-   */
-  stop(): void {
-    this.inputListener.stop();
-    if (this.executor && 'cancelAll' in this.executor) {
-      (this.executor as any).cancelAll?.();
-    }
-    if (this.executor && 'destroy' in this.executor) {
-      (this.executor as any).destroy?.();
-    }
-    console.log('🛑 Macro Agent stopped');
-  }
-
-  /**
-   * Get current backend
-   */
-  getBackend(): ExecutorBackend {
-    return this.currentBackend;
+  const simulated = gestures.map(g => `${g.inputKey} → ${g.gesture}`);
+  const recorded = trace.gestures.map(g => `${g.key} → ${g.gesture}`);
+  if (simulated.join('\n') === recorded.join('\n')) {
+    console.log(`\n✅ Matches the ${recorded.length} gestures recorded in the trace`);
+    return true;
   }
 
-  /**
-   * Show available backends
-   */
-  static async showBackends(): Promise<void> {
-    console.log('\n📊 Available executor backends:\n');
-    const backends = await ExecutorFactory.getAvailableBackends();
-    
-    for (const { backend, available, notes } of backends) {
-      const status = available ? '✅' : '❌';
-      console.log(`  ${status} ${backend.toUpperCase()}`);
-      console.log(`     ${notes}\n`);
-    }
-  }
+  console.error('\n❌ Differs from the gestures recorded in the trace:');
+  recorded.forEach(g => console.error(`   recorded:  ${g}`));
+  simulated.forEach(g => console.error(`   simulated: ${g}`));
+  return false;
 }
 
-// ============================================================================
-// MAIN
-// ============================================================================
-
 async function main() {
   // Parse command line arguments
   const args = process.argv.slice(2);
@@ -234,6 +76,14 @@ USAGE:
   npm start                    Auto-select best executor
   npm start -- --backend=X     Use specific backend
   npm start -- --backends      Show available backends
+  npm start -- --profile=F     Load profiles/F instead of the first profile
+  npm start -- --on-reload=P   Running sequences on hot-reload: finish | cancel
+  npm start -- --no-watch      Do not reload the profile when its file changes
+  npm start -- --control[=N]   Enable the localhost control API (default port ${DEFAULT_CONTROL_PORT})
+  npm start -- --replay=F      Replay a JSONL input trace instead of reading stdin
+  npm start -- --record=F      Record raw input and detected gestures to a JSONL trace
+  npm start -- --simulate=F    Print the gestures a trace produces (virtual clock) and exit
+  npm start -- --benchmark[=N] Time N runs of a synthetic macro (default ${DEFAULT_BENCHMARK_RUNS}) and exit
   npm start -- --help          Show this help
 
 BACKENDS:
@@ -245,9 +95,14 @@ EXAMPLES:
   npm start -- --backend=robotjs
   npm start -- --backend=interception
   npm start -- --backends
+  npm start -- --benchmark --backend=interception
 
 ENVIRONMENT:
   MACRO_BACKEND=interception   Set default backend via env var
+  MACRO_PROFILE=my-macros.json Set default profile file via env var
+  MACRO_RELOAD_POLICY=cancel   Set default hot-reload policy via env var
+  MACRO_CONTROL_PORT=7433      Enable the control API on this port
+  MACRO_CONTROL_TOKEN=secret   Control API token (random per run if unset)
 `);
     process.exit(0);
   }
@@ -267,21 +122,91 @@ ENVIRONMENT:
     backend = process.env.MACRO_BACKEND as ExecutorBackend;
   }
 
-  const agent = new MacroAgent();
+  // Parse profile and hot-reload options
+  const profileArg = args.find(a => a.startsWith('--profile='));
+  const profileFile = profileArg ? profileArg.split('=')[1] : process.env.MACRO_PROFILE;
+
+  // Offline gesture check, no executor needed
+  const simulateArg = args.find(a => a.startsWith('--simulate='));
+  if (simulateArg) {
+    process.exit(simulateTrace(simulateArg.split('=')[1], profileFile) ? 0 : 1);
+  }
+
+  // Timing benchmark on a synthetic macro; mock unless a backend is chosen
+  const benchmarkArg = args.find(a => a === '--benchmark' || a.startsWith('--benchmark='));
+  if (benchmarkArg) {
+    const runsValue = benchmarkArg.includes('=') ? benchmarkArg.split('=')[1] : String(DEFAULT_BENCHMARK_RUNS);
+    const runs = Number(runsValue);
+    if (!Number.isInteger(runs) || runs <= 0) {
+      console.error(`❌ Invalid benchmark run count "${runsValue}"`);
+      process.exit(1);
+    }
+    process.exit(await runBenchmark(backend ?? 'mock', runs) ? 0 : 1);
+  }
+
+  const reloadArg = args.find(a => a.startsWith('--on-reload='));
+  const reloadPolicy = (reloadArg ? reloadArg.split('=')[1] : process.env.MACRO_RELOAD_POLICY) || 'finish';
+  if (!RELOAD_POLICIES.includes(reloadPolicy as ReloadPolicy)) {
+    console.error(`❌ Invalid reload policy "${reloadPolicy}" (expected: ${RELOAD_POLICIES.join(', ')})`);
+    process.exit(1);
+  }
+
+  // Parse control API options
+  const controlArg = args.find(a => a === '--control' || a.startsWith('--control='));
+  let control: ControlServerConfig | undefined;
+  if (controlArg || process.env.MACRO_CONTROL_PORT) {
+    const portValue = controlArg?.includes('=') ? controlArg.split('=')[1] : process.env.MACRO_CONTROL_PORT;
+    const port = portValue ? Number(portValue) : DEFAULT_CONTROL_PORT;
+    if (!Number.isInteger(port) || port <= 0 || port > 65535) {
+      console.error(`❌ Invalid control port "${portValue}"`);
+      process.exit(1);
+    }
+    control = {
+      port,
+      token: process.env.MACRO_CONTROL_TOKEN || ControlServer.generateToken(),
+    };
+  }
+
+  // Parse input source option
+  let inputSource: InputSource | undefined;
+  const replayArg = args.find(a => a.startsWith('--replay='));
+  if (replayArg) {
+    const replay = ReplayInputSource.load(replayArg.split('=')[1], {
+      // Let the last multi-press window close and its macro run before exiting
+      onEnd: () => setTimeout(() => {
+        void agent.stop().finally(() => process.exit(0));
+      }, REPLAY_SETTLE_MS),
+    });
+    if (!replay) {
+      process.exit(1);
+    }
+    inputSource = replay;
+  }
+
+  const agent = new MacroAgent(reloadPolicy as ReloadPolicy, inputSource);
+
+  if (inputSource instanceof ReplayInputSource && inputSource.header) {
+    const { header } = inputSource;
+    console.log(`📼 Trace recorded by ${header.source} at ${header.recordedAt} with profile "${header.profileName ?? 'none'}"`);
+  }
 
   // Handle graceful shutdown
   process.on('SIGINT', () => {
-    agent.stop();
-    process.exit(0);
+    void agent.stop().finally(() => process.exit(0));
   });
 
   process.on('SIGTERM', () => {
-    agent.stop();
-    process.exit(0);
+    void agent.stop().finally(() => process.exit(0));
   });
 
   // Start the agent
-  await agent.start(backend);
+  await agent.start({
+    backend,
+    profileFile,
+    watch: !args.includes('--no-watch'),
+    control,
+    recordPath: args.find(a => a.startsWith('--record='))?.split('=')[1],
+  });
 }
 
 main().catch(console.error);
@@ -19,37 +19,24 @@
 // ============================================================================
 
 import { InputKey } from './types.js';
+import { InputCallback, InputSource } from './inputSource.js';
 
-export interface KeyEvent {
-  key: string;
-  type: 'down' | 'up';
-  timestamp: number;
-}
-
-export interface MouseEvent {
-  button: 'LEFT_CLICK' | 'RIGHT_CLICK' | 'MIDDLE_CLICK';
-  type: 'down' | 'up';
-  timestamp: number;
-}
-
-export type InputCallback = (event: KeyEvent | MouseEvent) => void;
+export type { KeyEvent, MouseEvent, InputCallback } from './inputSource.js';
 
-export class InputListener {
-  private callback: InputCallback;
+export class StdinInputSource implements InputSource {
+  readonly name = 'stdin';
+  private callback: InputCallback = () => {};
   private isListening: boolean = false;
   private pressedKeys: Set<string> = new Set();
 
-  constructor(callback: InputCallback) {
-    this.callback = callback;
-  }
-
   /**
    * Start listening for input events
    * Uses stdin for testing - replace with iohook for production
    */
-  start(): void {
+  start(callback: InputCallback): void {
     if (this.isListening) return;
     this.isListening = true;
+    this.callback = callback;
 
     console.log('\n🎧 Input Listener started (stdin mode)');
     console.log('   Press keys to test gesture detection');
@@ -0,0 +1,95 @@
+// ============================================================================
+// INPUT SOURCE - Where the agent's raw key/mouse events come from
+// ============================================================================
+//
+// MacroAgent only sees this interface, so the gesture pipeline runs the same
+// whether events come from the terminal, a recorded trace or a test.
+//
+//   StdinInputSource       (inputListener.ts)     Terminal keys, fixed-length taps
+//   ReplayInputSource      (replayInputSource.ts) JSONL trace with real timing
+//   ProgrammaticInputSource (below)               Events pushed from code
+//
+// ============================================================================
+
+export type MouseButton = 'LEFT_CLICK' | 'RIGHT_CLICK' | 'MIDDLE_CLICK';
+
+export const MOUSE_BUTTONS: readonly MouseButton[] = ['LEFT_CLICK', 'RIGHT_CLICK', 'MIDDLE_CLICK'];
+
+export interface KeyEvent {
+  key: string;
+  type: 'down' | 'up';
+  timestamp: number;
+}
+
+export interface MouseEvent {
+  button: MouseButton;
+  type: 'down' | 'up';
+  timestamp: number;
+}
+
+export type InputEvent = KeyEvent | MouseEvent;
+
+export type InputCallback = (event: InputEvent) => void;
+
+/**
+ * A stream of raw down/up events
+ */
+export interface InputSource {
+  readonly name: string;
+  start(callback: InputCallback): void;
+  stop(): void;
+  isActive(): boolean;
+}
+
+/**
+ * Input pushed from code, for tests and scripted scenarios.
+ * Events are delivered synchronously and ignored while stopped.
+ */
+export class ProgrammaticInputSource implements InputSource {
+  readonly name = 'programmatic';
+  private callback: InputCallback | null = null;
+
+  start(callback: InputCallback): void {
+    this.callback = callback;
+  }
+
+  stop(): void {
+    this.callback = null;
+  }
+
+  isActive(): boolean {
+    return this.callback !== null;
+  }
+
+  /**
+   * Deliver an event; the timestamp defaults to now
+   */
+  emit(event: Omit<KeyEvent, 'timestamp'> | Omit<MouseEvent, 'timestamp'>, timestamp: number = Date.now()): void {
+    this.callback?.({ ...event, timestamp } as InputEvent);
+  }
+
+  keyDown(key: string): void {
+    this.emit({ key: key.toUpperCase(), type: 'down' });
+  }
+
+  keyUp(key: string): void {
+    this.emit({ key: key.toUpperCase(), type: 'up' });
+  }
+
+  mouseDown(button: MouseButton): void {
+    this.emit({ button, type: 'down' });
+  }
+
+  mouseUp(button: MouseButton): void {
+    this.emit({ button, type: 'up' });
+  }
+
+  /**
+   * Press and release a key, holding it for holdMs
+   */
+  async tap(key: string, holdMs: number = 50): Promise<void> {
+    this.keyDown(key);
+    await new Promise(resolve => setTimeout(resolve, holdMs));
+    this.keyUp(key);
+  }
+}
@@ -0,0 +1,130 @@
+// ============================================================================
+// INPUT TRACE FILES - --record writer and --replay loader
+// ============================================================================
+//
+// The JSONL format itself (entries, parser) lives in @swtor/agent-profile,
+// which the browser GestureSimulator records with too; this module adds
+// the file handling.
+//
+// ============================================================================
+
+import fs from 'fs';
+import { performance } from 'perf_hooks';
+import {
+  INPUT_TRACE_VERSION,
+  parseInputTrace,
+  traceTimestamp,
+  ParsedTrace,
+  TraceEntry,
+} from '@swtor/agent-profile';
+import { GestureEvent, MacroProfile } from './types.js';
+import { InputEvent } from './inputSource.js';
+
+/**
+ * Read and parse a trace file. Errors are logged and null is returned.
+ */
+export function loadInputTrace(filepath: string): ParsedTrace | null {
+  let text: string;
+  try {
+    text = fs.readFileSync(filepath, 'utf-8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      console.error(`❌ Trace file not found: "${filepath}"`);
+    } else {
+      console.error(`❌ Error reading trace "${filepath}":`, error);
+    }
+    return null;
+  }
+
+  const trace = parseInputTrace(text);
+  if (trace.errors.length > 0) {
+    console.error(`❌ Errors in trace "${filepath}":`);
+    trace.errors.forEach(e => console.error(`   - ${e}`));
+    return null;
+  }
+  if (trace.inputs.length === 0) {
+    console.error(`❌ Trace "${filepath}" has no input events`);
+    return null;
+  }
+
+  return trace;
+}
+
+/**
+ * Input entries as the events an InputSource emits
+ */
+export function traceInputEvents(trace: ParsedTrace): InputEvent[] {
+  return trace.inputs.map(({ kind: _kind, ...event }) => event as InputEvent);
+}
+
+/**
+ * Writes a trace file synchronously as events happen, so a crash or
+ * process.exit() still leaves a complete trace behind
+ */
+export class TraceRecorder {
+  private fd: number | null;
+  private startedAt: number;
+  private entryCount: number = 0;
+
+  constructor(filepath: string, profile: MacroProfile | null) {
+    this.fd = fs.openSync(filepath, 'w');
+    this.startedAt = performance.now();
+
+    this.write({
+      kind: 'header',
+      version: INPUT_TRACE_VERSION,
+      source: 'agent',
+      recordedAt: new Date().toISOString(),
+      profileName: profile?.name ?? null,
+      gestureSettings: { ...(profile?.gestureSettings ?? {}) },
+      profile: profile ?? undefined,
+    });
+
+    console.log(`⏺️  Recording input to "${filepath}"`);
+  }
+
+  /**
+   * Record a raw input event
+   */
+  recordInput(event: InputEvent): void {
+    const timestamp = this.now();
+    if ('key' in event) {
+      this.write({ kind: 'input', timestamp, type: event.type, key: event.key });
+    } else {
+      this.write({ kind: 'input', timestamp, type: event.type, button: event.button });
+    }
+  }
+
+  /**
+   * Record a gesture the detector emitted
+   */
+  recordGesture(event: GestureEvent): void {
+    this.write({
+      kind: 'gesture',
+      timestamp: this.now(),
+      key: event.inputKey,
+      gesture: event.gesture,
+      holdDuration: event.holdDuration,
+    });
+  }
+
+  /**
+   * Close the file; later events are ignored
+   */
+  close(): void {
+    if (this.fd === null) return;
+    fs.closeSync(this.fd);
+    this.fd = null;
+    console.log(`⏹️  Recorded ${this.entryCount} trace entries`);
+  }
+
+  private now(): number {
+    return traceTimestamp(performance.now() - this.startedAt);
+  }
+
+  private write(entry: TraceEntry): void {
+    if (this.fd === null) return;
+    fs.writeSync(this.fd, JSON.stringify(entry) + '\n');
+    this.entryCount++;
+  }
+}
@@ -14,12 +14,28 @@
  * 
  * How it works:
  * 1. Interception hooks into the Windows input stack at kernel level
- * 2. We create a "virtual" keyboard device context
+ * 2. We create a "virtual" keyboard and mouse device context
  * 3. Input sent through this context appears to come from hardware
  * 4. No software injection flags are set
  */
 
-import { SequenceStep, MacroBinding, SEQUENCE_CONSTRAINTS } from './types.js';
+import {
+  validateSequence,
+  formatDiagnostic,
+  describeStep,
+  mouseButtonOutput,
+  scrollOutput,
+  MouseButtonOutput,
+  Scheduler,
+  sharedScheduler,
+} from '@swtor/agent-profile';
+import { SequenceStep, MacroBinding } from './types.js';
+import { TimingSampleCallback } from './timingTelemetry.js';
+import { performance } from 'perf_hooks';
+
+// Called after each keystroke with the index of its step, and again with the
+// delay picked before the next keystroke
+export type KeystrokeCallback = (stepIndex: number, delay?: number) => void;
 
 // Interception key codes (scan codes)
 // These are hardware scan codes, not virtual key codes
@@ -54,6 +70,9 @@ const SCAN_CODES: Record<string, ScanCodeEntry> = {
   // Special keys
   'space': { code: 0x39 }, 'enter': { code: 0x1C }, 'escape': { code: 0x01 },
   'tab': { code: 0x0F }, 'backspace': { code: 0x0E },
+
+  // Modifiers (left-hand keys) for chords and down/up steps
+  'shift': { code: 0x2A }, 'ctrl': { code: 0x1D }, 'alt': { code: 0x38 },
   
   // Numpad (NOT extended - these are the numpad keys)
   'num0': { code: 0x52 }, 'num1': { code: 0x4F }, 'num2': { code: 0x50 }, 'num3': { code: 0x51 },
@@ -92,6 +111,16 @@ interface InterceptionKeyStroke {
   information: number;
 }
 
+// Interception mouse stroke structure
+interface InterceptionMouseStroke {
+  state: number;     // Button transitions / wheel flags
+  flags: number;     // Movement mode (relative)
+  rolling: number;   // Wheel delta
+  x: number;
+  y: number;
+  information: number;
+}
+
 // Interception context handle
 type InterceptionContext = number;
 type InterceptionDevice = number;
@@ -101,6 +130,17 @@ const KEY_DOWN = 0x00;
 const KEY_UP = 0x01;
 const KEY_E0 = 0x02;  // Extended key flag
 
+// Mouse button states for Interception (one bit per transition)
+const MOUSE_BUTTON_STATES: Record<MouseButtonOutput, { down: number; up: number }> = {
+  mouse_left: { down: 0x001, up: 0x002 },
+  mouse_right: { down: 0x004, up: 0x008 },
+  mouse_middle: { down: 0x010, up: 0x020 },
+  mouse_x1: { down: 0x040, up: 0x080 },
+  mouse_x2: { down: 0x100, up: 0x200 },
+};
+const MOUSE_WHEEL = 0x400;
+const WHEEL_DELTA = 120;  // One wheel notch; positive scrolls up
+
 // FFI bindings interface (will be loaded dynamically)
 interface InterceptionFFI {
   interception_create_context(): InterceptionContext;
@@ -116,12 +156,19 @@ interface InterceptionFFI {
 export class InterceptionExecutor {
   private context: InterceptionContext | null = null;
   private keyboardDevice: InterceptionDevice = 1; // Default to first keyboard
+  private mouseDevice: InterceptionDevice = 11;   // Default to first mouse
   private ffi: InterceptionFFI | null = null;
   private initialized: boolean = false;
   private dllPath: string;
+  private scheduler: Scheduler;
+  private heldKeys: Set<Set<string>> = new Set();  // Keys each running sequence holds down
 
-  constructor(dllPath: string = 'C:\\Program Files\\Interception\\library\\x64\\interception.dll') {
+  constructor(
+    dllPath: string = 'C:\\Program Files\\Interception\\library\\x64\\interception.dll',
+    scheduler: Scheduler = sharedScheduler
+  ) {
     this.dllPath = dllPath;
+    this.scheduler = scheduler;
   }
 
   /**
@@ -165,6 +212,15 @@ export class InterceptionExecutor {
         }
       }
 
+      // Find first mouse device (devices 11-20 are mice)
+      for (let device = 11; device <= 20; device++) {
+        if (this.ffi.interception_is_mouse(device)) {
+          this.mouseDevice = device;
+          console.log(`[InterceptionExecutor] Using mouse device: ${device}`);
+          break;
+        }
+      }
+
       this.initialized = true;
       console.log('[InterceptionExecutor] Initialized successfully (kernel-level injection ready)');
       return true;
@@ -183,6 +239,9 @@ export class InterceptionExecutor {
    */
   destroy(): void {
     if (this.ffi && this.context) {
+      // Sequences still running can no longer release their keys once the context is gone
+      this.heldKeys.forEach(held => held.forEach(key => this.sendKeyState(key, KEY_UP)));
+      this.heldKeys.clear();
       this.ffi.interception_destroy_context(this.context);
       this.context = null;
       this.initialized = false;
@@ -216,38 +275,129 @@ export class InterceptionExecutor {
   }
 
   /**
-   * Send a single keypress (down + up) via Interception
+   * Create a mouse stroke buffer for Interception
+   * The struct is 20 bytes total:
+   *   unsigned short state (2 bytes)
+   *   unsigned short flags (2 bytes)
+   *   short rolling (2 bytes, then 2 bytes padding)
+   *   int x, int y (4 bytes each)
+   *   unsigned int information (4 bytes)
+   */
+  private createMouseStrokeBuffer(stroke: InterceptionMouseStroke): Buffer {
+    const buffer = Buffer.alloc(20);
+    buffer.writeUInt16LE(stroke.state, 0);
+    buffer.writeUInt16LE(stroke.flags, 2);   // 0 = relative movement
+    buffer.writeInt16LE(stroke.rolling, 4);
+    buffer.writeInt32LE(stroke.x, 8);
+    buffer.writeInt32LE(stroke.y, 12);
+    buffer.writeUInt32LE(stroke.information, 16);
+    return buffer;
+  }
+
+  /**
+   * Send a mouse stroke that does not move the cursor
    */
-  private sendKey(key: string): boolean {
+  private sendMouseStroke(state: number, rolling: number = 0): boolean {
     if (!this.initialized || !this.ffi || !this.context) {
       console.error('[InterceptionExecutor] Not initialized');
       return false;
     }
 
+    const stroke = this.createMouseStrokeBuffer({ state, flags: 0, rolling, x: 0, y: 0, information: 0 });
+    this.ffi.interception_send(this.context, this.mouseDevice, stroke, 1);
+    return true;
+  }
+
+  /**
+   * Send one wheel notch via Interception
+   */
+  private sendScroll(key: string): boolean {
+    return this.sendMouseStroke(MOUSE_WHEEL, scrollOutput(key) === 'scroll_up' ? WHEEL_DELTA : -WHEEL_DELTA);
+  }
+
+  /**
+   * Send a single key or mouse button down or up stroke via Interception
+   */
+  private sendKeyState(key: string, state: number): boolean {
+    if (!this.initialized || !this.ffi || !this.context) {
+      console.error('[InterceptionExecutor] Not initialized');
+      return false;
+    }
+
+    const button = mouseButtonOutput(key);
+    if (button) {
+      const states = MOUSE_BUTTON_STATES[button];
+      return this.sendMouseStroke(state === KEY_DOWN ? states.down : states.up);
+    }
+
     const entry = this.getScanCodeEntry(key);
     if (!entry) {
       console.error(`[InterceptionExecutor] Unknown key: ${key}`);
       return false;
     }
 
-    const isExtended = entry.isExtended ?? false;
+    const stroke = this.createStrokeBuffer(entry.code, state, entry.isExtended ?? false);
+    this.ffi.interception_send(this.context, this.keyboardDevice, stroke, 1);
+    return true;
+  }
 
-    // Key down
-    const downStroke = this.createStrokeBuffer(entry.code, KEY_DOWN, isExtended);
-    this.ffi.interception_send(this.context, this.keyboardDevice, downStroke, 1);
+  /**
+   * Send a single keypress or click (down + up) via Interception. The key is
+   * in `held` while it is down.
+   */
+  private async sendKey(key: string, held: Set<string>): Promise<boolean> {
+    held.add(key);
+    if (!this.sendKeyState(key, KEY_DOWN)) {
+      return false;
+    }
 
-    // Small delay between down and up (5-15ms, human-like)
+    // Small delay between down and up (5-15ms, human-like); waited on the
+    // shared loop so other sequences keep their timing meanwhile
     const holdTime = Math.floor(Math.random() * 10) + 5;
-    const start = Date.now();
-    while (Date.now() - start < holdTime) {
-      // Busy wait for precise timing
-    }
+    await this.preciseSleep(holdTime);
 
-    // Key up
-    const upStroke = this.createStrokeBuffer(entry.code, KEY_UP, isExtended);
-    this.ffi.interception_send(this.context, this.keyboardDevice, upStroke, 1);
+    held.delete(key);
+    return this.sendKeyState(key, KEY_UP);
+  }
 
-    return true;
+  /**
+   * Perform one hit of a step. Modifiers go down before the key and up
+   * after it. Every key that is down, modifiers included, is tracked in
+   * `held` until it is released, so a failed send, a cancel or destroy()
+   * still lets it go.
+   */
+  private async performStep(step: SequenceStep, held: Set<string>, shouldContinue: () => boolean): Promise<boolean> {
+    const modifiers = step.modifiers ?? [];
+    const press = (key: string) => {
+      held.add(key);
+      return this.sendKeyState(key, KEY_DOWN);
+    };
+    const release = (key: string) => {
+      held.delete(key);
+      return this.sendKeyState(key, KEY_UP);
+    };
+    const pressModifiers = (state: number) => state === KEY_DOWN
+      ? modifiers.every(press)
+      : [...modifiers].reverse().every(release);
+
+    switch (step.action ?? 'tap') {
+      case 'tap':
+        if (scrollOutput(step.key)) {
+          return pressModifiers(KEY_DOWN) && this.sendScroll(step.key) && pressModifiers(KEY_UP);
+        }
+        return pressModifiers(KEY_DOWN) && await this.sendKey(step.key, held) && pressModifiers(KEY_UP);
+      case 'down':
+        return press(step.key);
+      case 'up':
+        return release(step.key);
+      case 'hold': {
+        if (!pressModifiers(KEY_DOWN) || !press(step.key)) {
+          return false;
+        }
+        await this.preciseSleep(step.holdMs ?? 0, shouldContinue);
+        return release(step.key) && pressModifiers(KEY_UP);
+      }
+    }
   }
 
   /**
@@ -258,82 +408,43 @@ export class InterceptionExecutor {
   }
 
   /**
-   * Precise sleep using busy-wait for sub-millisecond accuracy
+   * Precise sleep on the shared timing loop, which spins for the last
+   * stretch for sub-millisecond accuracy. Ends early once shouldContinue
+   * returns false.
    */
-  private preciseSleep(ms: number): Promise<void> {
-    return new Promise((resolve) => {
-      const start = Date.now();
-      const check = () => {
-        if (Date.now() - start >= ms) {
-          resolve();
-        } else {
-          setImmediate(check);
-        }
-      };
-      check();
-    });
+  private preciseSleep(ms: number, shouldContinue?: () => boolean): Promise<void> {
+    return this.scheduler.wait(ms, shouldContinue);
   }
 
   /**
    * Validate a sequence before execution
    */
   validateSequence(sequence: SequenceStep[]): { valid: boolean; errors: string[] } {
-    const errors: string[] = [];
-
-    // Check unique keys constraint
-    const uniqueKeys = new Set(sequence.map(s => s.key.toLowerCase()));
-    if (uniqueKeys.size > SEQUENCE_CONSTRAINTS.MAX_UNIQUE_KEYS) {
-      errors.push(`Too many unique keys: ${uniqueKeys.size} (max ${SEQUENCE_CONSTRAINTS.MAX_UNIQUE_KEYS})`);
-    }
+    const errors = validateSequence(sequence, ['sequence']).diagnostics.map(formatDiagnostic);
 
-    // Count STEPS per key (not total presses - echoHits don't count toward step limit)
-    const keyStepCount: Map<string, number> = new Map();
-
-    // Check each step
     for (const step of sequence) {
-      // Min delay check
-      if (step.minDelay < SEQUENCE_CONSTRAINTS.MIN_DELAY) {
-        errors.push(`Step ${step.key}: minDelay ${step.minDelay}ms < minimum ${SEQUENCE_CONSTRAINTS.MIN_DELAY}ms`);
-      }
-
-      // Variance check
-      const variance = step.maxDelay - step.minDelay;
-      if (variance < SEQUENCE_CONSTRAINTS.MIN_VARIANCE) {
-        errors.push(`Step ${step.key}: variance ${variance}ms < minimum ${SEQUENCE_CONSTRAINTS.MIN_VARIANCE}ms`);
-      }
-
-      // Echo hits check (per-step, 1-6 allowed)
-      const echoHits = step.echoHits || 1;
-      if (echoHits < 1 || echoHits > SEQUENCE_CONSTRAINTS.MAX_ECHO_HITS) {
-        errors.push(`Step ${step.key}: echoHits must be 1-${SEQUENCE_CONSTRAINTS.MAX_ECHO_HITS} (got ${echoHits})`);
-      }
-
-      // Count steps per key (NOT including echoHits - those are just repetitions)
-      const normalizedKey = step.key.toLowerCase();
-      const current = keyStepCount.get(normalizedKey) || 0;
-      keyStepCount.set(normalizedKey, current + 1);
-
-      // Key mapping check
+      if (mouseButtonOutput(step.key) || scrollOutput(step.key)) continue;
       if (!this.getScanCodeEntry(step.key)) {
         errors.push(`Step ${step.key}: unknown key (no scan code mapping)`);
       }
     }
 
-    // Check max steps per key (echoHits are separate - they're just repetitions within a step)
-    for (const [key, count] of keyStepCount) {
-      if (count > SEQUENCE_CONSTRAINTS.MAX_STEPS_PER_KEY) {
-        errors.push(`Key "${key}" used in ${count} steps, maximum is ${SEQUENCE_CONSTRAINTS.MAX_STEPS_PER_KEY} steps per key`);
-      }
-    }
-
     return { valid: errors.length === 0, errors };
   }
 
   /**
    * Execute a sequence of keypresses with timing
-   * Uses Interception driver for kernel-level injection
+   * Uses Interception driver for kernel-level injection.
+   * shouldContinue is checked before every keystroke; returning false stops the sequence.
+   * onInterval receives the scheduled and measured gap before each keystroke after the first.
+   * onKeystroke is told about each keystroke sent and each delay picked.
    */
-  async executeSequence(sequence: SequenceStep[]): Promise<boolean> {
+  async executeSequence(
+    sequence: SequenceStep[],
+    shouldContinue: () => boolean = () => true,
+    onInterval: TimingSampleCallback = () => {},
+    onKeystroke: KeystrokeCallback = () => {}
+  ): Promise<boolean> {
     if (!this.initialized) {
       console.error('[InterceptionExecutor] Not initialized - call initialize() first');
       return false;
@@ -349,20 +460,53 @@ export class InterceptionExecutor {
 
     console.log(`[InterceptionExecutor] Executing ${sequence.length} steps (Interception/kernel mode)`);
 
+    const held = new Set<string>();
+    this.heldKeys.add(held);
+    try {
+      return await this.runSteps(sequence, held, shouldContinue, onInterval, onKeystroke);
+    } finally {
+      // Never leave a key pressed after a cancel or failure
+      this.heldKeys.delete(held);
+      held.forEach(key => this.sendKeyState(key, KEY_UP));
+    }
+  }
+
+  /**
+   * Send every hit of every step with its delay; false if stopped or a send failed
+   */
+  private async runSteps(
+    sequence: SequenceStep[],
+    held: Set<string>,
+    shouldContinue: () => boolean,
+    onInterval: TimingSampleCallback,
+    onKeystroke: KeystrokeCallback
+  ): Promise<boolean> {
+    let lastHit: { at: number; delay: number } | null = null;  // End of the previous keystroke
     for (let i = 0; i < sequence.length; i++) {
       const step = sequence[i];
       const echoHits = step.echoHits || 1;
 
       // Execute each echo hit
       for (let hit = 0; hit < echoHits; hit++) {
+        if (!shouldContinue()) {
+          console.log('[InterceptionExecutor] Sequence cancelled');
+          return false;
+        }
+
+        if (lastHit) {
+          onInterval(i, { scheduled: lastHit.delay, actual: performance.now() - lastHit.at });
+        }
+
         // Send the key via Interception
-        const success = this.sendKey(step.key);
+        const success = await this.performStep(step, held, shouldContinue);
+        const hitEnd = performance.now();
         if (!success) {
-          console.error(`[InterceptionExecutor] Failed to send key: ${step.key}`);
+          console.error(`[InterceptionExecutor] Failed to send: ${describeStep(step)}`);
           return false;
         }
 
-        console.log(`  [${i + 1}/${sequence.length}] ${step.key} (hit ${hit + 1}/${echoHits}) via Interception`);
+        onKeystroke(i);
+        console.log(`  [${i + 1}/${sequence.length}] ${describeStep(step)} (hit ${hit + 1}/${echoHits}) via Interception`);
 
         // Delay before next keypress (except after last hit of last step)
         const isLastHit = hit === echoHits - 1;
@@ -370,6 +514,8 @@ export class InterceptionExecutor {
         
         if (!isLastStep || !isLastHit) {
           const delay = this.getRandomDelay(step.minDelay, step.maxDelay);
+          onKeystroke(i, delay);
+          lastHit = { at: hitEnd, delay };
           await this.preciseSleep(delay);
         }
       }
@@ -399,6 +545,11 @@ export class InterceptionExecutor {
  */
 export class MockInterceptionExecutor {
   private initialized: boolean = false;
+  private scheduler: Scheduler;
+
+  constructor(scheduler: Scheduler = sharedScheduler) {
+    this.scheduler = scheduler;
+  }
 
   async initialize(): Promise<boolean> {
     console.log('[MockInterception] Initialized in MOCK mode (no actual keypresses)');
@@ -413,48 +564,21 @@ export class MockInterceptionExecutor {
   }
 
   validateSequence(sequence: SequenceStep[]): { valid: boolean; errors: string[] } {
-    const errors: string[] = [];
-    const uniqueKeys = new Set(sequence.map(s => s.key.toLowerCase()));
-    
-    if (uniqueKeys.size > SEQUENCE_CONSTRAINTS.MAX_UNIQUE_KEYS) {
-      errors.push(`Too many unique keys: ${uniqueKeys.size} (max ${SEQUENCE_CONSTRAINTS.MAX_UNIQUE_KEYS})`);
-    }
-
-    // Count STEPS per key (not total presses - echoHits don't count toward step limit)
-    const keyStepCount: Map<string, number> = new Map();
-
-    for (const step of sequence) {
-      if (step.minDelay < SEQUENCE_CONSTRAINTS.MIN_DELAY) {
-        errors.push(`Step ${step.key}: minDelay ${step.minDelay}ms < minimum ${SEQUENCE_CONSTRAINTS.MIN_DELAY}ms`);
-      }
-      const variance = step.maxDelay - step.minDelay;
-      if (variance < SEQUENCE_CONSTRAINTS.MIN_VARIANCE) {
-        errors.push(`Step ${step.key}: variance ${variance}ms < minimum ${SEQUENCE_CONSTRAINTS.MIN_VARIANCE}ms`);
-      }
-      
-      // Echo hits check (per-step, 1-6 allowed)
-      const echoHits = step.echoHits || 1;
-      if (echoHits < 1 || echoHits > SEQUENCE_CONSTRAINTS.MAX_ECHO_HITS) {
-        errors.push(`Step ${step.key}: echoHits must be 1-${SEQUENCE_CONSTRAINTS.MAX_ECHO_HITS} (got ${echoHits})`);
-      }
-
-      // Count steps per key (NOT including echoHits)
-      const normalizedKey = step.key.toLowerCase();
-      const current = keyStepCount.get(normalizedKey) || 0;
-      keyStepCount.set(normalizedKey, current + 1);
-    }
-
-    // Check max steps per key (echoHits are separate)
-    for (const [key, count] of keyStepCount) {
-      if (count > SEQUENCE_CONSTRAINTS.MAX_STEPS_PER_KEY) {
-        errors.push(`Key "${key}" used in ${count} steps, maximum is ${SEQUENCE_CONSTRAINTS.MAX_STEPS_PER_KEY} steps per key`);
-      }
-    }
-
-    return { valid: errors.length === 0, errors };
+    const { valid, diagnostics } = validateSequence(sequence, ['sequence']);
+    return { valid, errors: diagnostics.map(formatDiagnostic) };
   }
 
-  async executeSequence(sequence: SequenceStep[]): Promise<boolean> {
+  /**
+   * Log the keystrokes instead of sending them. Waits the same randomized
+   * delays as the real executor so overlapping triggers and cancellation
+   * behave as they would with the driver.
+   */
+  async executeSequence(
+    sequence: SequenceStep[],
+    shouldContinue: () => boolean = () => true,
+    onInterval: TimingSampleCallback = () => {},
+    onKeystroke: KeystrokeCallback = () => {}
+  ): Promise<boolean> {
     if (!this.initialized) return false;
 
     const validation = this.validateSequence(sequence);
@@ -465,14 +589,46 @@ export class MockInterceptionExecutor {
 
     console.log(`[MockInterception] Would execute ${sequence.length} steps:`);
     let totalPresses = 0;
-    for (const step of sequence) {
+    let lastHit: { at: number; delay: number } | null = null;
+    for (let i = 0; i < sequence.length; i++) {
+      const step = sequence[i];
       const echoHits = step.echoHits || 1;
-      totalPresses += echoHits;
-      console.log(`  - ${step.key} x${echoHits} (${step.minDelay}-${step.maxDelay}ms delay)`);
+
+      for (let hit = 0; hit < echoHits; hit++) {
+        if (!shouldContinue()) {
+          console.log(`[MockInterception] Cancelled after ${totalPresses} inputs`);
+          return false;
+        }
+
+        if (lastHit) {
+          onInterval(i, { scheduled: lastHit.delay, actual: performance.now() - lastHit.at });
+        }
+
+        totalPresses++;
+        console.log(`  - ${describeStep(step)} (hit ${hit + 1}/${echoHits})`);
+        if (step.action === 'hold') {
+          await this.scheduler.wait(step.holdMs ?? 0, shouldContinue);
+        }
+        const hitEnd = performance.now();
+        onKeystroke(i);
+
+        const isLastHit = hit === echoHits - 1;
+        const isLastStep = i === sequence.length - 1;
+        if (!isLastStep || !isLastHit) {
+          const delay = this.getRandomDelay(step.minDelay, step.maxDelay);
+          onKeystroke(i, delay);
+          lastHit = { at: hitEnd, delay };
+          await this.scheduler.wait(delay);
+        }
+      }
     }
-    console.log(`[MockInterception] Total: ${totalPresses} key presses`);
+    console.log(`[MockInterception] Total: ${totalPresses} inputs`);
     return true;
   }
+
+  private getRandomDelay(minDelay: number, maxDelay: number): number {
+    return Math.floor(Math.random() * (maxDelay - minDelay + 1)) + minDelay;
+  }
 }
 
 export default InterceptionExecutor;
@@ -0,0 +1,534 @@
+// ============================================================================
+// MACRO AGENT - Input, gestures, profiles and the executor wired together
+// ============================================================================
+//
+// index.ts parses the command line and runs one of these. Importing this
+// module starts nothing, so tests can run an agent on the mock backend with
+// a ProgrammaticInputSource, a temporary profiles directory and the control
+// API on an ephemeral port.
+
+import { GestureDetector } from './gestureDetector.js';
+import { ExecutionEvent } from './sequenceExecutor.js';
+import { StdinInputSource } from './inputListener.js';
+import { InputSource, InputEvent } from './inputSource.js';
+import { TraceRecorder } from './inputTrace.js';
+import { ProfileLoader, logDiagnostics } from './profileLoader.js';
+import { SafetyInterlock, InterlockAction } from './safetyInterlock.js';
+import { TimingTelemetry } from './timingTelemetry.js';
+import {
+  MacroProfile,
+  GestureEvent,
+  MacroBinding,
+  InputKey,
+  ReloadPolicy,
+  CANCEL_GESTURE,
+  describeHotkey,
+  expandBinding,
+} from './types.js';
+import { ExecutorFactory, IExecutor, ExecutorBackend } from './executorFactory.js';
+import {
+  ControlServer,
+  ControlServerConfig,
+  AgentController,
+  AgentStatus,
+  ProfileChangeResult,
+} from './controlServer.js';
+
+// Event callback for logging
+function createEventCallback(): (event: ExecutionEvent) => void {
+  return (event) => {
+    if (event.type === 'started') {
+      console.log(`⚡ Started: ${event.bindingName}`);
+    } else if (event.type === 'completed') {
+      console.log(`✅ Completed: ${event.bindingName}`);
+    } else if (event.type === 'error') {
+      console.error(`❌ Error: ${event.bindingName} - ${event.error}`);
+    }
+  };
+}
+
+// A binding and its onComplete follow-ups, run one after another
+interface BindingChain {
+  key: InputKey;    // Trigger key of the binding that started the chain
+  binding: string;  // Binding running now
+}
+
+export interface AgentStartOptions {
+  backend?: ExecutorBackend;
+  profileFile?: string;
+  watch: boolean;
+  control?: ControlServerConfig;  // Port 0 picks a free port, see getControlPort()
+  recordPath?: string;
+}
+
+export class MacroAgent implements AgentController {
+  private profile: MacroProfile | null = null;
+  private activeFile: string | null = null;
+  private watchEnabled: boolean = true;
+  private paused: boolean = false;
+  private controlServer: ControlServer | null = null;
+  private recorder: TraceRecorder | null = null;
+  private gestureDetector: GestureDetector | null = null;
+  private interlock: SafetyInterlock | null = null;
+  private executor: IExecutor | null = null;
+  private telemetry: TimingTelemetry = new TimingTelemetry();
+  private chains: Set<BindingChain> = new Set();
+  private inputSource: InputSource;
+  private profileLoader: ProfileLoader;
+  private currentBackend: ExecutorBackend = 'robotjs';
+  private reloadPolicy: ReloadPolicy;
+
+  constructor(
+    reloadPolicy: ReloadPolicy = 'finish',
+    inputSource: InputSource = new StdinInputSource(),
+    profileDir: string = './profiles'
+  ) {
+    this.profileLoader = new ProfileLoader(profileDir);
+    this.reloadPolicy = reloadPolicy;
+    this.inputSource = inputSource;
+  }
+
+  /**
+   * Initialize the executor with specified backend
+   */
+  async initializeExecutor(backend?: ExecutorBackend): Promise<void> {
+    // Log locally, keep timing per backend and forward to control API clients
+    const log = createEventCallback();
+    const onEvent = (event: ExecutionEvent) => {
+      log(event);
+      if (event.type === 'timing' && event.interval) {
+        this.telemetry.record(this.currentBackend, event.interval);
+      }
+      this.controlServer?.broadcast({ type: 'execution', event });
+    };
+
+    if (backend) {
+      // Use specified backend
+      this.executor = await ExecutorFactory.create({
+        backend,
+        onEvent,
+      });
+      this.currentBackend = backend;
+    } else {
+      // Auto-select best available
+      const result = await ExecutorFactory.createBest(onEvent);
+      this.executor = result.executor;
+      this.currentBackend = result.backend;
+    }
+  }
+
+  /**
+   * Handle raw input events
+   */
+  private handleInputEvent(event: InputEvent): void {
+    // Record everything the user did, even while paused
+    this.recorder?.recordInput(event);
+
+    // Panic/resume hotkeys are checked first and keep working while paused
+    this.interlock?.handleInput(event);
+
+    if (!this.gestureDetector || this.paused) return;
+
+    if ('key' in event) {
+      // Keyboard event
+      if (event.type === 'down') {
+        this.gestureDetector.handleKeyDown(event.key);
+      } else {
+        this.gestureDetector.handleKeyUp(event.key);
+      }
+    } else {
+      // Mouse event
+      if (event.type === 'down') {
+        this.gestureDetector.handleMouseDown(event.button);
+      } else {
+        this.gestureDetector.handleMouseUp(event.button);
+      }
+    }
+  }
+
+  /**
+   * Handle detected gestures
+   */
+  private handleGesture(event: GestureEvent): void {
+    if (!this.profile || !this.executor) return;
+
+    console.log(`\n🎯 Gesture: ${event.inputKey} → ${event.gesture}`);
+    this.recorder?.recordGesture(event);
+    this.controlServer?.broadcast({ type: 'gesture', event });
+
+    // A cancel stops this key's running sequences before any cancel macro starts
+    if (event.gesture === CANCEL_GESTURE) {
+      this.cancelKey(event.inputKey);
+    }
+
+    // Find matching macro binding
+    const binding = this.profile.macros.find(
+      m => m.trigger.key === event.inputKey &&
+           m.trigger.gesture === event.gesture &&
+           m.enabled
+    );
+
+    if (binding) {
+      console.log(`   Matched: "${binding.name}"`);
+      // Nothing awaits gestures; a rejection here must not take the agent down
+      void this.runBinding(binding).catch(error => {
+        console.error(`❌ "${binding.name}" failed:`, error instanceof Error ? error.message : error);
+      });
+    } else {
+      console.log(`   No macro bound`);
+    }
+  }
+
+  /**
+   * Execute a binding with its calls expanded, then its onComplete
+   * follow-up if it finished without being dropped, cancelled or failing
+   */
+  private async runBinding(binding: MacroBinding, chain?: BindingChain): Promise<void> {
+    if (!this.profile || !this.executor) return;
+
+    // Tracked so a cancel on the starting key reaches the follow-ups too
+    if (!chain) {
+      const started: BindingChain = { key: binding.trigger.key, binding: binding.name };
+      this.chains.add(started);
+      try {
+        return await this.runBinding(binding, started);
+      } finally {
+        this.chains.delete(started);
+      }
+    }
+    chain.binding = binding.name;
+
+    const completed = await this.executor.execute(expandBinding(binding, this.profile.macros));
+    if (!completed || binding.onComplete === undefined) return;
+
+    // Looked up now: the profile may have been reloaded while the sequence ran
+    const next = this.profile.macros.find(m => m.name === binding.onComplete);
+    if (!next?.enabled) {
+      console.log(`   ⏭️  Follow-up "${binding.onComplete}" is missing or disabled`);
+      return;
+    }
+
+    console.log(`   ↪️  Follow-up: "${next.name}"`);
+    await this.runBinding(next, chain);
+  }
+
+  /**
+   * Cancel the running sequences of bindings triggered from one key, and
+   * the follow-ups their chains have moved on to
+   */
+  private cancelKey(key: InputKey): void {
+    const executor = this.executor;
+    if (!this.profile || !executor) return;
+
+    const running = new Set(this.profile.macros
+      .filter(m => m.trigger.key === key && executor.isBindingExecuting(m.name))
+      .map(m => m.name));
+    for (const chain of this.chains) {
+      if (chain.key === key) {
+        running.add(chain.binding);
+      }
+    }
+    running.forEach(name => executor.cancel(name));
+    if (running.size > 0) {
+      console.log(`   🛑 Cancelled ${[...running].join(', ')}`);
+    }
+  }
+
+  /**
+   * Load a profile
+   */
+  loadProfile(filename: string): boolean {
+    return this.switchProfile(filename).success;
+  }
+
+  /**
+   * Make a profile file the active one and watch it for changes.
+   * On failure the current profile stays active.
+   */
+  switchProfile(filename: string): ProfileChangeResult {
+    const { profile, diagnostics } = this.profileLoader.readProfile(filename);
+
+    if (!profile) {
+      return { success: false, diagnostics };
+    }
+
+    this.applyProfile(profile);
+    this.activeFile = filename;
+
+    // Pick up re-exports from the web UI without a restart
+    if (this.watchEnabled) {
+      this.profileLoader.watchProfile(filename, (reloaded) => this.handleProfileReload(reloaded));
+    }
+
+    return { success: true, diagnostics };
+  }
+
+  /**
+   * Activate a profile sent by the web app. With a filename it is saved to
+   * profiles/ and watched like any other file; without one it only lives
+   * in memory until the next switch.
+   */
+  pushProfile(data: unknown, filename?: string): ProfileChangeResult {
+    const { profile, diagnostics } = this.profileLoader.validateProfile(data);
+    if (!profile) {
+      logDiagnostics('the pushed profile', diagnostics);
+      return { success: false, diagnostics };
+    }
+
+    if (filename) {
+      if (!this.profileLoader.saveProfile(profile, filename)) {
+        return {
+          success: false,
+          diagnostics: [{ code: 'file_error', severity: 'error', path: [], message: `Could not save "${filename}"` }],
+        };
+      }
+      return this.switchProfile(filename);
+    }
+
+    this.profileLoader.stopWatching();
+    this.applyProfile(profile);
+    this.activeFile = null;
+    console.log(`📥 Received profile "${profile.name}" (${profile.macros.length} macros)`);
+    logDiagnostics('the pushed profile', diagnostics);
+    this.printMacros();
+    return { success: true, diagnostics };
+  }
+
+  /**
+   * Profile files available to switch to
+   */
+  listProfiles(): string[] {
+    return this.profileLoader.listProfiles();
+  }
+
+  /**
+   * Pause or resume gesture detection; pausing drops half-finished gestures
+   */
+  setPaused(paused: boolean): void {
+    if (this.paused === paused) return;
+    this.paused = paused;
+    if (paused) {
+      this.gestureDetector?.reset();
+    }
+    console.log(paused ? '⏸️  Detection paused' : '▶️  Detection resumed');
+  }
+
+  /**
+   * Act on a panic or resume hotkey and tell control API clients
+   */
+  private handleInterlock(action: InterlockAction): void {
+    if (action === 'panic') {
+      console.log('\n🚨 PANIC - stopping all sequences');
+      this.cancelAll();
+      this.setPaused(true);
+      const resume = this.profile?.safety.resume ?? this.profile?.safety.panic;
+      if (resume) {
+        console.log(`   Press ${describeHotkey(resume)} to resume`);
+      }
+    } else {
+      this.setPaused(false);
+    }
+
+    this.controlServer?.broadcast({ type: 'interlock', action, timestamp: Date.now() });
+    this.controlServer?.broadcast({ type: 'status', status: this.getStatus() });
+  }
+
+  /**
+   * Cancel all running sequences. Returns false if no executor is set up yet.
+   */
+  cancelAll(): boolean {
+    if (!this.executor) {
+      return false;
+    }
+    this.executor.cancelAll();
+    console.log('🛑 Cancelled running sequences');
+    return true;
+  }
+
+  /**
+   * Current state for the control API
+   */
+  getStatus(): AgentStatus {
+    return {
+      backend: this.currentBackend,
+      profileName: this.profile?.name ?? null,
+      profileFile: this.activeFile,
+      paused: this.paused,
+    };
+  }
+
+  /**
+   * Swap in a profile and a gesture detector built from its settings.
+   * Both references change in the same tick, so no input is ever matched
+   * against one profile with the other's detector.
+   */
+  private applyProfile(profile: MacroProfile): void {
+    const detector = new GestureDetector(
+      profile.gestureSettings,
+      profile.gestures,
+      (event) => this.handleGesture(event)
+    );
+
+    const previous = this.gestureDetector;
+    this.interlock?.reset();
+    this.profile = profile;
+    this.gestureDetector = detector;
+    this.interlock = new SafetyInterlock(
+      profile.safety,
+      () => this.paused,
+      (action) => this.handleInterlock(action)
+    );
+
+    // Drop half-finished gestures so the old detector's timers cannot fire
+    previous?.reset();
+  }
+
+  /**
+   * Apply a profile that changed on disk (already validated by the loader)
+   */
+  private handleProfileReload(profile: MacroProfile): void {
+    if (this.reloadPolicy === 'cancel') {
+      this.cancelAll();
+    }
+
+    this.applyProfile(profile);
+    console.log(`🔄 Hot-reloaded "${profile.name}"`);
+    this.printMacros();
+    this.controlServer?.broadcast({ type: 'status', status: this.getStatus() });
+  }
+
+  /**
+   * Show the enabled macros of the active profile
+   */
+  private printMacros(): void {
+    if (!this.profile) return;
+    console.log(`\n📋 Loaded macros:`);
+    for (const macro of this.profile.macros) {
+      if (macro.enabled) {
+        const { mode, maxQueue } = macro.concurrency;
+        const policy = mode === 'drop' ? '' : mode === 'queue' ? ` [queue ${maxQueue}]` : ` [${mode}]`;
+        const followUp = macro.onComplete ? ` → then "${macro.onComplete}"` : '';
+        console.log(`   • ${macro.trigger.key} (${macro.trigger.gesture}) → "${macro.name}"${policy}${followUp}`);
+      }
+    }
+
+    const { panic, resume } = this.profile.safety;
+    if (panic) {
+      console.log(`🚨 Panic: ${describeHotkey(panic)} (resume: ${describeHotkey(resume ?? panic)})`);
+    } else if (resume) {
+      console.log(`▶️  Resume: ${describeHotkey(resume)}`);
+    }
+  }
+
+  /**
+   * Start the macro agent
+   */
+  async start(options: AgentStartOptions): Promise<void> {
+    const { backend, profileFile } = options;
+    this.watchEnabled = options.watch;
+
+    console.log('\n╔════════════════════════════════════════════════════╗');
+    console.log('║       SWTOR MACRO AGENT - Per-Key Gestures         ║');
+    console.log('╚════════════════════════════════════════════════════╝\n');
+
+    // Initialize executor
+    await this.initializeExecutor(backend);
+    console.log(`\n🔧 Executor backend: ${this.currentBackend.toUpperCase()}`);
+
+    // List available profiles
+    const profiles = this.profileLoader.listProfiles();
+    let initialFile: string;
+
+    if (profileFile) {
+      initialFile = profileFile;
+    } else if (profiles.length === 0) {
+      console.log('⚠️  No profiles found in ./profiles/');
+      console.log('   Creating example profile...\n');
+      
+      // Profile will be created from the example.json we already have
+      initialFile = 'example.json';
+    } else {
+      console.log(`📂 Available profiles: ${profiles.join(', ')}`);
+      
+      // Load first profile
+      initialFile = profiles[0];
+    }
+
+    if (!this.loadProfile(initialFile)) {
+      console.error('❌ Failed to load profile');
+      return;
+    }
+
+    // Show loaded macros
+    this.printMacros();
+
+    if (this.watchEnabled) {
+      console.log(`   Running sequences on reload: ${this.reloadPolicy}`);
+    }
+
+    // Opt-in localhost API for the web app
+    if (options.control) {
+      this.controlServer = new ControlServer(this, options.control);
+      await this.controlServer.start();
+      console.log(`   Token: ${options.control.token}`);
+    }
+
+    // Show constraints reminder
+    console.log('\n📏 Sequence Constraints:');
+    console.log('   • Min delay: 25ms');
+    console.log('   • Variance: ≥4ms (max - min)');
+    console.log('   • Max unique keys: 4 per sequence');
+    console.log('   • Max repeats: 6 per key');
+
+    if (options.recordPath) {
+      this.recorder = new TraceRecorder(options.recordPath, this.profile);
+    }
+
+    // Start listening
+    console.log('\n─────────────────────────────────────────────────────');
+    console.log(`🎧 Input source: ${this.inputSource.name}`);
+    this.inputSource.start((event) => this.handleInputEvent(event));
+  }
+
+  /**
+   * Stop the macro agent. Resolves once the control API has closed.
+   */
+  async stop(): Promise<void> {
+    this.profileLoader.stopWatching();
+    this.inputSource.stop();
+    this.recorder?.close();
+    this.executor?.cancelAll();
+    this.executor?.destroy?.();
+    this.telemetry.print();
+    await this.controlServer?.stop();
+    console.log('🛑 Macro Agent stopped');
+  }
+
+  /**
+   * Get current backend
+   */
+  getBackend(): ExecutorBackend {
+    return this.currentBackend;
+  }
+
+  /**
+   * Port the control API listens on, or null if it is off
+   */
+  getControlPort(): number | null {
+    return this.controlServer?.port ?? null;
+  }
+
+  /**
+   * Show available backends
+   */
+  static async showBackends(): Promise<void> {
+    console.log('\n📊 Available executor backends:\n');
+    const backends = await ExecutorFactory.getAvailableBackends();
+    
+    for (const { backend, available, notes } of backends) {
+      const status = available ? '✅' : '❌';
+      console.log(`  ${status} ${backend.toUpperCase()}`);
+      console.log(`     ${notes}\n`);
+    }
+  }
+}
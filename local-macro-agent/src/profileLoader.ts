@@ -4,206 +4,184 @@
 
 import fs from 'fs';
 import path from 'path';
-import { 
-  MacroProfile, 
-  MacroBinding, 
-  GestureSettings,
-  SEQUENCE_CONSTRAINTS,
-  INPUT_KEYS,
-  GESTURE_TYPES,
-  InputKey,
-  GestureType
-} from './types.js';
-
-// Default gesture settings
-export const DEFAULT_GESTURE_SETTINGS: GestureSettings = {
-  multiPressWindow: 350,
-  debounceDelay: 10,
-  longPressMin: 80,
-  longPressMax: 140,
-  superLongMin: 300,
-  superLongMax: 2000,
-  cancelThreshold: 3000,
-};
-
-// Validation errors
-interface ValidationResult {
+import {
+  Diagnostic,
+  DiagnosticCode,
+  validateAgentProfile,
+  formatDiagnostic,
+  hasErrors,
+} from '@swtor/agent-profile';
+import { MacroProfile } from './types.js';
+
+// Editors and exports often write a file in several steps; wait for them to settle
+const RELOAD_DEBOUNCE_MS = 200;
+
+// Validation outcome; profile is the input with defaults filled in, or null on errors
+export interface ValidationResult {
   valid: boolean;
-  errors: string[];
-  warnings: string[];
+  profile: MacroProfile | null;
+  diagnostics: Diagnostic[];
+}
+
+/**
+ * A diagnostic for problems with the file itself rather than its content
+ */
+function fileDiagnostic(code: DiagnosticCode, message: string, fix?: string): Diagnostic {
+  return { code, severity: 'error', path: [], message, fix };
+}
+
+/**
+ * Print errors and warnings, each headed by a per-code summary
+ * ("3 errors in "x.json" (2× min_variance, 1× min_delay)")
+ */
+export function logDiagnostics(source: string, diagnostics: Diagnostic[]): void {
+  const groups: [Diagnostic['severity'], string, string, (message: string) => void][] = [
+    ['error', '❌', 'error', console.error],
+    ['warning', '⚠️ ', 'warning', console.log],
+  ];
+
+  for (const [severity, icon, noun, log] of groups) {
+    const matching = diagnostics.filter(d => d.severity === severity);
+    if (matching.length === 0) continue;
+
+    const counts = new Map<DiagnosticCode, number>();
+    matching.forEach(d => counts.set(d.code, (counts.get(d.code) || 0) + 1));
+    const summary = [...counts].map(([code, count]) => `${count}× ${code}`).join(', ');
+
+    log(`${icon} ${matching.length} ${noun}${matching.length === 1 ? '' : 's'} in ${source} (${summary}):`);
+    for (const diagnostic of matching) {
+      log(`   - [${diagnostic.code}] ${formatDiagnostic(diagnostic)}`);
+      if (diagnostic.fix) {
+        log(`     → ${diagnostic.fix}`);
+      }
+    }
+  }
 }
 
 export class ProfileLoader {
   private profileDir: string;
+  private watcher: fs.FSWatcher | null = null;
+  private reloadTimer: NodeJS.Timeout | null = null;
 
   constructor(profileDir: string = './profiles') {
     this.profileDir = profileDir;
   }
 
   /**
-   * Validate a macro binding
+   * Validate a profile against the shared agent-profile schema
    */
-  private validateBinding(binding: MacroBinding, index: number): ValidationResult {
-    const errors: string[] = [];
-    const warnings: string[] = [];
-
-    // Check trigger key
-    if (!INPUT_KEYS.includes(binding.trigger.key as InputKey)) {
-      errors.push(`Binding ${index} "${binding.name}": Invalid trigger key "${binding.trigger.key}"`);
-    }
-
-    // Check gesture type
-    if (!GESTURE_TYPES.includes(binding.trigger.gesture as GestureType)) {
-      errors.push(`Binding ${index} "${binding.name}": Invalid gesture "${binding.trigger.gesture}"`);
-    }
-
-    // Check sequence
-    if (!binding.sequence || binding.sequence.length === 0) {
-      errors.push(`Binding ${index} "${binding.name}": Empty sequence`);
-    } else {
-      // Validate each step
-      for (let i = 0; i < binding.sequence.length; i++) {
-        const step = binding.sequence[i];
-
-        if (!step.key) {
-          errors.push(`Binding ${index} "${binding.name}" step ${i}: Missing key`);
-        }
-
-        if (step.minDelay < SEQUENCE_CONSTRAINTS.MIN_DELAY) {
-          errors.push(
-            `Binding ${index} "${binding.name}" step ${i}: ` +
-            `minDelay ${step.minDelay}ms < ${SEQUENCE_CONSTRAINTS.MIN_DELAY}ms minimum`
-          );
-        }
-
-        const variance = step.maxDelay - step.minDelay;
-        if (variance < SEQUENCE_CONSTRAINTS.MIN_VARIANCE) {
-          errors.push(
-            `Binding ${index} "${binding.name}" step ${i}: ` +
-            `variance ${variance}ms < ${SEQUENCE_CONSTRAINTS.MIN_VARIANCE}ms minimum`
-          );
-        }
-      }
-
-      // Count unique keys
-      const uniqueKeys = new Set(binding.sequence.map(s => s.key));
-      if (uniqueKeys.size > SEQUENCE_CONSTRAINTS.MAX_UNIQUE_KEYS) {
-        errors.push(
-          `Binding ${index} "${binding.name}": ` +
-          `${uniqueKeys.size} unique keys > ${SEQUENCE_CONSTRAINTS.MAX_UNIQUE_KEYS} maximum`
-        );
-      }
-
-      // Count repeats per key
-      const keyCounts = new Map<string, number>();
-      for (const step of binding.sequence) {
-        keyCounts.set(step.key, (keyCounts.get(step.key) || 0) + 1);
-      }
-
-      for (const [key, count] of keyCounts) {
-        if (count > SEQUENCE_CONSTRAINTS.MAX_REPEATS_PER_KEY) {
-          errors.push(
-            `Binding ${index} "${binding.name}": ` +
-            `Key "${key}" repeats ${count}x > ${SEQUENCE_CONSTRAINTS.MAX_REPEATS_PER_KEY} maximum`
-          );
-        }
-      }
-    }
-
+  validateProfile(data: unknown): ValidationResult {
+    const { profile, diagnostics } = validateAgentProfile(data);
     return {
-      valid: errors.length === 0,
-      errors,
-      warnings,
+      valid: !hasErrors(diagnostics),
+      profile,
+      diagnostics,
     };
   }
 
   /**
-   * Validate a complete profile
+   * Load a profile from JSON file
    */
-  validateProfile(profile: MacroProfile): ValidationResult {
-    const errors: string[] = [];
-    const warnings: string[] = [];
-
-    if (!profile.name) {
-      errors.push('Profile missing name');
-    }
-
-    if (!profile.gestureSettings) {
-      warnings.push('Profile missing gestureSettings, using defaults');
-    }
+  loadProfile(filename: string): MacroProfile | null {
+    return this.readProfile(filename).profile;
+  }
 
-    if (!profile.macros || !Array.isArray(profile.macros)) {
-      errors.push('Profile missing macros array');
-    } else {
-      // Validate each binding
-      for (let i = 0; i < profile.macros.length; i++) {
-        const result = this.validateBinding(profile.macros[i], i);
-        errors.push(...result.errors);
-        warnings.push(...result.warnings);
-      }
+  /**
+   * Load a profile and report why it was rejected.
+   * Diagnostics, warnings included, are logged as well as returned.
+   */
+  readProfile(filename: string): { profile: MacroProfile | null; diagnostics: Diagnostic[] } {
+    const filepath = path.join(this.profileDir, filename);
+    let result: ValidationResult;
 
-      // Check for duplicate triggers
-      const triggers = new Set<string>();
-      for (const binding of profile.macros) {
-        const key = `${binding.trigger.key}:${binding.trigger.gesture}`;
-        if (triggers.has(key)) {
-          warnings.push(`Duplicate trigger: ${binding.trigger.key} + ${binding.trigger.gesture}`);
-        }
-        triggers.add(key);
+    try {
+      const content = fs.readFileSync(filepath, 'utf-8');
+      result = this.validateProfile(JSON.parse(content));
+    } catch (error) {
+      let diagnostic: Diagnostic;
+      if (error instanceof SyntaxError) {
+        diagnostic = fileDiagnostic('invalid_json', `Invalid JSON: ${error.message}`, 'Fix the syntax, or export the profile again');
+      } else if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        diagnostic = fileDiagnostic('file_error', `Profile file not found: "${filepath}"`, 'Check the name with --profile, or list profiles/');
+      } else {
+        diagnostic = fileDiagnostic('file_error', `Error loading "${filepath}": ${error}`);
       }
+      logDiagnostics(`"${filename}"`, [diagnostic]);
+      return { profile: null, diagnostics: [diagnostic] };
     }
 
-    return {
-      valid: errors.length === 0,
-      errors,
-      warnings,
-    };
+    logDiagnostics(`"${filename}"`, result.diagnostics);
+    if (result.profile) {
+      console.log(`✅ Loaded profile: "${result.profile.name}" (${result.profile.macros.length} macros)`);
+    }
+    return { profile: result.profile, diagnostics: result.diagnostics };
   }
 
   /**
-   * Load a profile from JSON file
+   * Watch a profile file and re-validate it whenever it changes on disk.
+   * onReload only receives profiles that pass validation; an invalid edit is
+   * logged and the caller keeps the profile it already has.
    */
-  loadProfile(filename: string): MacroProfile | null {
-    const filepath = path.join(this.profileDir, filename);
+  watchProfile(filename: string, onReload: (profile: MacroProfile) => void): void {
+    this.stopWatching();
 
-    try {
-      const content = fs.readFileSync(filepath, 'utf-8');
-      const profile = JSON.parse(content) as MacroProfile;
+    // Saving identical content (or our own saveProfile) is not a change
+    let lastContent = this.readContent(filename);
 
-      // Apply default settings if missing
-      if (!profile.gestureSettings) {
-        profile.gestureSettings = DEFAULT_GESTURE_SETTINGS;
-      }
+    // Watch the directory rather than the file so atomic rename-over writes are seen
+    this.watcher = fs.watch(this.profileDir, (_eventType, changed) => {
+      if (changed?.toString() !== filename) return;
 
-      // Validate
-      const result = this.validateProfile(profile);
-
-      if (result.warnings.length > 0) {
-        console.log(`⚠️  Warnings for "${filename}":`);
-        result.warnings.forEach(w => console.log(`   - ${w}`));
+      if (this.reloadTimer) {
+        clearTimeout(this.reloadTimer);
       }
+      this.reloadTimer = setTimeout(() => {
+        this.reloadTimer = null;
+        const content = this.readContent(filename);
+        if (content === lastContent) return;
+        lastContent = content;
+
+        console.log(`\n🔄 Profile changed on disk: "${filename}"`);
+        const profile = this.loadProfile(filename);
+        if (profile) {
+          onReload(profile);
+        } else {
+          console.error(`   Keeping the previously loaded profile active`);
+        }
+      }, RELOAD_DEBOUNCE_MS);
+    });
 
-      if (!result.valid) {
-        console.error(`❌ Errors in "${filename}":`);
-        result.errors.forEach(e => console.error(`   - ${e}`));
-        return null;
-      }
+    this.watcher.on('error', (error) => {
+      console.error(`❌ Stopped watching "${this.profileDir}":`, error);
+      this.stopWatching();
+    });
 
-      console.log(`✅ Loaded profile: "${profile.name}" (${profile.macros.length} macros)`);
-      return profile;
+    console.log(`👀 Watching "${path.join(this.profileDir, filename)}" for changes`);
+  }
 
-    } catch (error) {
-      if (error instanceof SyntaxError) {
-        console.error(`❌ Invalid JSON in "${filename}": ${error.message}`);
-      } else if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
-        console.error(`❌ Profile file not found: "${filepath}"`);
-      } else {
-        console.error(`❌ Error loading "${filename}":`, error);
-      }
+  /**
+   * Raw file content, or null if the file cannot be read
+   */
+  private readContent(filename: string): string | null {
+    try {
+      return fs.readFileSync(path.join(this.profileDir, filename), 'utf-8');
+    } catch {
       return null;
     }
   }
 
+  /**
+   * Stop watching for profile changes
+   */
+  stopWatching(): void {
+    if (this.reloadTimer) {
+      clearTimeout(this.reloadTimer);
+      this.reloadTimer = null;
+    }
+    this.watcher?.close();
+    this.watcher = null;
+  }
+
   /**
    * List all available profiles
    */
@@ -232,8 +210,7 @@ export class ProfileLoader {
       // Validate first
       const result = this.validateProfile(profile);
       if (!result.valid) {
-        console.error(`❌ Cannot save invalid profile:`);
-        result.errors.forEach(e => console.error(`   - ${e}`));
+        logDiagnostics('the profile to save', result.diagnostics);
         return false;
       }
 
@@ -0,0 +1,112 @@
+// ============================================================================
+// REPLAY INPUT SOURCE - Play back a recorded JSONL input trace
+// ============================================================================
+//
+// Reads the trace format from @swtor/agent-profile, as written by --record or
+// the browser GestureSimulator. Only input entries are replayed; recorded
+// gestures are what the original run detected, for comparison.
+//
+// Only the gaps between timestamps matter. Events are replayed in real time
+// because the gesture detector measures holds with the clock.
+//
+// ============================================================================
+
+import { performance } from 'perf_hooks';
+import { TraceHeader } from '@swtor/agent-profile';
+import { InputCallback, InputEvent, InputSource } from './inputSource.js';
+import { loadInputTrace, traceInputEvents } from './inputTrace.js';
+
+export interface ReplayOptions {
+  onEnd?: () => void;  // Called after the last event is delivered
+}
+
+export class ReplayInputSource implements InputSource {
+  readonly name = 'replay';
+  readonly header: TraceHeader | null;
+  private events: InputEvent[];
+  private options: ReplayOptions;
+  private callback: InputCallback | null = null;
+  private timer: NodeJS.Timeout | null = null;
+  private nextIndex: number = 0;
+  private startedAt: number = 0;
+
+  constructor(events: InputEvent[], options: ReplayOptions = {}, header: TraceHeader | null = null) {
+    this.events = events;
+    this.options = options;
+    this.header = header;
+  }
+
+  /**
+   * Read and validate a trace file. Errors are logged and null is returned.
+   */
+  static load(filepath: string, options: ReplayOptions = {}): ReplayInputSource | null {
+    const trace = loadInputTrace(filepath);
+    if (!trace) {
+      return null;
+    }
+    return new ReplayInputSource(traceInputEvents(trace), options, trace.header);
+  }
+
+  /**
+   * Start replaying from the first event
+   */
+  start(callback: InputCallback): void {
+    if (this.callback) return;
+    this.callback = callback;
+    this.nextIndex = 0;
+    this.startedAt = performance.now();
+
+    const duration = this.events.length > 0
+      ? this.events[this.events.length - 1].timestamp - this.events[0].timestamp
+      : 0;
+    console.log(`\n▶️  Replaying ${this.events.length} events (${Math.round(duration)}ms)\n`);
+
+    this.scheduleNext();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    this.callback = null;
+  }
+
+  isActive(): boolean {
+    return this.callback !== null;
+  }
+
+  /**
+   * Each delay is measured from the replay start rather than the previous
+   * event, so timer lateness does not accumulate over a long trace.
+   */
+  private scheduleNext(): void {
+    if (this.nextIndex >= this.events.length) {
+      this.stop();
+      console.log('⏹️  Replay finished');
+      this.options.onEnd?.();
+      return;
+    }
+
+    const origin = this.events[0].timestamp;
+    const due = this.startedAt + (this.events[this.nextIndex].timestamp - origin);
+
+    this.timer = setTimeout(() => {
+      const elapsed = performance.now() - this.startedAt;
+
+      // Deliver everything that is due, including events sharing a timestamp
+      while (
+        this.callback &&
+        this.nextIndex < this.events.length &&
+        this.events[this.nextIndex].timestamp - origin <= elapsed
+      ) {
+        this.callback({ ...this.events[this.nextIndex], timestamp: Date.now() });
+        this.nextIndex++;
+      }
+
+      if (this.callback) {
+        this.scheduleNext();
+      }
+    }, Math.max(0, due - performance.now()));
+  }
+}
@@ -0,0 +1,126 @@
+// ============================================================================
+// SAFETY INTERLOCK - Panic and resume hotkeys on raw input
+// ============================================================================
+//
+// Sees every input event before the gesture detector, including while
+// detection is paused, so the resume hotkey still works. While the agent is
+// running the panic hotkey is armed; while it is paused the resume hotkey is
+// (or the panic hotkey again, when the profile has no resume hotkey).
+//
+// A hotkey fires once per press: after firing, nothing fires again until one
+// of its keys is released, so holding a toggle hotkey does not flip back and forth.
+//
+// ============================================================================
+
+import { Clock, TimerHandle, systemClock } from '@swtor/agent-profile';
+import { Hotkey, SafetySettings } from './types.js';
+import { InputEvent } from './inputSource.js';
+
+export type InterlockAction = 'panic' | 'resume';
+
+export type InterlockCallback = (action: InterlockAction) => void;
+
+export class SafetyInterlock {
+  private safety: SafetySettings;
+  private isPaused: () => boolean;
+  private callback: InterlockCallback;
+  private clock: Clock;
+  private held: Set<string> = new Set();
+  private holdTimer: TimerHandle | null = null;
+  private holding: string[] = [];    // Keys of the hotkey the hold timer is for
+  private latched: string[] = [];    // Keys of the hotkey that just fired
+
+  constructor(safety: SafetySettings, isPaused: () => boolean, callback: InterlockCallback, clock: Clock = systemClock) {
+    this.safety = safety;
+    this.isPaused = isPaused;
+    this.callback = callback;
+    this.clock = clock;
+  }
+
+  /**
+   * True when the profile has a panic or resume hotkey
+   */
+  get enabled(): boolean {
+    return this.safety.panic !== undefined || this.safety.resume !== undefined;
+  }
+
+  /**
+   * Track a raw key or mouse event
+   */
+  handleInput(event: InputEvent): void {
+    if (!this.enabled) return;
+
+    const name = ('key' in event ? event.key : event.button).toUpperCase();
+
+    if (event.type === 'down') {
+      if (this.held.has(name)) return;  // Auto-repeat
+      this.held.add(name);
+      this.check();
+    } else {
+      this.held.delete(name);
+      if (this.latched.includes(name)) {
+        this.latched = [];
+      }
+      if (this.holding.includes(name)) {
+        this.clearHoldTimer();
+      }
+    }
+  }
+
+  /**
+   * Forget held keys and any hold in progress
+   */
+  reset(): void {
+    this.held.clear();
+    this.latched = [];
+    this.clearHoldTimer();
+  }
+
+  /**
+   * The hotkey that applies in the current state, with what it does
+   */
+  private armed(): { hotkey: Hotkey; action: InterlockAction } | null {
+    const { panic, resume } = this.safety;
+    if (!this.isPaused()) {
+      return panic ? { hotkey: panic, action: 'panic' } : null;
+    }
+    const hotkey = resume ?? panic;
+    return hotkey ? { hotkey, action: 'resume' } : null;
+  }
+
+  private check(): void {
+    if (this.latched.length > 0 || this.holdTimer !== null) return;
+
+    const armed = this.armed();
+    if (!armed) return;
+
+    const keys = armed.hotkey.keys.map(key => key.toUpperCase());
+    if (!keys.every(key => this.held.has(key))) return;
+
+    if (armed.hotkey.holdMs === 0) {
+      this.fire(keys, armed.action);
+      return;
+    }
+
+    // Releasing one of the keys clears the timer, so it only fires if the chord was held throughout
+    this.holding = keys;
+    this.holdTimer = this.clock.setTimeout(() => {
+      this.holdTimer = null;
+      this.holding = [];
+      this.fire(keys, armed.action);
+    }, armed.hotkey.holdMs);
+  }
+
+  private fire(keys: string[], action: InterlockAction): void {
+    this.latched = keys;
+    this.callback(action);
+  }
+
+  private clearHoldTimer(): void {
+    if (this.holdTimer !== null) {
+      this.clock.clearTimeout(this.holdTimer);
+      this.holdTimer = null;
+    }
+    this.holding = [];
+  }
+}
@@ -3,14 +3,39 @@
 // ============================================================================
 
 import robot from 'robotjs';
-import { SequenceStep, MacroBinding, SEQUENCE_CONSTRAINTS } from './types.js';
+import { performance } from 'perf_hooks';
+import {
+  validateSequence,
+  formatDiagnostic,
+  describeStep,
+  mouseButtonOutput,
+  scrollOutput,
+  MouseButtonOutput,
+  Scheduler,
+  sharedScheduler,
+} from '@swtor/agent-profile';
+import { SequenceStep, MacroBinding } from './types.js';
+import { ExecutionGate, ExecutionRun } from './executionGate.js';
+import { TimingSample } from './timingTelemetry.js';
+import { printDryRun } from './dryRun.js';
+
+// robotjs has no X1/X2 buttons; those need the Interception backend
+const ROBOT_MOUSE_BUTTONS: Partial<Record<MouseButtonOutput, string>> = {
+  mouse_left: 'left',
+  mouse_right: 'right',
+  mouse_middle: 'middle',
+};
+
+// robotjs hands the scroll amount to Windows as-is, where one wheel notch is 120
+const WHEEL_DELTA = 120;
 
 export interface ExecutionEvent {
-  type: 'started' | 'step' | 'completed' | 'error' | 'cancelled';
+  type: 'started' | 'step' | 'timing' | 'completed' | 'error' | 'cancelled';
   bindingName: string;
   step?: SequenceStep;
   stepIndex?: number;
   delay?: number;
+  interval?: TimingSample;   // 'timing': the gap before the keypress of stepIndex
   error?: string;
   timestamp: number;
 }
@@ -18,73 +43,39 @@ export interface ExecutionEvent {
 export type ExecutionCallback = (event: ExecutionEvent) => void;
 
 export class SequenceExecutor {
-  private isExecuting: Map<string, boolean> = new Map();
+  private gate: ExecutionGate;
   private callback: ExecutionCallback;
+  private scheduler: Scheduler;
 
-  constructor(callback?: ExecutionCallback) {
+  constructor(callback?: ExecutionCallback, scheduler: Scheduler = sharedScheduler) {
     this.callback = callback || (() => {});
+    this.scheduler = scheduler;
+    this.gate = new ExecutionGate(run => {
+      this.callback({
+        type: 'cancelled',
+        bindingName: run.binding.name,
+        timestamp: Date.now(),
+      });
+    });
     
     // Configure robotjs for minimal internal delay
     robot.setKeyboardDelay(1);
   }
 
   /**
-   * Validate a sequence step meets timing constraints
-   */
-  private validateStep(step: SequenceStep, stepIndex: number): string | null {
-    // Check minimum delay
-    if (step.minDelay < SEQUENCE_CONSTRAINTS.MIN_DELAY) {
-      return `Step ${stepIndex} ("${step.key}"): minDelay must be >= ${SEQUENCE_CONSTRAINTS.MIN_DELAY}ms (got ${step.minDelay}ms)`;
-    }
-
-    // Check variance requirement
-    const variance = step.maxDelay - step.minDelay;
-    if (variance < SEQUENCE_CONSTRAINTS.MIN_VARIANCE) {
-      return `Step ${stepIndex} ("${step.key}"): variance (max - min) must be >= ${SEQUENCE_CONSTRAINTS.MIN_VARIANCE}ms (got ${variance}ms)`;
-    }
-
-    return null;
-  }
-
-  /**
-   * Validate entire sequence meets constraints
+   * Check the shared sequence limits; returns the first problem found
    */
   private validateSequence(sequence: SequenceStep[]): string | null {
-    // Validate each step
-    for (let i = 0; i < sequence.length; i++) {
-      const step = sequence[i];
-      const error = this.validateStep(step, i);
-      if (error) return error;
-      
-      // Check echoHits constraint
-      const echoHits = step.echoHits || 1;
-      if (echoHits < 1 || echoHits > SEQUENCE_CONSTRAINTS.MAX_ECHO_HITS) {
-        return `Step ${i} ("${step.key}"): echoHits must be 1-${SEQUENCE_CONSTRAINTS.MAX_ECHO_HITS} (got ${echoHits})`;
-      }
-    }
-
-    // Count STEPS per key (not total presses - echoHits don't count toward step limit)
-    // Normalize to lowercase for consistent counting
-    const keyStepCount: Map<string, number> = new Map();
-    for (const step of sequence) {
-      const normalizedKey = step.key.toLowerCase();
-      const count = keyStepCount.get(normalizedKey) || 0;
-      keyStepCount.set(normalizedKey, count + 1);
-    }
-
-    // Check max unique keys
-    if (keyStepCount.size > SEQUENCE_CONSTRAINTS.MAX_UNIQUE_KEYS) {
-      return `Sequence has ${keyStepCount.size} unique keys, maximum is ${SEQUENCE_CONSTRAINTS.MAX_UNIQUE_KEYS}`;
+    const [first] = validateSequence(sequence, ['sequence']).diagnostics;
+    if (first) {
+      return formatDiagnostic(first);
     }
 
-    // Check max steps per key (echoHits are separate - they're just repetitions within a step)
-    for (const [key, count] of keyStepCount) {
-      if (count > SEQUENCE_CONSTRAINTS.MAX_STEPS_PER_KEY) {
-        return `Key "${key}" used in ${count} steps, maximum is ${SEQUENCE_CONSTRAINTS.MAX_STEPS_PER_KEY} steps per key`;
-      }
-    }
-
-    return null;
+    const index = sequence.findIndex(step => {
+      const button = mouseButtonOutput(step.key);
+      return button !== null && !ROBOT_MOUSE_BUTTONS[button];
+    });
+    return index === -1 ? null : `sequence[${index}].key: robotjs cannot press "${sequence[index].key}"; use the Interception backend`;
   }
 
   /**
@@ -95,16 +86,23 @@ export class SequenceExecutor {
   }
 
   /**
-   * Sleep for specified milliseconds
+   * Sleep for specified milliseconds on the shared timing loop
    */
   private sleep(ms: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms));
+    return this.scheduler.wait(ms);
+  }
+
+  /**
+   * Sleep for a hold, waking early if the run is cancelled
+   */
+  private holdFor(ms: number, run: ExecutionRun): Promise<void> {
+    return this.scheduler.wait(ms, () => !run.cancelled);
   }
 
   /**
-   * Send a single keypress
+   * robotjs name for a key or modifier
    */
-  private pressKey(key: string): void {
+  private robotKey(key: string): string {
     // Handle special keys
     const keyMap: Record<string, string> = {
       'f1': 'f1', 'f2': 'f2', 'f3': 'f3', 'f4': 'f4',
@@ -113,54 +111,103 @@ export class SequenceExecutor {
       'space': 'space', 'enter': 'enter', 'tab': 'tab',
       'escape': 'escape', 'backspace': 'backspace',
       'up': 'up', 'down': 'down', 'left': 'left', 'right': 'right',
+      'ctrl': 'control', 'shift': 'shift', 'alt': 'alt',
     };
 
-    const mappedKey = keyMap[key.toLowerCase()] || key.toLowerCase();
-    robot.keyTap(mappedKey);
+    return keyMap[key.toLowerCase()] || key.toLowerCase();
+  }
+
+  /**
+   * Press or release a step key: a keyboard key or a mouse button
+   */
+  private toggle(key: string, state: 'down' | 'up'): void {
+    const button = mouseButtonOutput(key);
+    if (button) {
+      robot.mouseToggle(state, ROBOT_MOUSE_BUTTONS[button]);
+    } else {
+      robot.keyToggle(this.robotKey(key), state);
+    }
+  }
+
+  /**
+   * Perform one hit of a step. Every key and button that is down, modifiers
+   * included, is tracked in `held` until it is released, so a send that
+   * throws or a cancel still lets it go.
+   */
+  private async performStep(step: SequenceStep, run: ExecutionRun, held: Set<string>): Promise<void> {
+    const modifiers = step.modifiers ?? [];
+    const button = mouseButtonOutput(step.key);
+    const scroll = scrollOutput(step.key);
+    const press = (key: string) => {
+      this.toggle(key, 'down');
+      held.add(key);
+    };
+    const release = (key: string) => {
+      this.toggle(key, 'up');
+      held.delete(key);
+    };
+    const toggleModifiers = (state: 'down' | 'up') => state === 'down'
+      ? modifiers.forEach(press)
+      : [...modifiers].reverse().forEach(release);
+
+    switch (step.action ?? 'tap') {
+      case 'tap':
+        if (!button && !scroll) {
+          robot.keyTap(this.robotKey(step.key), modifiers.map(m => this.robotKey(m)));
+          break;
+        }
+        toggleModifiers('down');
+        if (scroll) {
+          robot.scrollMouse(0, scroll === 'scroll_up' ? WHEEL_DELTA : -WHEEL_DELTA);
+        } else {
+          robot.mouseClick(ROBOT_MOUSE_BUTTONS[button!]);
+        }
+        toggleModifiers('up');
+        break;
+      case 'down':
+        press(step.key);
+        break;
+      case 'up':
+        release(step.key);
+        break;
+      case 'hold':
+        toggleModifiers('down');
+        press(step.key);
+        await this.holdFor(step.holdMs ?? 0, run);
+        release(step.key);
+        toggleModifiers('up');
+        break;
+    }
   }
 
   /**
    * Check if a binding is currently executing
    */
   isBindingExecuting(bindingName: string): boolean {
-    return this.isExecuting.get(bindingName) || false;
+    return this.gate.isRunning(bindingName);
   }
 
   /**
-   * Cancel execution for a specific binding
+   * Cancel execution for a specific binding, including queued triggers
    */
   cancel(bindingName: string): void {
-    if (this.isExecuting.get(bindingName)) {
-      this.isExecuting.set(bindingName, false);
-      this.callback({
-        type: 'cancelled',
-        bindingName,
-        timestamp: Date.now(),
-      });
-    }
+    this.gate.cancel(bindingName);
   }
 
   /**
    * Cancel all executions
    */
   cancelAll(): void {
-    for (const [name] of this.isExecuting) {
-      this.cancel(name);
-    }
+    this.gate.cancelAll();
   }
 
   /**
-   * Execute a macro binding's sequence
+   * Execute a macro binding's sequence under its concurrency policy.
+   * Resolves false if the trigger was dropped, cancelled or failed.
    */
   async execute(binding: MacroBinding): Promise<boolean> {
     const { name, sequence } = binding;
 
-    // Check if already executing
-    if (this.isExecuting.get(name)) {
-      console.log(`⚠️  "${name}" already executing, skipping...`);
-      return false;
-    }
-
     // Validate sequence
     const validationError = this.validateSequence(sequence);
     if (validationError) {
@@ -174,8 +221,11 @@ export class SequenceExecutor {
       return false;
     }
 
-    // Mark as executing
-    this.isExecuting.set(name, true);
+    // Wait for a slot; null means the policy dropped this trigger
+    const run = await this.gate.admit(binding);
+    if (!run) {
+      return false;
+    }
 
     this.callback({
       type: 'started',
@@ -185,10 +235,12 @@ export class SequenceExecutor {
 
     console.log(`\n🎮 Executing: "${name}" (${sequence.length} steps)`);
 
+    const held = new Set<string>();
+    let lastHit: { at: number; delay: number } | null = null;  // End of the previous keypress
     try {
       for (let i = 0; i < sequence.length; i++) {
         // Check if cancelled
-        if (!this.isExecuting.get(name)) {
+        if (run.cancelled) {
           console.log(`⏹️  "${name}" cancelled`);
           return false;
         }
@@ -199,13 +251,23 @@ export class SequenceExecutor {
         // Execute each echo hit for this step
         for (let hit = 0; hit < echoHits; hit++) {
           // Check if cancelled between hits
-          if (!this.isExecuting.get(name)) {
+          if (run.cancelled) {
             console.log(`⏹️  "${name}" cancelled`);
             return false;
           }
 
-          // Press the key
-          this.pressKey(step.key);
+          if (lastHit) {
+            this.callback({
+              type: 'timing',
+              bindingName: name,
+              stepIndex: i,
+              interval: { scheduled: lastHit.delay, actual: performance.now() - lastHit.at },
+              timestamp: Date.now(),
+            });
+          }
+
+          await this.performStep(step, run, held);
+          const hitEnd = performance.now();
 
           this.callback({
             type: 'step',
@@ -215,7 +277,7 @@ export class SequenceExecutor {
             timestamp: Date.now(),
           });
 
-          console.log(`  ✓ [${i + 1}/${sequence.length}] Pressed "${step.key}" (hit ${hit + 1}/${echoHits})`);
+          console.log(`  ✓ [${i + 1}/${sequence.length}] ${describeStep(step)} (hit ${hit + 1}/${echoHits})`);
 
           // Delay between hits and steps (except after last hit of last step)
           const isLastHit = hit === echoHits - 1;
@@ -234,6 +296,7 @@ export class SequenceExecutor {
             });
 
             console.log(`     ⏱️  Waiting ${delay}ms...`);
+            lastHit = { at: hitEnd, delay };
             await this.sleep(delay);
           }
         }
@@ -262,57 +325,17 @@ export class SequenceExecutor {
       return false;
 
     } finally {
-      this.isExecuting.set(name, false);
+      // Never leave a key pressed after a cancel or error
+      held.forEach(key => this.toggle(key, 'up'));
+      this.gate.finish(run);
     }
   }
 
   /**
-   * Test execution without actually sending keys (dry run)
+   * Test execution without actually sending keys (dry run). Call steps are
+   * expanded from `bindings` and the expansion is listed.
    */
-  async dryRun(binding: MacroBinding): Promise<void> {
-    const { name, sequence } = binding;
-
-    // Validate
-    const validationError = this.validateSequence(sequence);
-    if (validationError) {
-      console.error(`❌ Validation failed: ${validationError}`);
-      return;
-    }
-
-    console.log(`\n🧪 DRY RUN: "${name}" (${sequence.length} steps)`);
-
-    // Count keys including echoHits
-    const keyCount: Map<string, number> = new Map();
-    let totalPresses = 0;
-    for (const step of sequence) {
-      const echoHits = step.echoHits || 1;
-      keyCount.set(step.key, (keyCount.get(step.key) || 0) + echoHits);
-      totalPresses += echoHits;
-    }
-
-    console.log(`   Unique keys: ${keyCount.size}/${SEQUENCE_CONSTRAINTS.MAX_UNIQUE_KEYS}`);
-    console.log(`   Total key presses: ${totalPresses}`);
-    for (const [key, count] of keyCount) {
-      console.log(`   - "${key}": ${count}x`);
-    }
-
-    let totalMinTime = 0;
-    let totalMaxTime = 0;
-
-    for (let i = 0; i < sequence.length; i++) {
-      const step = sequence[i];
-      const echoHits = step.echoHits || 1;
-      console.log(`   [${i + 1}] "${step.key}" x${echoHits} → wait ${step.minDelay}-${step.maxDelay}ms`);
-      
-      // Each keypress (except last) has a delay
-      const pressesInStep = echoHits;
-      const isLastStep = i === sequence.length - 1;
-      const delayCount = isLastStep ? pressesInStep - 1 : pressesInStep;
-      
-      totalMinTime += step.minDelay * delayCount;
-      totalMaxTime += step.maxDelay * delayCount;
-    }
-
-    console.log(`   ⏱️  Total time: ${totalMinTime}-${totalMaxTime}ms\n`);
+  async dryRun(binding: MacroBinding, bindings: MacroBinding[] = []): Promise<void> {
+    printDryRun(binding, bindings, sequence => this.validateSequence(sequence));
   }
 }
@@ -0,0 +1,142 @@
+// ============================================================================
+// TIMING TELEMETRY - Scheduled vs actual inter-key intervals
+// ============================================================================
+//
+// Executors report, for every gap between two keypresses, the delay they
+// picked and the time that really passed (measured with performance.now()).
+// The agent keeps one histogram per backend; --benchmark prints them.
+//
+//   overshoot - actual minus scheduled; timers fire late, so mostly positive
+//   jitter    - distance of each overshoot from the median overshoot, the
+//               part of the error a fixed correction could not remove
+//
+// ============================================================================
+
+export interface TimingSample {
+  scheduled: number;   // Delay the executor picked (ms)
+  actual: number;      // Time from the end of one keypress to the start of the next (ms)
+}
+
+export type TimingSampleCallback = (stepIndex: number, sample: TimingSample) => void;
+
+export interface PercentileSummary {
+  p50: number;
+  p90: number;
+  p99: number;
+  max: number;
+}
+
+export interface TimingSummary {
+  samples: number;
+  overshoot: PercentileSummary;
+  jitter: PercentileSummary;
+}
+
+// Histogram resolution (0.1ms buckets); smaller differences are below timer noise
+const BUCKETS_PER_MS = 10;
+
+const PERCENTILES = [50, 90, 99] as const;
+
+/**
+ * Overshoot histogram with 0.1ms wide buckets, stored sparsely so no
+ * range has to be picked up front
+ */
+export class TimingHistogram {
+  private buckets: Map<number, number> = new Map();  // Bucket index -> count
+  private count: number = 0;
+
+  /**
+   * Add one interval
+   */
+  record(sample: TimingSample): void {
+    const bucket = Math.round((sample.actual - sample.scheduled) * BUCKETS_PER_MS);
+    this.buckets.set(bucket, (this.buckets.get(bucket) ?? 0) + 1);
+    this.count++;
+  }
+
+  /**
+   * Percentiles of overshoot and jitter, in ms at bucket resolution
+   */
+  summary(): TimingSummary {
+    const overshoot = [...this.buckets].sort(([a], [b]) => a - b);
+    const median = percentileOf(overshoot, 50, this.count);
+
+    // Jitter buckets: distance from the median bucket, merged
+    const distances = new Map<number, number>();
+    for (const [bucket, count] of overshoot) {
+      const distance = Math.abs(bucket - median);
+      distances.set(distance, (distances.get(distance) ?? 0) + count);
+    }
+    const jitter = [...distances].sort(([a], [b]) => a - b);
+
+    return {
+      samples: this.count,
+      overshoot: summarize(overshoot, this.count),
+      jitter: summarize(jitter, this.count),
+    };
+  }
+}
+
+// Bucket index at percentile p of sorted [bucket, count] pairs
+function percentileOf(sorted: [number, number][], p: number, total: number): number {
+  const rank = Math.ceil((p / 100) * total);
+  let seen = 0;
+  for (const [bucket, count] of sorted) {
+    seen += count;
+    if (seen >= rank) return bucket;
+  }
+  return sorted.length > 0 ? sorted[sorted.length - 1][0] : 0;
+}
+
+function summarize(sorted: [number, number][], total: number): PercentileSummary {
+  const [p50, p90, p99] = PERCENTILES.map(p => percentileOf(sorted, p, total) / BUCKETS_PER_MS);
+  const max = sorted.length > 0 ? sorted[sorted.length - 1][0] / BUCKETS_PER_MS : 0;
+  return { p50, p90, p99, max };
+}
+
+/**
+ * One histogram per executor backend
+ */
+export class TimingTelemetry {
+  private histograms: Map<string, TimingHistogram> = new Map();
+
+  /**
+   * Add an interval measured by a backend
+   */
+  record(backend: string, sample: TimingSample): void {
+    let histogram = this.histograms.get(backend);
+    if (!histogram) {
+      histogram = new TimingHistogram();
+      this.histograms.set(backend, histogram);
+    }
+    histogram.record(sample);
+  }
+
+  /**
+   * Summaries of every backend that has samples
+   */
+  summaries(): Record<string, TimingSummary> {
+    const result: Record<string, TimingSummary> = {};
+    for (const [backend, histogram] of this.histograms) {
+      result[backend] = histogram.summary();
+    }
+    return result;
+  }
+
+  /**
+   * Print each backend's percentiles
+   */
+  print(): void {
+    for (const [backend, summary] of Object.entries(this.summaries())) {
+      console.log(`⏱️  ${backend}: ${summary.samples} intervals`);
+      console.log(`   overshoot  ${formatPercentiles(summary.overshoot, true)}`);
+      console.log(`   jitter     ${formatPercentiles(summary.jitter, false)}`);
+    }
+  }
+}
+
+// "p50 +1.2ms  p90 +2.0ms  p99 +4.1ms  max +6.3ms"
+function formatPercentiles(summary: PercentileSummary, signed: boolean): string {
+  const ms = (value: number) => `${signed && value >= 0 ? '+' : ''}${value.toFixed(1)}ms`;
+  return `p50 ${ms(summary.p50)}  p90 ${ms(summary.p90)}  p99 ${ms(summary.p99)}  max ${ms(summary.max)}`;
+}
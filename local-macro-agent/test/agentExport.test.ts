@@ -0,0 +1,84 @@
+// The web app's agent export (shared/agentExport.ts) read back by the
+// agent's ProfileLoader, the way a downloaded file reaches profiles/
+
+import { describe, it, beforeEach, afterEach, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { DEFAULT_GESTURES, DEFAULT_GESTURE_SETTINGS, DEFAULT_SAFETY } from '@swtor/agent-profile';
+import { exportAgentProfile, agentProfileFilename } from '../../shared/agentExport.js';
+import type { MacroProfile } from '../../shared/schema.js';
+import { ProfileLoader } from '../src/profileLoader.js';
+
+// A builder profile with one macro whose step waits minDelay-maxDelay
+function builderProfile(name: string, minDelay: number = 30, maxDelay: number = 40): MacroProfile {
+  return {
+    name,
+    description: 'Exported from the sequence builder',
+    gestureSettings: { ...DEFAULT_GESTURE_SETTINGS, defaultMinDelay: 30, defaultMaxDelay: 40, defaultEchoHits: 1 },
+    gestures: DEFAULT_GESTURES,
+    safety: DEFAULT_SAFETY,
+    macros: [{
+      id: 'macro-1',
+      name: 'Opener',
+      trigger: { key: 'W', gesture: 'double' },
+      sequence: [
+        { id: 'step-1', key: 'a', minDelay, maxDelay, echoHits: 2 },
+        { id: 'step-2', key: 'b', modifiers: ['shift'], minDelay: 30, maxDelay: 40, echoHits: 1 },
+      ],
+      enabled: true,
+    }],
+  };
+}
+
+describe('agent export read by ProfileLoader', () => {
+  let profileDir: string;
+  let loader: ProfileLoader;
+
+  beforeEach(() => {
+    mock.method(console, 'log', () => {});
+    profileDir = fs.mkdtempSync(path.join(os.tmpdir(), 'agent-export-'));
+    loader = new ProfileLoader(profileDir);
+  });
+
+  afterEach(() => {
+    fs.rmSync(profileDir, { recursive: true, force: true });
+  });
+
+  // Save the export under the download's file name and load it from profiles/
+  function download(profile: MacroProfile) {
+    const result = exportAgentProfile(profile);
+    const filename = agentProfileFilename(profile.name);
+    fs.writeFileSync(path.join(profileDir, filename), JSON.stringify(result.profile, null, 2));
+    return { result, filename, loaded: loader.readProfile(filename) };
+  }
+
+  it('loads a valid export as it was validated in the web app', () => {
+    const { result, filename, loaded } = download(builderProfile('Marauder Burst'));
+
+    assert.equal(result.valid, true);
+    assert.equal(filename, 'marauder-burst-macros.json');
+    assert.deepEqual(loaded.diagnostics, result.diagnostics);
+    assert.equal(loaded.profile?.name, 'Marauder Burst');
+    assert.deepEqual(loaded.profile?.macros.map(macro => macro.sequence.map(step => step.key)), [['a', 'b']]);
+  });
+
+  it('rejects an invalid export with the diagnostics the web app showed', () => {
+    const { result, loaded } = download(builderProfile('Too Fast', 5, 6));
+
+    assert.equal(result.valid, false);
+    assert.equal(loaded.profile, null);
+    assert.deepEqual(loaded.diagnostics, result.diagnostics);
+    assert.ok(loaded.diagnostics.some(diagnostic => diagnostic.path.join('.') === 'macros.0.sequence.0.minDelay'));
+  });
+
+  it('names the file with characters a header and the control API accept', () => {
+    assert.equal(agentProfileFilename('Sith "Rage" Ω / PvP'), 'sith-rage-pvp-macros.json');
+    assert.equal(agentProfileFilename('..hidden'), 'hidden-macros.json');
+    assert.equal(agentProfileFilename('Ωμέγα'), 'profile-macros.json');
+
+    const { loaded } = download(builderProfile('Sith "Rage" Ω'));
+    assert.equal(loaded.profile?.name, 'Sith "Rage" Ω');
+  });
+});
@@ -0,0 +1,207 @@
+// The control API end to end: a MacroAgent on the mock backend, driven over
+// HTTP and watched over the WebSocket event stream
+
+import { describe, it, beforeEach, afterEach, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { WebSocket } from 'ws';
+import { MacroAgent } from '../src/macroAgent.js';
+import { ProgrammaticInputSource } from '../src/inputSource.js';
+import { ControlEvent } from '../src/controlServer.js';
+
+const TOKEN = 'test-token';
+
+// A W tap runs "Slow Burst": two keystrokes a second apart
+function profile(name: string, minDelay: number = 1000) {
+  return {
+    name,
+    gestureSettings: { multiPressWindow: 100 },
+    macros: [{
+      name: 'Slow Burst',
+      trigger: { key: 'W', gesture: 'single' },
+      sequence: [{ key: 'a', minDelay, maxDelay: minDelay + 10, echoHits: 2 }],
+      enabled: true,
+    }],
+  };
+}
+
+describe('control API', () => {
+  let profileDir: string;
+  let input: ProgrammaticInputSource;
+  let agent: MacroAgent;
+  let port: number;
+  let sockets: WebSocket[];
+
+  beforeEach(async () => {
+    mock.method(console, 'log', () => {});
+    mock.method(console, 'error', () => {});
+    profileDir = fs.mkdtempSync(path.join(os.tmpdir(), 'macro-agent-'));
+    fs.writeFileSync(path.join(profileDir, 'base.json'), JSON.stringify(profile('Base')));
+    input = new ProgrammaticInputSource();
+    agent = new MacroAgent('finish', input, profileDir);
+    await agent.start({
+      backend: 'mock',
+      profileFile: 'base.json',
+      watch: false,
+      control: { port: 0, token: TOKEN },
+    });
+    port = agent.getControlPort()!;
+    sockets = [];
+  });
+
+  afterEach(async () => {
+    sockets.forEach(socket => socket.terminate());
+    await agent.stop();
+    fs.rmSync(profileDir, { recursive: true, force: true });
+  });
+
+  async function request(method: string, route: string, body?: unknown, token: string | null = TOKEN) {
+    const response = await fetch(`http://127.0.0.1:${port}${route}`, {
+      method,
+      headers: {
+        ...(token !== null && { Authorization: `Bearer ${token}` }),
+        ...(body !== undefined && { 'Content-Type': 'application/json' }),
+      },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+    return { status: response.status, body: await response.json() };
+  }
+
+  function connect(token: string = TOKEN): WebSocket {
+    const socket = new WebSocket(`ws://127.0.0.1:${port}/api/events?token=${token}`);
+    sockets.push(socket);
+    return socket;
+  }
+
+  // Resolves with the first event matching the predicate from now on
+  function nextEvent(socket: WebSocket, matches: (event: ControlEvent) => boolean): Promise<ControlEvent> {
+    return new Promise(resolve => {
+      const onMessage = (data: Buffer) => {
+        const event = JSON.parse(data.toString()) as ControlEvent;
+        if (matches(event)) {
+          socket.off('message', onMessage);
+          resolve(event);
+        }
+      };
+      socket.on('message', onMessage);
+    });
+  }
+
+  it('rejects HTTP requests and WebSocket upgrades without the token', async () => {
+    assert.equal((await request('GET', '/api/status', undefined, null)).status, 401);
+    assert.equal((await request('GET', '/api/status', undefined, 'wrong-token')).status, 401);
+
+    const socket = connect('wrong-token');
+    const status = await new Promise<number | undefined>(resolve => {
+      socket.on('unexpected-response', (_request, response) => resolve(response.statusCode));
+      socket.on('error', () => resolve(undefined));
+    });
+    assert.equal(status, 401);
+  });
+
+  it('reports the agent status and profile files', async () => {
+    assert.deepEqual((await request('GET', '/api/status')).body, {
+      backend: 'mock',
+      profileName: 'Base',
+      profileFile: 'base.json',
+      paused: false,
+    });
+    assert.deepEqual((await request('GET', '/api/profiles')).body, { profiles: ['base.json'], active: 'base.json' });
+  });
+
+  it('activates a pushed profile, in memory or saved under a filename', async () => {
+    const pushed = await request('PUT', '/api/profile', { profile: profile('Pushed') });
+    assert.equal(pushed.status, 200);
+    assert.equal(pushed.body.profileName, 'Pushed');
+    assert.equal(pushed.body.profileFile, null);
+
+    const saved = await request('PUT', '/api/profile', { profile: profile('Saved'), filename: 'saved.json' });
+    assert.equal(saved.status, 200);
+    assert.equal(saved.body.profileFile, 'saved.json');
+    assert.ok(fs.existsSync(path.join(profileDir, 'saved.json')));
+  });
+
+  it('answers an invalid profile with 422 and diagnostics, keeping the active one', async () => {
+    const rejected = await request('PUT', '/api/profile', { profile: profile('Too Fast', 5) });
+    assert.equal(rejected.status, 422);
+    assert.ok(rejected.body.diagnostics.some((diagnostic: { severity: string; path: (string | number)[] }) =>
+      diagnostic.severity === 'error' &&
+      diagnostic.path.join('.') === 'macros.0.sequence.0.minDelay'
+    ));
+
+    assert.equal((await request('GET', '/api/status')).body.profileName, 'Base');
+    assert.equal((await request('PUT', '/api/profile', { filename: 'x.json' })).status, 400);
+    assert.equal((await request('PUT', '/api/profile', { profile: profile('Bad'), filename: '../x.json' })).status, 400);
+  });
+
+  it('pauses and resumes, telling WebSocket clients', async () => {
+    const socket = connect();
+    const initial = await nextEvent(socket, event => event.type === 'status');
+    assert.deepEqual(initial, { type: 'status', status: (await request('GET', '/api/status')).body });
+
+    const paused = nextEvent(socket, event => event.type === 'status' && event.status.paused);
+    assert.equal((await request('POST', '/api/pause')).body.paused, true);
+    await paused;
+
+    const resumed = nextEvent(socket, event => event.type === 'status' && !event.status.paused);
+    assert.equal((await request('POST', '/api/resume')).body.paused, false);
+    await resumed;
+  });
+
+  it('cancels a sequence started by a gesture', async () => {
+    const socket = connect();
+    await nextEvent(socket, event => event.type === 'status');
+
+    const gesture = nextEvent(socket, event => event.type === 'gesture');
+    const started = nextEvent(socket, event => event.type === 'execution' && event.event.type === 'started');
+    await input.tap('W');
+    const { event: detected } = await gesture as Extract<ControlEvent, { type: 'gesture' }>;
+    assert.equal(`${detected.inputKey} ${detected.gesture}`, 'W single');
+    await started;
+
+    const cancelled = nextEvent(socket, event => event.type === 'execution' && event.event.type === 'cancelled');
+    assert.equal((await request('POST', '/api/cancel')).status, 200);
+    const { event } = await cancelled as Extract<ControlEvent, { type: 'execution' }>;
+    assert.equal(event.bindingName, 'Slow Burst');
+  });
+
+  it('stops the follow-ups a key started when that key is held to cancel', { timeout: 5000 }, async () => {
+    const chained = {
+      name: 'Chained',
+      gestureSettings: { multiPressWindow: 100, cancelThreshold: 1000 },
+      macros: [
+        {
+          name: 'Opener',
+          trigger: { key: 'W', gesture: 'single' },
+          sequence: [{ key: 'a', minDelay: 25, maxDelay: 30 }],
+          enabled: true,
+          onComplete: 'Finisher',
+        },
+        {
+          name: 'Finisher',
+          trigger: { key: 'A', gesture: 'single' },
+          sequence: [{ key: 'b', minDelay: 1000, maxDelay: 1010, echoHits: 6 }],
+          enabled: true,
+        },
+      ],
+    };
+    assert.equal((await request('PUT', '/api/profile', { profile: chained })).status, 200);
+    const socket = connect();
+    await nextEvent(socket, event => event.type === 'status');
+
+    const execution = (type: string, bindingName: string) => nextEvent(socket, event =>
+      event.type === 'execution' && event.event.type === type && event.event.bindingName === bindingName
+    );
+    const finisherStarted = execution('started', 'Finisher');
+    await input.tap('W');
+    await finisherStarted;
+
+    // Held to cancelThreshold; the chain is on Finisher, which W does not trigger
+    const cancelled = execution('cancelled', 'Finisher');
+    input.keyDown('W');
+    await cancelled;
+    input.keyUp('W');
+  });
+});
@@ -0,0 +1,115 @@
+// Concurrency policies end to end through the mock backend, on virtual time
+
+import { describe, it, beforeEach, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { ExecutorFactory, IExecutor } from '../src/executorFactory.js';
+import { ExecutionEvent } from '../src/sequenceExecutor.js';
+import { ConcurrencyMode, InputKey, MacroBinding } from '../src/types.js';
+import { createVirtualTime, VirtualTime } from './support/virtualTime.js';
+
+// Two keystrokes 100-104ms apart
+function binding(name: string, mode: ConcurrencyMode, options: { key?: InputKey; maxQueue?: number } = {}): MacroBinding {
+  return {
+    name,
+    trigger: { key: options.key ?? 'W', gesture: 'single' },
+    sequence: [{ key: 'a', minDelay: 100, maxDelay: 104, echoHits: 2 }],
+    enabled: true,
+    concurrency: { mode, maxQueue: options.maxQueue ?? 1 },
+  };
+}
+
+describe('execution gate on the mock backend', () => {
+  let time: VirtualTime;
+  let executor: IExecutor;
+  let events: string[];
+
+  beforeEach(async () => {
+    mock.method(console, 'log', () => {});
+    time = createVirtualTime();
+    events = [];
+    executor = await ExecutorFactory.create({
+      backend: 'mock',
+      scheduler: time.scheduler,
+      onEvent: (event: ExecutionEvent) => {
+        if (['started', 'cancelled', 'completed'].includes(event.type)) {
+          events.push(`${event.type} ${event.bindingName}`);
+        }
+      },
+    });
+  });
+
+  it('drop: ignores a trigger while the binding runs', async () => {
+    const macro = binding('Burst', 'drop');
+    const first = executor.execute(macro);
+    const second = executor.execute(macro);
+    await time.advance(110);
+
+    assert.deepEqual(await Promise.all([first, second]), [true, false]);
+    assert.deepEqual(events, ['started Burst', 'completed Burst']);
+  });
+
+  it('queue: runs queued triggers in turn and drops past maxQueue', async () => {
+    const macro = binding('Burst', 'queue', { maxQueue: 1 });
+    const first = executor.execute(macro);
+    const second = executor.execute(macro);
+    const overflow = executor.execute(macro);
+    await time.advance(220);
+
+    assert.deepEqual(await Promise.all([first, second, overflow]), [true, true, false]);
+    assert.deepEqual(events, ['started Burst', 'completed Burst', 'started Burst', 'completed Burst']);
+  });
+
+  it('restart: cancels the running trigger and starts again', async () => {
+    const macro = binding('Burst', 'restart');
+    const first = executor.execute(macro);
+    await time.advance(50);
+    const second = executor.execute(macro);
+    await time.advance(110);
+
+    assert.deepEqual(await Promise.all([first, second]), [false, true]);
+    assert.deepEqual(events, ['started Burst', 'cancelled Burst', 'started Burst', 'completed Burst']);
+  });
+
+  it('cancel_key: cancels other bindings on the same key, not on other keys', async () => {
+    const sameKey = executor.execute(binding('Opener', 'parallel'));
+    const otherKey = executor.execute(binding('Other', 'parallel', { key: 'A' }));
+    await time.advance(50);
+    const cancelling = executor.execute(binding('Finisher', 'cancel_key'));
+    await time.advance(110);
+
+    assert.deepEqual(await Promise.all([sameKey, otherKey, cancelling]), [false, true, true]);
+    assert.deepEqual(events, [
+      'started Opener',
+      'started Other',
+      'cancelled Opener',
+      'started Finisher',
+      'completed Other',
+      'completed Finisher',
+    ]);
+  });
+
+  it('parallel: runs every trigger side by side', async () => {
+    const macro = binding('Burst', 'parallel');
+    const first = executor.execute(macro);
+    const second = executor.execute(macro);
+    await time.advance(110);
+
+    assert.deepEqual(await Promise.all([first, second]), [true, true]);
+    assert.deepEqual(events, ['started Burst', 'started Burst', 'completed Burst', 'completed Burst']);
+  });
+
+  it('cancel: stops a running binding and drops its queued triggers', async () => {
+    const macro = binding('Burst', 'queue', { maxQueue: 2 });
+    const running = executor.execute(macro);
+    const queued = executor.execute(macro);
+    await time.advance(50);
+    assert.equal(executor.isBindingExecuting('Burst'), true);
+
+    executor.cancel('Burst');
+    await time.advance(110);
+
+    assert.deepEqual(await Promise.all([running, queued]), [false, false]);
+    assert.equal(executor.isBindingExecuting('Burst'), false);
+    assert.deepEqual(events, ['started Burst', 'cancelled Burst']);
+  });
+});
@@ -0,0 +1,222 @@
+// Every backend behind IExecutor, put through the same scenarios on virtual
+// time: robotjs and the Interception driver through their recording
+// stand-ins (test/support), and the mock backend through its log
+
+import { describe, it, beforeEach, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { ExecutorFactory, ExecutorBackend, IExecutor } from '../src/executorFactory.js';
+import { ExecutionEvent } from '../src/sequenceExecutor.js';
+import { MacroBinding, SequenceStep } from '../src/types.js';
+import { createVirtualTime, VirtualTime } from './support/virtualTime.js';
+import { sent as robotSent, failNextSend as failNextRobotSend } from './support/robotjs.js';
+import { sent as interceptionSent, failNextSend as failNextInterceptionSend } from './support/ffi-napi.js';
+
+// Scan codes of the keys used below
+const SCAN_CODE_KEYS: Record<string, string> = { '0x1e': 'a', '0x30': 'b' };
+
+// What the mock backend logs for each keystroke instead of sending it
+const MOCK_KEYSTROKE = /^ {2}- (\S+) \(hit/;
+let mockFailure: Error | null = null;
+
+// Keys pressed so far, however the backend sent them
+interface Backend {
+  name: ExecutorBackend;
+  keystrokes(logged: string[]): string[];
+  failNextKeystroke(error: Error): void;
+}
+
+const BACKENDS: Backend[] = [
+  {
+    name: 'robotjs',
+    keystrokes: () => robotSent.map(sent => sent.replace(/^tap /, '')),
+    failNextKeystroke: failNextRobotSend,
+  },
+  {
+    name: 'interception',
+    keystrokes: () => interceptionSent
+      .filter(sent => sent.startsWith('down '))
+      .map(sent => SCAN_CODE_KEYS[sent.slice('down '.length)] ?? sent),
+    failNextKeystroke: failNextInterceptionSend,
+  },
+  {
+    name: 'mock',
+    keystrokes: (logged) => logged.flatMap(line => MOCK_KEYSTROKE.exec(line)?.slice(1) ?? []),
+    failNextKeystroke: (error) => { mockFailure = error; },
+  },
+];
+
+// a twice, then b; every gap 100-104ms
+function burst(sequence: SequenceStep[] = [
+  { key: 'a', minDelay: 100, maxDelay: 104, echoHits: 2 },
+  { key: 'b', minDelay: 100, maxDelay: 104 },
+]): MacroBinding {
+  return {
+    name: 'Burst',
+    trigger: { key: 'W', gesture: 'single' },
+    sequence,
+    enabled: true,
+    concurrency: { mode: 'drop', maxQueue: 1 },
+  };
+}
+
+// "step 0" after a keystroke of step 0, "delay 0" when the gap after it is picked
+function describeEvent(event: ExecutionEvent): string {
+  if (event.type !== 'step') return event.type;
+  return `${event.delay === undefined ? 'step' : 'delay'} ${event.stepIndex}`;
+}
+
+for (const backend of BACKENDS) {
+  describe(`${backend.name} backend`, () => {
+    let time: VirtualTime;
+    let executor: IExecutor;
+    let events: string[];
+    let errors: string[];
+    let logged: string[];
+
+    beforeEach(async () => {
+      logged = [];
+      mockFailure = null;
+      mock.method(console, 'log', (...args: unknown[]) => {
+        const line = args.join(' ');
+        if (mockFailure && MOCK_KEYSTROKE.test(line)) {
+          const error = mockFailure;
+          mockFailure = null;
+          throw error;
+        }
+        logged.push(line);
+      });
+      mock.method(console, 'error', () => {});
+      robotSent.length = 0;
+      interceptionSent.length = 0;
+      time = createVirtualTime();
+      events = [];
+      errors = [];
+      executor = await ExecutorFactory.create({
+        backend: backend.name,
+        scheduler: time.scheduler,
+        onEvent: (event) => {
+          if (event.type !== 'timing') {
+            events.push(describeEvent(event));
+          }
+          if (event.error !== undefined) {
+            errors.push(event.error);
+          }
+        },
+      });
+    });
+
+    it('sends every hit and reports one step event per keystroke', async () => {
+      const result = executor.execute(burst());
+      await time.advance(320);
+
+      assert.equal(await result, true);
+      assert.deepEqual(backend.keystrokes(logged), ['a', 'a', 'b']);
+      assert.deepEqual(events, ['started', 'step 0', 'delay 0', 'step 0', 'delay 0', 'step 1', 'completed']);
+    });
+
+    it('stops between keystrokes when cancelled', async () => {
+      const result = executor.execute(burst());
+      await time.advance(50);
+      executor.cancel('Burst');
+      assert.equal(executor.isBindingExecuting('Burst'), false);
+      await time.advance(320);
+
+      assert.equal(await result, false);
+      assert.deepEqual(backend.keystrokes(logged), ['a']);
+      assert.deepEqual(events, ['started', 'step 0', 'delay 0', 'cancelled']);
+    });
+
+    it('reports a send that throws as an error event', async () => {
+      backend.failNextKeystroke(new Error('device unplugged'));
+      const result = executor.execute(burst());
+      await time.advance(320);
+
+      assert.equal(await result, false);
+      assert.deepEqual(backend.keystrokes(logged), []);
+      assert.deepEqual(events, ['started', 'error']);
+      assert.deepEqual(errors, ['device unplugged']);
+    });
+
+    it('refuses an invalid sequence without sending anything', async () => {
+      const result = await executor.execute(burst([{ key: 'a', minDelay: 5, maxDelay: 6 }]));
+
+      assert.equal(result, false);
+      assert.deepEqual(backend.keystrokes(logged), []);
+      assert.deepEqual(events, ['error']);
+    });
+  });
+}
+
+describe('robotjs backend when a send throws', () => {
+  beforeEach(() => {
+    mock.method(console, 'log', () => {});
+    mock.method(console, 'error', () => {});
+    robotSent.length = 0;
+  });
+
+  it('reports an error and leaves no key down', async () => {
+    const time = createVirtualTime();
+    const events: string[] = [];
+    const executor = await ExecutorFactory.create({
+      backend: 'robotjs',
+      scheduler: time.scheduler,
+      onEvent: (event) => events.push(describeEvent(event)),
+    });
+
+    // "num0" has a scan code for Interception but is no robotjs key name
+    const result = executor.execute(burst([
+      { key: 'num0', action: 'hold', holdMs: 50, modifiers: ['shift', 'ctrl'], minDelay: 100, maxDelay: 104 },
+    ]));
+    await time.advance(100);
+
+    assert.equal(await result, false);
+    assert.deepEqual(events, ['started', 'error']);
+    assert.deepEqual(robotSent, ['down shift', 'down control', 'up shift', 'up control']);
+  });
+});
+
+describe('dry run', () => {
+  let output: string[];
+
+  beforeEach(() => {
+    output = [];
+    mock.method(console, 'log', (...args: unknown[]) => output.push(args.join(' ')));
+    mock.method(console, 'error', (...args: unknown[]) => output.push(args.join(' ')));
+    robotSent.length = 0;
+    interceptionSent.length = 0;
+  });
+
+  // What each backend prints for a dry run of the binding
+  async function dryRunOutput(binding: MacroBinding): Promise<Map<ExecutorBackend, string[]>> {
+    const outputs = new Map<ExecutorBackend, string[]>();
+    for (const backend of BACKENDS) {
+      const executor = await ExecutorFactory.create({ backend: backend.name, scheduler: createVirtualTime().scheduler });
+      output = [];
+      await executor.dryRun(binding);
+      outputs.set(backend.name, output);
+      output = [];
+    }
+    return outputs;
+  }
+
+  it('prints the same listing on every backend and sends nothing', async () => {
+    const outputs = await dryRunOutput(burst());
+    const [first, ...rest] = [...outputs.values()];
+
+    assert.ok(first.some(line => line.includes('DRY RUN: "Burst"')));
+    assert.ok(first.some(line => line.includes('Total key presses: 3')));
+    rest.forEach(output => assert.deepEqual(output, first));
+    assert.deepEqual(robotSent, []);
+    assert.deepEqual(interceptionSent, []);
+  });
+
+  it('rejects an invalid sequence the same way on every backend', async () => {
+    const outputs = await dryRunOutput(burst([{ key: 'a', minDelay: 5, maxDelay: 6 }]));
+
+    for (const output of outputs.values()) {
+      assert.equal(output.length, 1);
+      assert.match(output[0], /^❌ Validation failed: /);
+      assert.equal(output[0], outputs.get('robotjs')![0]);
+    }
+  });
+});
@@ -0,0 +1,138 @@
+// Gesture detection on a VirtualClock: traces in, exact gestures out
+
+import { describe, it, beforeEach, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseInputTrace } from '@swtor/agent-profile';
+import { simulateGestures } from '../src/gestureDetector.js';
+import { traceInputEvents } from '../src/inputTrace.js';
+import { DEFAULT_GESTURE_SETTINGS, DEFAULT_GESTURES, GestureSettings } from '../src/types.js';
+
+beforeEach(() => {
+  mock.method(console, 'log', () => {});
+});
+
+// "W 0-50" is a press of W from 0ms to 50ms
+function gesturesFor(presses: string[], settings: Partial<GestureSettings> = {}) {
+  const entries = presses
+    .flatMap(press => {
+      const [, key, down, up] = /^(\S+) (\d+)-(\d+)$/.exec(press)!;
+      return [
+        { timestamp: Number(down), type: 'down', key },
+        { timestamp: Number(up), type: 'up', key },
+      ];
+    })
+    .sort((a, b) => a.timestamp - b.timestamp);
+  const trace = parseInputTrace(entries.map(entry => JSON.stringify(entry)).join('\n'));
+  assert.deepEqual(trace.errors, []);
+
+  return simulateGestures(traceInputEvents(trace), { ...DEFAULT_GESTURE_SETTINGS, ...settings }, DEFAULT_GESTURES)
+    .map(({ inputKey, gesture, timestamp, holdDuration }) => ({ inputKey, gesture, timestamp, holdDuration }));
+}
+
+describe('gesture tiers', () => {
+  it('resolves a short press once the multi-press window closes', () => {
+    assert.deepEqual(gesturesFor(['W 0-50']), [
+      { inputKey: 'W', gesture: 'single', timestamp: 400, holdDuration: undefined },
+    ]);
+  });
+
+  it('reads holds between longPressMin and longPressMax as long', () => {
+    assert.deepEqual(gesturesFor(['W 0-100']), [
+      { inputKey: 'W', gesture: 'long', timestamp: 450, holdDuration: undefined },
+    ]);
+  });
+
+  it('reads holds between longPressMax and superLongMin as short', () => {
+    assert.deepEqual(gesturesFor(['W 0-200']), [
+      { inputKey: 'W', gesture: 'single', timestamp: 550, holdDuration: undefined },
+    ]);
+  });
+
+  it('combines presses inside the multi-press window', () => {
+    assert.deepEqual(gesturesFor(['W 0-50', 'W 150-200']), [
+      { inputKey: 'W', gesture: 'double', timestamp: 550, holdDuration: undefined },
+    ]);
+    assert.deepEqual(gesturesFor(['W 0-50', 'W 150-250']), [
+      { inputKey: 'W', gesture: 'double_long', timestamp: 600, holdDuration: undefined },
+    ]);
+  });
+
+  it('starts a new sequence after the window closes', () => {
+    assert.deepEqual(gesturesFor(['W 0-50', 'W 500-550']), [
+      { inputKey: 'W', gesture: 'single', timestamp: 400, holdDuration: undefined },
+      { inputKey: 'W', gesture: 'single', timestamp: 900, holdDuration: undefined },
+    ]);
+  });
+
+  it('emits super_long on release without waiting for the window', () => {
+    assert.deepEqual(gesturesFor(['W 0-500']), [
+      { inputKey: 'W', gesture: 'super_long', timestamp: 500, holdDuration: 500 },
+    ]);
+  });
+
+  it('tracks every key on its own', () => {
+    assert.deepEqual(gesturesFor(['W 0-50', 'A 20-120']), [
+      { inputKey: 'W', gesture: 'single', timestamp: 400, holdDuration: undefined },
+      { inputKey: 'A', gesture: 'long', timestamp: 470, holdDuration: undefined },
+    ]);
+  });
+});
+
+describe('debounce', () => {
+  it('ignores a press that starts within debounceDelay of the release', () => {
+    assert.deepEqual(gesturesFor(['W 0-50', 'W 55-60']), [
+      { inputKey: 'W', gesture: 'single', timestamp: 400, holdDuration: undefined },
+    ]);
+  });
+
+  it('counts a press that starts after debounceDelay', () => {
+    assert.deepEqual(gesturesFor(['W 0-50', 'W 65-100']), [
+      { inputKey: 'W', gesture: 'double', timestamp: 450, holdDuration: undefined },
+    ]);
+  });
+
+  it('keeps a press going through a bounce right after it starts', () => {
+    assert.deepEqual(gesturesFor(['W 0-2', 'W 4-100']), [
+      { inputKey: 'W', gesture: 'long', timestamp: 450, holdDuration: undefined },
+    ]);
+    assert.deepEqual(gesturesFor(['W 0-2', 'W 4-6', 'W 8-500']), [
+      { inputKey: 'W', gesture: 'super_long', timestamp: 500, holdDuration: 500 },
+    ]);
+  });
+
+  it('still counts a short tap once debounceDelay passes without a press', () => {
+    assert.deepEqual(gesturesFor(['W 0-5']), [
+      { inputKey: 'W', gesture: 'single', timestamp: 355, holdDuration: undefined },
+    ]);
+  });
+
+  it('uses the profile debounceDelay', () => {
+    assert.deepEqual(gesturesFor(['W 0-50', 'W 70-100'], { debounceDelay: 30 }), [
+      { inputKey: 'W', gesture: 'single', timestamp: 400, holdDuration: undefined },
+    ]);
+  });
+});
+
+describe('superLongOverflow', () => {
+  it('"ignore" drops a hold released between superLongMax and cancelThreshold', () => {
+    assert.deepEqual(gesturesFor(['W 0-2500']), []);
+  });
+
+  it('"ignore" still cancels once the hold reaches cancelThreshold', () => {
+    assert.deepEqual(gesturesFor(['W 0-3500']), [
+      { inputKey: 'W', gesture: 'cancel', timestamp: 3000, holdDuration: 3000 },
+    ]);
+  });
+
+  it('"cancel" cancels as soon as the hold passes superLongMax', () => {
+    assert.deepEqual(gesturesFor(['W 0-2500'], { superLongOverflow: 'cancel' }), [
+      { inputKey: 'W', gesture: 'cancel', timestamp: 2000, holdDuration: 2000 },
+    ]);
+  });
+
+  it('"cancel" leaves holds within superLongMax alone', () => {
+    assert.deepEqual(gesturesFor(['W 0-1500'], { superLongOverflow: 'cancel' }), [
+      { inputKey: 'W', gesture: 'super_long', timestamp: 1500, holdDuration: 1500 },
+    ]);
+  });
+});
@@ -0,0 +1,41 @@
+// Stand-in for ffi-napi (native, Windows only). Library() loads a fake
+// interception.dll with one keyboard (device 1) and one mouse (device 11)
+// that records every stroke sent. hooks.mjs resolves 'ffi-napi' to this module.
+
+export const KEYBOARD_DEVICE = 1;
+export const MOUSE_DEVICE = 11;
+
+// "down 0x1e" / "up 0x1e" for keys, "mouse 0x400 -120" (state, wheel) for the mouse
+export const sent: string[] = [];
+
+let nextError: Error | null = null;
+
+/**
+ * Make the next interception_send throw `error`, once
+ */
+export function failNextSend(error: Error): void {
+  nextError = error;
+}
+
+export function Library(_path: string, _functions: Record<string, unknown>) {
+  return {
+    interception_create_context: () => 1,
+    interception_destroy_context: (_context: number) => {},
+    interception_is_keyboard: (device: number) => device === KEYBOARD_DEVICE,
+    interception_is_mouse: (device: number) => device === MOUSE_DEVICE,
+    interception_send: (_context: number, device: number, stroke: Buffer, _count: number) => {
+      const error = nextError;
+      nextError = null;
+      if (error) throw error;
+      if (device === KEYBOARD_DEVICE) {
+        const state = stroke.readUInt16LE(2);
+        sent.push(`${state & 0x01 ? 'up' : 'down'} 0x${stroke.readUInt16LE(0).toString(16)}`);
+      } else {
+        sent.push(`mouse 0x${stroke.readUInt16LE(0).toString(16)} ${stroke.readInt16LE(4)}`);
+      }
+      return 1;
+    },
+  };
+}
+
+export default { Library };
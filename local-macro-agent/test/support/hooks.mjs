@@ -0,0 +1,14 @@
+// Module resolution hooks for the tests: native modules the executors load
+// are replaced by recording stand-ins in this directory
+
+const STAND_INS = {
+  robotjs: './robotjs.ts',
+  'ffi-napi': './ffi-napi.ts',
+  'ref-napi': './ref-napi.ts',
+};
+
+export async function resolve(specifier, context, nextResolve) {
+  const standIn = STAND_INS[specifier];
+  // Still through the rest of the chain, so tsx compiles the TypeScript stand-in
+  return nextResolve(standIn ? new URL(standIn, import.meta.url).href : specifier, context);
+}
@@ -0,0 +1,4 @@
+// Stand-in for ref-napi, which InterceptionExecutor loads next to ffi-napi
+// but does not call
+
+export default {};
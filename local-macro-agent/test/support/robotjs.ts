@@ -0,0 +1,52 @@
+// Stand-in for robotjs (native, Windows only) that records what would be sent.
+// hooks.mjs resolves every 'robotjs' import in the tests to this module.
+
+export const sent: string[] = [];
+
+// Key names robotjs knows; like robotjs, anything else throws
+const KEY_NAME = /^(.|f([1-9]|1\d|2[0-4])|numpad_\d|backspace|delete|enter|tab|escape|up|down|left|right|home|end|pageup|pagedown|insert|space|printscreen|command|control|shift|right_shift|alt)$/;
+
+function checkKey(key: string): void {
+  if (!KEY_NAME.test(key)) {
+    throw new Error('Invalid key code specified.');
+  }
+}
+
+let nextError: Error | null = null;
+
+/**
+ * Make the next key or mouse call throw `error`, once
+ */
+export function failNextSend(error: Error): void {
+  nextError = error;
+}
+
+function send(stroke: string): void {
+  const error = nextError;
+  nextError = null;
+  if (error) throw error;
+  sent.push(stroke);
+}
+
+const robot = {
+  setKeyboardDelay(_ms: number): void {},
+  keyTap(key: string, modifiers: string[] = []): void {
+    [key, ...modifiers].forEach(checkKey);
+    send(`tap ${[...modifiers, key].join('+')}`);
+  },
+  keyToggle(key: string, state: 'down' | 'up'): void {
+    checkKey(key);
+    send(`${state} ${key}`);
+  },
+  mouseToggle(state: 'down' | 'up', button: string): void {
+    send(`${state} mouse ${button}`);
+  },
+  mouseClick(button: string): void {
+    send(`click ${button}`);
+  },
+  scrollMouse(_x: number, y: number): void {
+    send(`scroll ${y}`);
+  },
+};
+
+export default robot;
@@ -0,0 +1,35 @@
+// A Scheduler on a VirtualClock, for driving executors without real waits
+
+import { Scheduler, VirtualClock } from '@swtor/agent-profile';
+
+// Event loop turns to let resolved waits run to their next wait
+const SETTLE_TURNS = 5;
+
+export interface VirtualTime {
+  clock: VirtualClock;
+  scheduler: Scheduler;
+  settle(): Promise<void>;
+  advance(ms: number): Promise<void>;
+}
+
+export function createVirtualTime(): VirtualTime {
+  const clock = new VirtualClock();
+  const scheduler = new Scheduler(clock, 0);
+
+  const settle = async () => {
+    for (let turn = 0; turn < SETTLE_TURNS; turn++) {
+      await new Promise(resolve => setImmediate(resolve));
+    }
+  };
+
+  // One millisecond at a time, so every run picks its next delay before time moves on
+  const advance = async (ms: number) => {
+    for (let elapsed = 0; elapsed < ms; elapsed++) {
+      await settle();
+      clock.advance(1);
+    }
+    await settle();
+  };
+
+  return { clock, scheduler, settle, advance };
+}
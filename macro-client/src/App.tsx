@@ -1,7 +1,7 @@
 import React, { useState, useEffect } from "react";
 import { PerKeyGestureManager, GestureEvent } from "./lib/perKeyGestureManager";
 import { MacroExecutor, MacroExecutionEvent } from "./lib/macroExecutor";
-import { MacroProfile, InputKey } from "../../macro-shared/schema";
+import { MacroProfile, InputKey, MACRO_API_PREFIX } from "../../macro-shared/schema";
 import { KeyDashboard } from "./components/KeyDashboard";
 import { MacroBuilder } from "./components/MacroBuilder";
 import { ProfileManager } from "./components/ProfileManager";
@@ -43,6 +43,7 @@ export default function App() {
 
     const manager = new PerKeyGestureManager(
       currentProfile.gestureSettings,
+      currentProfile.gestures,
       handleGesture
     );
     
@@ -89,7 +90,7 @@ export default function App() {
 
   // Load default profile on mount
   useEffect(() => {
-    fetch("/api/macro-profiles")
+    fetch(`${MACRO_API_PREFIX}/macro-profiles`)
       .then(res => res.json())
       .then(profiles => {
         const defaultProfile = profiles.find((p: MacroProfile) => p.favorite) || profiles[0];
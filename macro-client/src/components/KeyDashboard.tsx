@@ -16,7 +16,8 @@ const ALL_KEYS: InputKey[] = [
   "LEFT_CLICK", "RIGHT_CLICK",
 ];
 
-const GESTURE_LABELS: Record<GestureType, string> = {
+// Short labels for the default gestures; others show their name
+const GESTURE_LABELS: Record<string, string> = {
   single: "Single",
   long: "Long",
   double: "Double",
@@ -28,6 +29,10 @@ const GESTURE_LABELS: Record<GestureType, string> = {
   cancel: "Cancel",
 };
 
+function gestureLabel(gesture: GestureType): string {
+  return GESTURE_LABELS[gesture] ?? gesture;
+}
+
 export function KeyDashboard({ profile, onSelectKey, selectedKey, recentGestures }: KeyDashboardProps) {
   const getBindingCount = (key: InputKey): number => {
     if (!profile) return 0;
@@ -72,7 +77,7 @@ export function KeyDashboard({ profile, onSelectKey, selectedKey, recentGestures
               )}
               {recentGesture && (
                 <div className="text-xs text-green-600 dark:text-green-400 mt-1">
-                  {GESTURE_LABELS[recentGesture.gesture]}
+                  {gestureLabel(recentGesture.gesture)}
                 </div>
               )}
             </button>
@@ -88,7 +93,7 @@ export function KeyDashboard({ profile, onSelectKey, selectedKey, recentGestures
             <div key={idx} className="flex items-center gap-2">
               <span className="font-bold">{g.inputKey}</span>
               <span className="text-muted-foreground">→</span>
-              <span className="text-primary">{GESTURE_LABELS[g.gesture]}</span>
+              <span className="text-primary">{gestureLabel(g.gesture)}</span>
             </div>
           ))}
         </div>
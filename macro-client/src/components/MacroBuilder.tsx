@@ -1,5 +1,14 @@
 import React, { useState } from "react";
-import { MacroProfile, InputKey, GestureType, MacroBinding, MacroStep } from "../../../macro-shared/schema";
+import {
+  MacroProfile,
+  InputKey,
+  GestureType,
+  MacroBinding,
+  MacroStep,
+  MACRO_API_PREFIX,
+  gestureNames,
+  describeGesture,
+} from "../../../macro-shared/schema";
 import { ABILITY_CATALOG, getAbilityById } from "../../../macro-shared/abilities";
 
 interface MacroBuilderProps {
@@ -8,21 +17,30 @@ interface MacroBuilderProps {
   onProfileUpdate: (profile: MacroProfile) => void;
 }
 
-const GESTURE_OPTIONS: { value: GestureType; label: string }[] = [
-  { value: "single", label: "Single Press" },
-  { value: "long", label: "Long Press (80-140ms)" },
-  { value: "double", label: "Double Press" },
-  { value: "double_long", label: "Double + 2nd Long" },
-  { value: "triple", label: "Triple Press" },
-  { value: "triple_long", label: "Triple + 3rd Long" },
-  { value: "quadruple_long", label: "Quadruple + 4th Long" },
-  { value: "super_long", label: "Super Long (300-2000ms)" },
-  { value: "cancel", label: "Cancel Hold (>3000ms)" },
-];
+// Labels for the default gestures; profile-defined gestures are described from their definition
+const GESTURE_LABELS: Record<string, string> = {
+  single: "Single Press",
+  long: "Long Press (80-140ms)",
+  double: "Double Press",
+  double_long: "Double + 2nd Long",
+  triple: "Triple Press",
+  triple_long: "Triple + 3rd Long",
+  quadruple_long: "Quadruple + 4th Long",
+  super_long: "Super Long (300ms+)",
+  cancel: "Cancel Hold (>3000ms)",
+};
 
 export function MacroBuilder({ inputKey, profile, onProfileUpdate }: MacroBuilderProps) {
   const [selectedGesture, setSelectedGesture] = useState<GestureType>("single");
 
+  const gestureOptions = gestureNames(profile.gestures).map(name => {
+    const definition = profile.gestures.find(g => g.name === name);
+    return {
+      value: name,
+      label: GESTURE_LABELS[name] ?? (definition ? `${name} (${describeGesture(definition)})` : name),
+    };
+  });
+
   const currentBinding = profile.macroBindings.find(
     b => b.inputKey === inputKey && b.gestureType === selectedGesture
   );
@@ -85,7 +103,7 @@ export function MacroBuilder({ inputKey, profile, onProfileUpdate }: MacroBuilde
   };
 
   const saveProfile = (updatedProfile: MacroProfile) => {
-    fetch(`/api/macro-profiles/${profile.id}`, {
+    fetch(`${MACRO_API_PREFIX}/macro-profiles/${profile.id}`, {
       method: "PATCH",
       headers: { "Content-Type": "application/json" },
       body: JSON.stringify(updatedProfile),
@@ -109,7 +127,7 @@ export function MacroBuilder({ inputKey, profile, onProfileUpdate }: MacroBuilde
           onChange={e => setSelectedGesture(e.target.value as GestureType)}
           className="w-full bg-background border rounded-lg px-3 py-2"
         >
-          {GESTURE_OPTIONS.map(opt => (
+          {gestureOptions.map(opt => (
             <option key={opt.value} value={opt.value}>
               {opt.label}
             </option>
@@ -1,5 +1,5 @@
 import React, { useState, useEffect } from "react";
-import { MacroProfile } from "../../../macro-shared/schema";
+import { MacroProfile, MACRO_API_PREFIX } from "../../../macro-shared/schema";
 
 interface ProfileManagerProps {
   currentProfile: MacroProfile | null;
@@ -16,7 +16,7 @@ export function ProfileManager({ currentProfile, onProfileChange }: ProfileManag
 
   const loadProfiles = () => {
     setLoading(true);
-    fetch("/api/macro-profiles")
+    fetch(`${MACRO_API_PREFIX}/macro-profiles`)
       .then(res => res.json())
       .then(data => {
         setProfiles(data);
@@ -45,11 +45,12 @@ export function ProfileManager({ currentProfile, onProfileChange }: ProfileManag
         superLongMin: 300,
         superLongMax: 2000,
         cancelThreshold: 3000,
+        superLongOverflow: "ignore",
       },
       macroBindings: [],
     };
 
-    fetch("/api/macro-profiles", {
+    fetch(`${MACRO_API_PREFIX}/macro-profiles`, {
       method: "POST",
       headers: { "Content-Type": "application/json" },
       body: JSON.stringify(newProfile),
@@ -1,10 +1,12 @@
 import { MacroBinding, MacroStep, InputKey } from "../../../macro-shared/schema";
 import { getAbilityById } from "../../../macro-shared/abilities";
+import { sharedScheduler, type Scheduler } from "../../../agent-profile/scheduler";
 
 // ============================================================================
 // MACRO EXECUTOR
 // Executes macro sequences with high-precision timing (ms-accurate)
-// Per-key FIFO queues prevent interference
+// Per-key FIFO queues prevent interference; every queue waits on the
+// shared Scheduler, the same timing loop the local agent's executors use
 // ============================================================================
 
 type ExecutionStep = {
@@ -14,8 +16,6 @@ type ExecutionStep = {
   pressInterval: number;
   waitAfter: number;
   targetModifier: string;
-  nextPressTime: number; // When to execute next press
-  completed: boolean;
 };
 
 type MacroExecution = {
@@ -37,12 +37,12 @@ export type MacroExecutionEvent = {
 
 export class MacroExecutor {
   private executionQueues: Map<InputKey, MacroExecution[]> = new Map();
-  private animationFrameId: number | null = null;
   private onOutput: (event: MacroExecutionEvent) => void;
-  private isRunning: boolean = false;
+  private scheduler: Scheduler;
 
-  constructor(onOutput: (event: MacroExecutionEvent) => void) {
+  constructor(onOutput: (event: MacroExecutionEvent) => void, scheduler: Scheduler = sharedScheduler) {
     this.onOutput = onOutput;
+    this.scheduler = scheduler;
     this.initializeQueues();
   }
 
@@ -72,8 +72,6 @@ export class MacroExecutor {
       pressInterval: step.pressInterval,
       waitAfter: step.waitAfter,
       targetModifier: step.targetModifier,
-      nextPressTime: performance.now(),
-      completed: false,
     }));
 
     const execution: MacroExecution = {
@@ -93,9 +91,9 @@ export class MacroExecutor {
       bindingId: binding.id,
     });
 
-    // Start execution loop if not already running
-    if (!this.isRunning) {
-      this.start();
+    // Start working through the queue if nothing was running on this key
+    if (queue.length === 1) {
+      void this.drain(queue);
     }
   }
 
@@ -119,80 +117,56 @@ export class MacroExecutor {
     this.executionQueues.set(inputKey, []);
   }
 
-  // Main execution loop using requestAnimationFrame for precision
-  private start() {
-    this.isRunning = true;
-    this.tick();
+  // Run a key's executions one after another (FIFO). cancel() swaps in a
+  // fresh queue, so this only ever sees the queue it was started for.
+  private async drain(queue: MacroExecution[]) {
+    while (queue.length > 0) {
+      const execution = queue[0];
+      if (!execution.cancelled) {
+        await this.run(execution);
+      }
+      queue.shift();
+    }
   }
 
-  private tick() {
-    const now = performance.now();
-    let hasActiveExecutions = false;
+  private async run(execution: MacroExecution) {
+    const continues = () => !execution.cancelled;
+    const { steps } = execution;
 
-    // Process all queues
-    this.executionQueues.forEach((queue, inputKey) => {
-      if (queue.length === 0) return;
-
-      const execution = queue[0]; // FIFO - process first in queue
-      if (execution.cancelled) {
-        queue.shift(); // Remove cancelled execution
-        return;
-      }
+    for (let i = 0; i < steps.length; i++) {
+      execution.currentStepIndex = i;
+      const step = steps[i];
 
-      hasActiveExecutions = true;
-
-      // Get current step
-      const step = execution.steps[execution.currentStepIndex];
-      if (!step || step.completed) {
-        // Move to next step
-        execution.currentStepIndex++;
-        
-        if (execution.currentStepIndex >= execution.steps.length) {
-          // Macro completed
-          this.onOutput({
-            type: "completed",
-            inputKey: execution.inputKey,
-            bindingId: execution.binding.id,
-          });
-          queue.shift(); // Remove completed execution
+      for (step.pressIndex = 0; step.pressIndex < step.pressCount; step.pressIndex++) {
+        if (step.pressIndex > 0) {
+          await this.scheduler.wait(step.pressInterval, continues);
         }
-        return;
-      }
+        if (execution.cancelled) return;
 
-      // Check if it's time to execute next press
-      if (now >= step.nextPressTime) {
-        // Execute the press
         const ability = getAbilityById(step.ability);
         const output = this.formatOutput(step, ability?.displayName || step.ability);
-        
+
         this.onOutput({
           type: "step",
           inputKey: execution.inputKey,
           bindingId: execution.binding.id,
-          step: execution.binding.sequence[execution.currentStepIndex],
+          step: execution.binding.sequence[i],
           output,
         });
-
-        // Update step state
-        step.pressIndex++;
-        
-        if (step.pressIndex >= step.pressCount) {
-          // All presses done, mark step completed and wait
-          step.completed = true;
-          step.nextPressTime = now + step.waitAfter;
-        } else {
-          // Schedule next press
-          step.nextPressTime = now + step.pressInterval;
-        }
       }
-    });
 
-    // Continue loop if there are active executions
-    if (hasActiveExecutions) {
-      this.animationFrameId = requestAnimationFrame(() => this.tick());
-    } else {
-      this.stop();
+      // Wait after every step but the last
+      if (i < steps.length - 1) {
+        await this.scheduler.wait(step.waitAfter, continues);
+      }
     }
+
+    if (execution.cancelled) return;
+    this.onOutput({
+      type: "completed",
+      inputKey: execution.inputKey,
+      bindingId: execution.binding.id,
+    });
   }
 
   private formatOutput(step: ExecutionStep, abilityName: string): string {
@@ -209,14 +183,6 @@ export class MacroExecutor {
     return output;
   }
 
-  private stop() {
-    this.isRunning = false;
-    if (this.animationFrameId !== null) {
-      cancelAnimationFrame(this.animationFrameId);
-      this.animationFrameId = null;
-    }
-  }
-
   // Get current execution state for debugging
   getExecutionState(inputKey: InputKey) {
     const queue = this.executionQueues.get(inputKey);
@@ -231,7 +197,7 @@ export class MacroExecutor {
     };
   }
 
-  // Clear all queues and stop
+  // Clear all queues; running executions stop at their next wait
   reset() {
     this.executionQueues.forEach((queue, key) => {
       queue.forEach(execution => {
@@ -239,6 +205,5 @@ export class MacroExecutor {
       });
       this.executionQueues.set(key, []);
     });
-    this.stop();
   }
 }
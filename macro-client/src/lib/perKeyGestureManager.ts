@@ -1,8 +1,20 @@
-import { GestureType, GestureSettings, InputKey } from "../../../macro-shared/schema";
+import {
+  GestureType,
+  GestureSettings,
+  GestureDefinition,
+  HoldTier,
+  InputKey,
+  CANCEL_GESTURE,
+  holdTier,
+  resolveGesture,
+  canExtendGesture,
+} from "../../../macro-shared/schema";
+import { systemClock, type Clock, type TimerHandle } from "../../../agent-profile/clock";
 
 // ============================================================================
 // PER-KEY GESTURE STATE MACHINE
-// Each of the 22 input keys gets its own isolated state machine
+// Each of the 22 input keys gets its own isolated state machine. Presses are
+// resolved against the profile's gestures with the same rules as the agent.
 // ============================================================================
 
 export type GestureEvent = {
@@ -11,62 +23,48 @@ export type GestureEvent = {
   timestamp: number;
 };
 
-type PressEvent = {
-  timestamp: number;
-  released: boolean;
-};
-
 class KeyGestureStateMachine {
   private inputKey: InputKey;
   private settings: GestureSettings;
-  private pressHistory: PressEvent[] = [];
+  private gestures: GestureDefinition[];
+  private pressHistory: HoldTier[] = [];
   private pressStartTime: number | null = null;
-  private multiPressTimer: NodeJS.Timeout | null = null;
-  private longPressTimer: NodeJS.Timeout | null = null;
-  private superLongTimer: NodeJS.Timeout | null = null;
-  private cancelTimer: NodeJS.Timeout | null = null;
+  private multiPressTimer: TimerHandle | null = null;
+  private cancelTimer: TimerHandle | null = null;
   private onGesture: (event: GestureEvent) => void;
-  private debounceTimer: NodeJS.Timeout | null = null;
   private lastReleaseTime: number = 0;
+  private clock: Clock;
 
   constructor(
     inputKey: InputKey,
     settings: GestureSettings,
-    onGesture: (event: GestureEvent) => void
+    gestures: GestureDefinition[],
+    onGesture: (event: GestureEvent) => void,
+    clock: Clock
   ) {
     this.inputKey = inputKey;
     this.settings = settings;
+    this.gestures = gestures;
     this.onGesture = onGesture;
+    this.clock = clock;
   }
 
   private clearAllTimers() {
     if (this.multiPressTimer) {
-      clearTimeout(this.multiPressTimer);
+      this.clock.clearTimeout(this.multiPressTimer);
       this.multiPressTimer = null;
     }
-    if (this.longPressTimer) {
-      clearTimeout(this.longPressTimer);
-      this.longPressTimer = null;
-    }
-    if (this.superLongTimer) {
-      clearTimeout(this.superLongTimer);
-      this.superLongTimer = null;
-    }
     if (this.cancelTimer) {
-      clearTimeout(this.cancelTimer);
+      this.clock.clearTimeout(this.cancelTimer);
       this.cancelTimer = null;
     }
-    if (this.debounceTimer) {
-      clearTimeout(this.debounceTimer);
-      this.debounceTimer = null;
-    }
   }
 
   private emitGesture(gesture: GestureType) {
     this.onGesture({
       inputKey: this.inputKey,
       gesture,
-      timestamp: Date.now(),
+      timestamp: this.clock.now(),
     });
     this.reset();
   }
@@ -77,107 +75,64 @@ class KeyGestureStateMachine {
     this.pressStartTime = null;
   }
 
+  // Presses that match no gesture are dropped
   private evaluateGesture() {
-    const pressCount = this.pressHistory.length;
-    const lastPress = this.pressHistory[pressCount - 1];
-    
-    if (!lastPress) return;
-
-    const pressDuration = lastPress.released 
-      ? (this.pressHistory[pressCount - 1].timestamp - (this.pressStartTime || 0))
-      : 0;
-
-    const isLongPress = pressDuration >= this.settings.longPressMin && 
-                        pressDuration <= this.settings.longPressMax;
-
-    // Determine gesture type based on press count and long press status
-    if (pressCount === 1) {
-      this.emitGesture("single");
-    } else if (pressCount === 2) {
-      if (isLongPress) {
-        this.emitGesture("double_long");
-      } else {
-        this.emitGesture("double");
-      }
-    } else if (pressCount === 3) {
-      if (isLongPress) {
-        this.emitGesture("triple_long");
-      } else {
-        this.emitGesture("triple");
-      }
-    } else if (pressCount === 4) {
-      if (isLongPress) {
-        this.emitGesture("quadruple_long");
-      } else {
-        // Just emit triple if 4th wasn't long
-        this.emitGesture("triple");
-      }
+    const gesture = resolveGesture(this.pressHistory, this.gestures);
+    if (gesture) {
+      this.emitGesture(gesture);
+    } else {
+      this.reset();
     }
   }
 
   handleKeyDown() {
-    const now = Date.now();
+    const now = this.clock.now();
 
     // Debounce: ignore if too soon after last release
     if (now - this.lastReleaseTime < this.settings.debounceDelay) {
       return;
     }
 
-    // If this is a new press sequence
-    if (this.pressHistory.length === 0 || this.multiPressTimer === null) {
-      this.pressStartTime = now;
-    }
-
-    // Clear existing timers for new press
+    // A press inside the multi-press window continues the sequence
     this.clearAllTimers();
+    this.pressStartTime = now;
+
+    // Holds past superLongMax are cancels right away when configured
+    const cancelAfter = this.settings.superLongOverflow === "cancel"
+      ? Math.min(this.settings.superLongMax, this.settings.cancelThreshold)
+      : this.settings.cancelThreshold;
 
-    // Start long press detection
-    this.longPressTimer = setTimeout(() => {
-      // Standard long press detected (80-140ms)
-      this.emitGesture("long");
-    }, this.settings.longPressMax);
-
-    // Start super long press detection (300-2000ms)
-    this.superLongTimer = setTimeout(() => {
-      this.emitGesture("super_long");
-    }, this.settings.superLongMax);
-
-    // Start cancel detection (>3000ms)
-    this.cancelTimer = setTimeout(() => {
-      this.emitGesture("cancel");
-    }, this.settings.cancelThreshold);
+    this.cancelTimer = this.clock.setTimeout(() => {
+      this.emitGesture(CANCEL_GESTURE);
+    }, cancelAfter);
   }
 
   handleKeyUp() {
-    const now = Date.now();
+    // Ignored after a cancel already resolved this press
+    if (this.pressStartTime === null) return;
+
+    const now = this.clock.now();
+    const holdDuration = now - this.pressStartTime;
     this.lastReleaseTime = now;
+    this.pressStartTime = null;
+    this.clearAllTimers();
 
-    // Clear long press timers since key was released
-    if (this.longPressTimer) {
-      clearTimeout(this.longPressTimer);
-      this.longPressTimer = null;
-    }
-    if (this.superLongTimer) {
-      clearTimeout(this.superLongTimer);
-      this.superLongTimer = null;
-    }
-    if (this.cancelTimer) {
-      clearTimeout(this.cancelTimer);
-      this.cancelTimer = null;
+    // Too long for super_long and short of a cancel: the sequence is dropped
+    if (holdDuration > this.settings.superLongMax) {
+      this.reset();
+      return;
     }
 
-    // Record this press
-    this.pressHistory.push({
-      timestamp: now,
-      released: true,
-    });
+    const tier = holdTier(holdDuration, this.settings);
+    this.pressHistory.push(tier);
 
-    // Start multi-press window timer
-    if (this.multiPressTimer) {
-      clearTimeout(this.multiPressTimer);
+    // A super_long press ends the sequence, and so does one no gesture can follow
+    if (tier === "super_long" || !canExtendGesture(this.pressHistory.length, this.gestures)) {
+      this.evaluateGesture();
+      return;
     }
 
-    this.multiPressTimer = setTimeout(() => {
+    this.multiPressTimer = this.clock.setTimeout(() => {
       // Multi-press window expired, evaluate gesture
       this.evaluateGesture();
     }, this.settings.multiPressWindow);
@@ -202,15 +157,21 @@ class KeyGestureStateMachine {
 export class PerKeyGestureManager {
   private stateMachines: Map<InputKey, KeyGestureStateMachine> = new Map();
   private settings: GestureSettings;
+  private gestures: GestureDefinition[];
   private onGesture: (event: GestureEvent) => void;
   private keyDownStates: Map<InputKey, boolean> = new Map();
+  private clock: Clock;
 
   constructor(
     settings: GestureSettings,
-    onGesture: (event: GestureEvent) => void
+    gestures: GestureDefinition[],
+    onGesture: (event: GestureEvent) => void,
+    clock: Clock = systemClock
   ) {
     this.settings = settings;
+    this.gestures = gestures;
     this.onGesture = onGesture;
+    this.clock = clock;
     this.initializeStateMachines();
   }
 
@@ -225,14 +186,15 @@ export class PerKeyGestureManager {
     allKeys.forEach(key => {
       this.stateMachines.set(
         key,
-        new KeyGestureStateMachine(key, this.settings, this.onGesture)
+        new KeyGestureStateMachine(key, this.settings, this.gestures, this.onGesture, this.clock)
       );
       this.keyDownStates.set(key, false);
     });
   }
 
-  updateSettings(settings: GestureSettings) {
+  updateSettings(settings: GestureSettings, gestures: GestureDefinition[] = this.gestures) {
     this.settings = settings;
+    this.gestures = gestures;
     // Reinitialize all state machines with new settings
     this.initializeStateMachines();
   }
@@ -1,5 +1,6 @@
 import express from "express";
 import routes from "./routes";
+import { MACRO_API_PREFIX } from "../macro-shared/schema";
 
 const app = express();
 const PORT = process.env.MACRO_PORT || 5001;
@@ -7,7 +8,7 @@ const PORT = process.env.MACRO_PORT || 5001;
 app.use(express.json());
 
 // API routes
-app.use(routes);
+app.use(MACRO_API_PREFIX, routes);
 
 // Health check
 app.get("/health", (req, res) => {
@@ -1,15 +1,30 @@
 import { Router } from "express";
+import { z } from "zod";
 import { macroStorage } from "./storage";
-import { insertMacroProfileSchema } from "../macro-shared/schema";
+import {
+  insertMacroProfileSchema,
+  updateMacroProfileSchema,
+  gestureNames,
+  type MacroProfile,
+} from "../macro-shared/schema";
 
+// Paths are relative: mount the router at MACRO_API_PREFIX
 const router = Router();
 
+// Gestures that bindings use but the profile does not define
+function undefinedGestures(profile: Pick<MacroProfile, "gestures" | "macroBindings">): string[] {
+  const defined = gestureNames(profile.gestures);
+  return Array.from(new Set(
+    profile.macroBindings.map(b => b.gestureType).filter(gesture => !defined.includes(gesture))
+  ));
+}
+
 // ============================================================================
 // PROFILE ROUTES
 // ============================================================================
 
 // Get all profiles
-router.get("/api/macro-profiles", async (req, res) => {
+router.get("/macro-profiles", async (req, res) => {
   try {
     const profiles = await macroStorage.getProfiles();
     res.json(profiles);
@@ -19,7 +34,7 @@ router.get("/api/macro-profiles", async (req, res) => {
 });
 
 // Get profile by ID
-router.get("/api/macro-profiles/:id", async (req, res) => {
+router.get("/macro-profiles/:id", async (req, res) => {
   try {
     const profile = await macroStorage.getProfileById(req.params.id);
     if (!profile) {
@@ -32,31 +47,50 @@ router.get("/api/macro-profiles/:id", async (req, res) => {
 });
 
 // Create profile
-router.post("/api/macro-profiles", async (req, res) => {
+router.post("/macro-profiles", async (req, res) => {
   try {
     const validated = insertMacroProfileSchema.parse(req.body);
+    const unknown = undefinedGestures(validated);
+    if (unknown.length > 0) {
+      return res.status(400).json({ error: "Bindings use undefined gestures", details: unknown });
+    }
     const profile = await macroStorage.createProfile(validated);
     res.status(201).json(profile);
   } catch (error) {
-    res.status(400).json({ error: "Invalid profile data" });
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: "Invalid profile data", details: error.errors });
+    }
+    res.status(500).json({ error: "Failed to create profile" });
   }
 });
 
 // Update profile
-router.patch("/api/macro-profiles/:id", async (req, res) => {
+router.patch("/macro-profiles/:id", async (req, res) => {
   try {
-    const profile = await macroStorage.updateProfile(req.params.id, req.body);
-    res.json(profile);
-  } catch (error: any) {
-    if (error.message.includes("not found")) {
+    const validated = updateMacroProfileSchema.parse(req.body);
+    const existing = await macroStorage.getProfileById(req.params.id);
+    if (!existing) {
       return res.status(404).json({ error: "Profile not found" });
     }
-    res.status(400).json({ error: "Failed to update profile" });
+    const unknown = undefinedGestures({
+      gestures: validated.gestures ?? existing.gestures,
+      macroBindings: validated.macroBindings ?? existing.macroBindings,
+    });
+    if (unknown.length > 0) {
+      return res.status(400).json({ error: "Bindings use undefined gestures", details: unknown });
+    }
+    const profile = await macroStorage.updateProfile(req.params.id, validated);
+    res.json(profile);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: "Invalid profile data", details: error.errors });
+    }
+    res.status(500).json({ error: "Failed to update profile" });
   }
 });
 
 // Delete profile
-router.delete("/api/macro-profiles/:id", async (req, res) => {
+router.delete("/macro-profiles/:id", async (req, res) => {
   try {
     await macroStorage.deleteProfile(req.params.id);
     res.status(204).send();
@@ -70,7 +104,7 @@ router.delete("/api/macro-profiles/:id", async (req, res) => {
 // ============================================================================
 
 // Get all abilities
-router.get("/api/abilities", async (req, res) => {
+router.get("/abilities", async (req, res) => {
   try {
     const abilities = await macroStorage.getAbilities();
     res.json(abilities);
@@ -80,7 +114,7 @@ router.get("/api/abilities", async (req, res) => {
 });
 
 // Get ability by ID
-router.get("/api/abilities/:id", async (req, res) => {
+router.get("/abilities/:id", async (req, res) => {
   try {
     const ability = await macroStorage.getAbilityById(req.params.id);
     if (!ability) {
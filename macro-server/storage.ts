@@ -1,4 +1,4 @@
-import { MacroProfile, AbilityTemplate, InsertMacroProfile } from "../macro-shared/schema";
+import { MacroProfile, AbilityTemplate, InsertMacroProfile, DEFAULT_GESTURES } from "../macro-shared/schema";
 import { ABILITY_CATALOG } from "../macro-shared/abilities";
 
 // ============================================================================
@@ -37,7 +37,9 @@ class MemMacroStorage implements IMacroStorage {
         superLongMin: 300,
         superLongMax: 2000,
         cancelThreshold: 3000,
+        superLongOverflow: "ignore",
       },
+      gestures: DEFAULT_GESTURES,
       macroBindings: [],
       createdAt: new Date().toISOString(),
       updatedAt: new Date().toISOString(),
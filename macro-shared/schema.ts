@@ -1,40 +1,52 @@
 import { z } from "zod";
+import {
+  inputKeySchema as agentInputKeySchema,
+  gestureTypeSchema as agentGestureTypeSchema,
+  gestureDefinitionSchema as agentGestureDefinitionSchema,
+  gestureSettingsSchema as agentGestureSettingsSchema,
+  DEFAULT_GESTURES,
+} from "../agent-profile";
+
+// Gesture resolution shared with the local agent
+export {
+  DEFAULT_GESTURES,
+  CANCEL_GESTURE,
+  holdTier,
+  resolveGesture,
+  canExtendGesture,
+  gestureNames,
+  describeGesture,
+  type HoldTier,
+} from "../agent-profile";
+
+// The sequencer API is mounted here, both inside the main server and in the standalone macro-server
+export const MACRO_API_PREFIX = "/api/sequencer";
 
 // ============================================================================
 // INPUT KEYS - 22 Total
 // ============================================================================
 
-export const inputKeySchema = z.enum([
-  // Movement (4)
-  "W", "A", "S", "D",
-  // Actions (8)
-  "B", "I", "T", "C", "H", "Y", "U", "P",
-  // Numbers (6)
-  "1", "2", "3", "4", "5", "6",
-  // Mouse (2)
-  "LEFT_CLICK", "RIGHT_CLICK",
-]);
+// Same keys the local agent detects gestures on
+export const inputKeySchema = agentInputKeySchema;
 
 export type InputKey = z.infer<typeof inputKeySchema>;
 
 // ============================================================================
-// GESTURE TYPES - 9 Variants per Key
+// GESTURE TYPES - Defined per profile
 // ============================================================================
 
-export const gestureTypeSchema = z.enum([
-  "single",              // Single press
-  "long",                // Long press (80-140ms)
-  "double",              // Double press
-  "double_long",         // Double press, 2nd is long
-  "triple",              // Triple press
-  "triple_long",         // Triple press, 3rd is long
-  "quadruple_long",      // Quadruple press, 4th is long
-  "super_long",          // Super long hold (300-2000ms) - Alternative sequence
-  "cancel",              // Very very long hold (>3000ms) - Abort + optional cancel macro
-]);
+// A gesture name; each profile lists its gestures as press count + hold tier.
+// DEFAULT_GESTURES has single, long (80-140ms), double, double_long, triple,
+// triple_long, quadruple_long and super_long (300ms+); cancel (>3000ms hold)
+// is always available.
+export const gestureTypeSchema = agentGestureTypeSchema;
 
 export type GestureType = z.infer<typeof gestureTypeSchema>;
 
+export const gestureDefinitionSchema = agentGestureDefinitionSchema;
+
+export type GestureDefinition = z.infer<typeof gestureDefinitionSchema>;
+
 // ============================================================================
 // TARGET MODIFIERS
 // ============================================================================
@@ -113,22 +125,8 @@ export type MacroBinding = z.infer<typeof macroBindingSchema>;
 // GESTURE SETTINGS - Timing thresholds
 // ============================================================================
 
-export const gestureSettingsSchema = z.object({
-  // Multi-press timing
-  multiPressWindow: z.number().min(100).max(1000).default(350),
-  debounceDelay: z.number().min(0).max(50).default(10),
-  
-  // Long press tiers
-  longPressMin: z.number().min(50).max(150).default(80),
-  longPressMax: z.number().min(100).max(200).default(140),
-  
-  // Super long press
-  superLongMin: z.number().min(200).max(500).default(300),
-  superLongMax: z.number().min(500).max(3000).default(2000),
-  
-  // Cancel threshold
-  cancelThreshold: z.number().min(2500).max(5000).default(3000),
-});
+// Multi-press, long, super long and cancel thresholds, with the ranges the agent accepts
+export const gestureSettingsSchema = agentGestureSettingsSchema;
 
 export type GestureSettings = z.infer<typeof gestureSettingsSchema>;
 
@@ -142,6 +140,7 @@ export const macroProfileSchema = z.object({
   description: z.string().optional(),
   favorite: z.boolean().default(false),
   gestureSettings: gestureSettingsSchema,
+  gestures: z.array(gestureDefinitionSchema).default(DEFAULT_GESTURES),
   macroBindings: z.array(macroBindingSchema),
   createdAt: z.string(),
   updatedAt: z.string(),
@@ -160,6 +159,10 @@ export const insertMacroBindingSchema = macroBindingSchema.omit({ id: true });
 export const insertMacroStepSchema = macroStepSchema.omit({ id: true });
 export const insertAbilityTemplateSchema = abilityTemplateSchema;
 
+// PATCH bodies: any subset of the editable fields
+export const updateMacroProfileSchema = insertMacroProfileSchema.partial();
+
 export type InsertMacroProfile = z.infer<typeof insertMacroProfileSchema>;
+export type UpdateMacroProfile = z.infer<typeof updateMacroProfileSchema>;
 export type InsertMacroBinding = z.infer<typeof insertMacroBindingSchema>;
 export type InsertMacroStep = z.infer<typeof insertMacroStepSchema>;
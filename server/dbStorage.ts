@@ -0,0 +1,286 @@
+import { and, desc, eq, sql } from "drizzle-orm";
+import {
+  profiles,
+  abilities,
+  profileRevisions,
+  sequenceProfiles,
+  type Profile,
+  type InsertProfile,
+  type AbilityRegistry,
+  type Ability,
+  type AbilityRow,
+  type ProfileRevision,
+  type RevisionSource,
+  type SequenceProfile,
+  type InsertSequenceProfile,
+} from "@shared/schema";
+import { toProfileSnapshot } from "@shared/profileHistory";
+import type { IStorage } from "./storage";
+import type { Database } from "./db";
+import { DEFAULT_PROFILE } from "./defaultProfile";
+import { ProfileConflictError, type UpdateProfileOptions } from "./storageErrors";
+
+// Nullable columns come back as null; the Ability schema uses optional fields
+function rowToAbility(row: AbilityRow): Ability {
+  return {
+    id: row.id,
+    canonicalName: row.canonicalName,
+    aliases: row.aliases ?? [],
+    category: row.category ?? undefined,
+    description: row.description ?? undefined,
+    assignedKey: row.assignedKey ?? undefined,
+    icon: row.icon ?? undefined,
+  };
+}
+
+function abilityToRow(ability: Partial<Ability>) {
+  const { id: _id, ...fields } = ability;
+  return {
+    ...fields,
+    ...("category" in fields && { category: fields.category ?? null }),
+    ...("description" in fields && { description: fields.description ?? null }),
+    ...("assignedKey" in fields && { assignedKey: fields.assignedKey ?? null }),
+    ...("icon" in fields && { icon: fields.icon ?? null }),
+  };
+}
+
+type Transaction = Parameters<Parameters<Database["transaction"]>[0]>[0];
+
+export class DbStorage implements IStorage {
+  private db: Database;
+  private seeded: Promise<void> | null = null;
+
+  constructor(db: Database) {
+    this.db = db;
+  }
+
+  // Insert the default profile once if the table is empty, mirroring MemStorage
+  private ensureSeeded(): Promise<void> {
+    if (!this.seeded) {
+      this.seeded = (async () => {
+        const [{ count }] = await this.db
+          .select({ count: sql<number>`count(*)::int` })
+          .from(profiles);
+        if (count === 0) {
+          await this.db.transaction(async (tx) => {
+            const [profile] = await tx.insert(profiles).values(DEFAULT_PROFILE).returning();
+            await this.recordRevision(tx, profile, "create");
+          });
+        }
+      })().catch((error) => {
+        this.seeded = null;
+        throw error;
+      });
+    }
+    return this.seeded;
+  }
+
+  async getAllProfiles(): Promise<Profile[]> {
+    await this.ensureSeeded();
+    return this.db.select().from(profiles).orderBy(profiles.createdAt);
+  }
+
+  async getProfile(id: string): Promise<Profile | undefined> {
+    const [profile] = await this.db.select().from(profiles).where(eq(profiles.id, id));
+    return profile;
+  }
+
+  private async recordRevision(
+    tx: Transaction,
+    profile: Profile,
+    source: RevisionSource,
+    restoredFrom: number | null = null
+  ): Promise<void> {
+    const [{ latest }] = await tx
+      .select({ latest: sql<number>`coalesce(max(${profileRevisions.revision}), 0)::int` })
+      .from(profileRevisions)
+      .where(eq(profileRevisions.profileId, profile.id));
+
+    await tx.insert(profileRevisions).values({
+      profileId: profile.id,
+      revision: latest + 1,
+      source,
+      restoredFrom,
+      snapshot: toProfileSnapshot(profile),
+      createdAt: profile.updatedAt,
+    });
+  }
+
+  private async applyProfileUpdate(
+    id: string,
+    updates: Partial<InsertProfile>,
+    source: RevisionSource,
+    restoredFrom: number | null = null,
+    expectedUpdatedAt?: Date
+  ): Promise<Profile | undefined> {
+    return this.db.transaction(async (tx) => {
+      // The version check is part of the UPDATE so concurrent writers cannot both pass it.
+      // updated_at has microsecond precision while the client only ever saw milliseconds.
+      const versionMatches = expectedUpdatedAt
+        ? sql`date_trunc('milliseconds', ${profiles.updatedAt}) = ${expectedUpdatedAt}`
+        : undefined;
+      const [profile] = await tx
+        .update(profiles)
+        .set({ ...updates, updatedAt: new Date() })
+        .where(and(eq(profiles.id, id), versionMatches))
+        .returning();
+      if (!profile) {
+        if (expectedUpdatedAt) {
+          const [current] = await tx.select().from(profiles).where(eq(profiles.id, id));
+          if (current) {
+            throw new ProfileConflictError(current);
+          }
+        }
+        return undefined;
+      }
+      await this.recordRevision(tx, profile, source, restoredFrom);
+      return profile;
+    });
+  }
+
+  async createProfile(insertProfile: InsertProfile): Promise<Profile> {
+    return this.db.transaction(async (tx) => {
+      const [profile] = await tx.insert(profiles).values(insertProfile).returning();
+      await this.recordRevision(tx, profile, "create");
+      return profile;
+    });
+  }
+
+  async updateProfile(
+    id: string,
+    updates: Partial<InsertProfile>,
+    options: UpdateProfileOptions = {}
+  ): Promise<Profile | undefined> {
+    return this.applyProfileUpdate(id, updates, "update", null, options.expectedUpdatedAt);
+  }
+
+  async deleteProfile(id: string): Promise<boolean> {
+    // Revisions and sequence profiles are removed by ON DELETE CASCADE foreign keys
+    const deleted = await this.db
+      .delete(profiles)
+      .where(eq(profiles.id, id))
+      .returning({ id: profiles.id });
+    return deleted.length > 0;
+  }
+
+  // Revision history operations
+  async getProfileRevisions(profileId: string): Promise<ProfileRevision[]> {
+    return this.db
+      .select()
+      .from(profileRevisions)
+      .where(eq(profileRevisions.profileId, profileId))
+      .orderBy(desc(profileRevisions.revision));
+  }
+
+  async getProfileRevision(profileId: string, revisionId: string): Promise<ProfileRevision | undefined> {
+    const [revision] = await this.db
+      .select()
+      .from(profileRevisions)
+      .where(and(eq(profileRevisions.profileId, profileId), eq(profileRevisions.id, revisionId)));
+    return revision;
+  }
+
+  async restoreProfileRevision(profileId: string, revisionId: string): Promise<Profile | undefined> {
+    const revision = await this.getProfileRevision(profileId, revisionId);
+    if (!revision) {
+      return undefined;
+    }
+    return this.applyProfileUpdate(profileId, revision.snapshot, "restore", revision.revision);
+  }
+
+  // Sequence profile operations
+  async getSequenceProfiles(profileId: string): Promise<SequenceProfile[]> {
+    return this.db
+      .select()
+      .from(sequenceProfiles)
+      .where(eq(sequenceProfiles.profileId, profileId))
+      .orderBy(sequenceProfiles.createdAt);
+  }
+
+  async getSequenceProfile(id: string): Promise<SequenceProfile | undefined> {
+    const [sequenceProfile] = await this.db.select().from(sequenceProfiles).where(eq(sequenceProfiles.id, id));
+    return sequenceProfile;
+  }
+
+  async createSequenceProfile(insertSequenceProfile: InsertSequenceProfile): Promise<SequenceProfile> {
+    const [sequenceProfile] = await this.db
+      .insert(sequenceProfiles)
+      .values(insertSequenceProfile)
+      .returning();
+    return sequenceProfile;
+  }
+
+  async updateSequenceProfile(
+    id: string,
+    updates: Partial<InsertSequenceProfile>
+  ): Promise<SequenceProfile | undefined> {
+    const [sequenceProfile] = await this.db
+      .update(sequenceProfiles)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(sequenceProfiles.id, id))
+      .returning();
+    return sequenceProfile;
+  }
+
+  async deleteSequenceProfile(id: string): Promise<boolean> {
+    const deleted = await this.db
+      .delete(sequenceProfiles)
+      .where(eq(sequenceProfiles.id, id))
+      .returning({ id: sequenceProfiles.id });
+    return deleted.length > 0;
+  }
+
+  // Ability Registry operations
+  async getAbilityRegistry(): Promise<AbilityRegistry> {
+    const rows = await this.db.select().from(abilities).orderBy(abilities.canonicalName);
+    const lastUpdated = rows.reduce<Date | null>(
+      (latest, row) => (!latest || row.updatedAt > latest ? row.updatedAt : latest),
+      null
+    );
+    return {
+      abilities: rows.map(rowToAbility),
+      lastUpdated: (lastUpdated ?? new Date()).toISOString(),
+    };
+  }
+
+  async updateAbilityRegistry(registry: AbilityRegistry): Promise<AbilityRegistry> {
+    await this.db.transaction(async (tx) => {
+      await tx.delete(abilities);
+      if (registry.abilities.length > 0) {
+        await tx.insert(abilities).values(
+          registry.abilities.map((ability) => ({
+            ...abilityToRow(ability),
+            id: ability.id,
+            canonicalName: ability.canonicalName,
+          }))
+        );
+      }
+    });
+    return this.getAbilityRegistry();
+  }
+
+  async addAbility(abilityData: Omit<Ability, 'id'>): Promise<Ability> {
+    const [row] = await this.db
+      .insert(abilities)
+      .values({ ...abilityToRow(abilityData), canonicalName: abilityData.canonicalName })
+      .returning();
+    return rowToAbility(row);
+  }
+
+  async updateAbility(id: string, updates: Partial<Ability>): Promise<Ability | undefined> {
+    const [row] = await this.db
+      .update(abilities)
+      .set({ ...abilityToRow(updates), updatedAt: new Date() })
+      .where(eq(abilities.id, id))
+      .returning();
+    return row ? rowToAbility(row) : undefined;
+  }
+
+  async deleteAbility(id: string): Promise<boolean> {
+    const deleted = await this.db
+      .delete(abilities)
+      .where(eq(abilities.id, id))
+      .returning({ id: abilities.id });
+    return deleted.length > 0;
+  }
+}
@@ -0,0 +1,57 @@
+import type { InsertProfile } from "@shared/schema";
+
+// Seed profile shared by every storage driver so a fresh store is never empty
+export const DEFAULT_PROFILE: InsertProfile & { description: string | null; favorite: boolean } = {
+  name: "Default Profile",
+  description: "Standard gaming configuration",
+  favorite: false,
+  devices: {
+    keyboard: {
+      enabled: true,
+      sharpKeysCompat: true,
+      customKeyMap: {},
+      detectRemapping: true,
+    },
+    azeron: {
+      enabled: true,
+      buttonCount: 29,
+      thumbPad: true,
+      sensitivity: 50,
+    },
+    razerMMO: {
+      enabled: true,
+      sideButtons: 12,
+      dpiStages: [800, 1600, 3200],
+      pollingRate: 1000,
+    },
+    swiftpoint: {
+      enabled: true,
+      tiltSensors: true,
+      tiltSensitivity: 50,
+      hapticFeedback: true,
+    },
+    fsrSensor: {
+      enabled: true,
+      analogThresholds: [0, 25, 50, 75, 100],
+      calibrationCurve: "linear",
+      deadzone: 5,
+    },
+  },
+  gestureSettings: {
+    multiPressWindow: 350,
+    longPressMin: 80,
+    longPressMax: 140,
+    cancelThreshold: 200,
+    debounceDelay: 10,
+    chargeMinHold: 300,
+    chargeMaxHold: 2000,
+    outputKeyPadding: 25,
+  },
+  inputMappings: [],
+  modifierDefaults: {
+    ctrl: false,
+    shift: false,
+    alt: false,
+  },
+  abilityBindings: [],
+};
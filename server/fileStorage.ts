@@ -0,0 +1,574 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { randomUUID } from "crypto";
+import {
+  DEFAULT_GESTURES,
+  DEFAULT_SAFETY,
+  type Profile,
+  type InsertProfile,
+  type AbilityRegistry,
+  type Ability,
+  type ProfileRevision,
+  type RevisionSource,
+  type SequenceProfile,
+  type InsertSequenceProfile,
+} from "@shared/schema";
+import { toProfileSnapshot } from "@shared/profileHistory";
+import type { IStorage } from "./storage";
+import { DEFAULT_PROFILE } from "./defaultProfile";
+import { ProfileConflictError, isSameVersion, type UpdateProfileOptions } from "./storageErrors";
+
+// ============================================================================
+// FILE STORAGE - JSON files in a local data directory
+// ============================================================================
+//
+// Layout:
+//   <dataDir>/profiles/<id>.json   one file per profile
+//   <dataDir>/revisions/<id>.json  revision history for that profile
+//   <dataDir>/sequence-profiles/<id>.json  one file per macro sequence profile
+//   <dataDir>/abilities.json       the whole ability registry
+//   <dataDir>/.lock                held while a process mutates the directory
+//
+// Every write goes to a temp file in the same directory and is renamed over
+// the target, so readers never observe a half-written file. Mutations take
+// the directory lock and re-read from disk, so two server processes sharing
+// one directory serialize instead of overwriting each other.
+
+const LOCK_FILE = ".lock";
+const LOCK_RETRY_MS = 25;
+const LOCK_TIMEOUT_MS = 5000;
+const LOCK_STALE_MS = 30000;
+
+// Profile ids become file names, so anything outside this set is rejected
+const SAFE_ID = /^[A-Za-z0-9_-]+$/;
+
+type StoredProfile = Omit<Profile, "createdAt" | "updatedAt"> & {
+  createdAt: string;
+  updatedAt: string;
+};
+
+type StoredRevision = Omit<ProfileRevision, "createdAt"> & { createdAt: string };
+
+// gestures and safety were added later; older files lack them
+type StoredSequenceProfile = Omit<SequenceProfile, "createdAt" | "updatedAt" | "gestures" | "safety"> &
+  Partial<Pick<SequenceProfile, "gestures" | "safety">> & {
+  createdAt: string;
+  updatedAt: string;
+};
+
+function fromStored(stored: StoredProfile): Profile {
+  return {
+    ...stored,
+    createdAt: new Date(stored.createdAt),
+    updatedAt: new Date(stored.updatedAt),
+  };
+}
+
+function revisionFromStored(stored: StoredRevision): ProfileRevision {
+  return { ...stored, createdAt: new Date(stored.createdAt) };
+}
+
+function sequenceProfileFromStored(stored: StoredSequenceProfile): SequenceProfile {
+  return {
+    ...stored,
+    gestures: stored.gestures ?? DEFAULT_GESTURES,
+    safety: stored.safety ?? DEFAULT_SAFETY,
+    createdAt: new Date(stored.createdAt),
+    updatedAt: new Date(stored.updatedAt),
+  };
+}
+
+function isNotFound(error: unknown): boolean {
+  return (error as NodeJS.ErrnoException).code === "ENOENT";
+}
+
+// Owner id written into the lock file by acquireLock, or undefined if unreadable
+function lockOwner(content: string): string | undefined {
+  try {
+    return (JSON.parse(content) as { owner?: string }).owner;
+  } catch {
+    return undefined;
+  }
+}
+
+function isProcessAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (error) {
+    return (error as NodeJS.ErrnoException).code === "EPERM";
+  }
+}
+
+export class FileStorage implements IStorage {
+  private dataDir: string;
+  private profileDir: string;
+  private revisionDir: string;
+  private sequenceProfileDir: string;
+  private abilityFile: string;
+  private lockFile: string;
+  private ready: Promise<void> | null = null;
+
+  constructor(dataDir: string) {
+    this.dataDir = path.resolve(dataDir);
+    this.profileDir = path.join(this.dataDir, "profiles");
+    this.revisionDir = path.join(this.dataDir, "revisions");
+    this.sequenceProfileDir = path.join(this.dataDir, "sequence-profiles");
+    this.abilityFile = path.join(this.dataDir, "abilities.json");
+    this.lockFile = path.join(this.dataDir, LOCK_FILE);
+  }
+
+  // Create the directory tree and seed the default profile on first use
+  private ensureReady(): Promise<void> {
+    if (!this.ready) {
+      this.ready = (async () => {
+        await fs.mkdir(this.profileDir, { recursive: true });
+        await fs.mkdir(this.revisionDir, { recursive: true });
+        await fs.mkdir(this.sequenceProfileDir, { recursive: true });
+        await this.withLock(async () => {
+          const files = await this.listProfileFiles();
+          if (files.length === 0) {
+            const now = new Date();
+            const profile: Profile = {
+              ...DEFAULT_PROFILE,
+              id: "default-profile",
+              createdAt: now,
+              updatedAt: now,
+            };
+            await this.writeProfile(profile);
+            await this.recordRevision(profile, "create");
+          }
+        });
+      })().catch((error) => {
+        this.ready = null;
+        throw error;
+      });
+    }
+    return this.ready;
+  }
+
+  // ==========================================================================
+  // LOCKING
+  // ==========================================================================
+
+  // Returns the owner id written into the lock, needed to release it
+  private async acquireLock(): Promise<string> {
+    const deadline = Date.now() + LOCK_TIMEOUT_MS;
+    const owner = randomUUID();
+
+    while (true) {
+      try {
+        const handle = await fs.open(this.lockFile, "wx");
+        await handle.writeFile(JSON.stringify({ pid: process.pid, acquiredAt: Date.now(), owner }));
+        await handle.close();
+        return owner;
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== "EEXIST") throw error;
+      }
+
+      if (await this.clearStaleLock()) continue;
+
+      if (Date.now() >= deadline) {
+        throw new Error(`Timed out waiting for storage lock at ${this.lockFile}`);
+      }
+      await new Promise((resolve) => setTimeout(resolve, LOCK_RETRY_MS));
+    }
+  }
+
+  // Another process may replace the lock between our read and our delete,
+  // so the lock is renamed away first (only one process can move it) and
+  // put back unless its content is still what we read.
+  private async removeLockIf(isExpected: (content: string) => boolean): Promise<boolean> {
+    const movedPath = `${this.lockFile}.${process.pid}.${randomUUID()}.stale`;
+    await fs.rename(this.lockFile, movedPath);
+    try {
+      if (!isExpected(await fs.readFile(movedPath, "utf-8"))) {
+        // Someone else's live lock: link fails rather than overwrite a newer one
+        await fs.link(movedPath, this.lockFile).catch(() => {});
+        return false;
+      }
+      return true;
+    } finally {
+      await fs.rm(movedPath, { force: true });
+    }
+  }
+
+  // A lock left behind by a crashed process would otherwise block forever
+  private async clearStaleLock(): Promise<boolean> {
+    try {
+      const content = await fs.readFile(this.lockFile, "utf-8");
+      const { pid, acquiredAt } = JSON.parse(content) as { pid: number; acquiredAt: number };
+      const stale = !isProcessAlive(pid) || Date.now() - acquiredAt > LOCK_STALE_MS;
+      if (!stale) return false;
+
+      return await this.removeLockIf((moved) => moved === content);
+    } catch (error) {
+      // Lock vanished between open and read, or another process moved it
+      // first, or it is mid-write - just retry
+      return isNotFound(error);
+    }
+  }
+
+  // Only our own lock is removed. If we held it past LOCK_STALE_MS, another
+  // process may have cleared it and taken its own, which must stay.
+  private async releaseLock(owner: string): Promise<void> {
+    try {
+      if (lockOwner(await fs.readFile(this.lockFile, "utf-8")) !== owner) return;
+      await this.removeLockIf((moved) => lockOwner(moved) === owner);
+    } catch (error) {
+      if (!isNotFound(error)) throw error;
+    }
+  }
+
+  private async withLock<T>(fn: () => Promise<T>): Promise<T> {
+    const owner = await this.acquireLock();
+    try {
+      return await fn();
+    } finally {
+      await this.releaseLock(owner);
+    }
+  }
+
+  // ==========================================================================
+  // FILE HELPERS
+  // ==========================================================================
+
+  private async writeAtomic(filepath: string, data: unknown): Promise<void> {
+    const tempPath = `${filepath}.${process.pid}.${randomUUID()}.tmp`;
+    try {
+      await fs.writeFile(tempPath, JSON.stringify(data, null, 2), "utf-8");
+      await fs.rename(tempPath, filepath);
+    } catch (error) {
+      await fs.rm(tempPath, { force: true });
+      throw error;
+    }
+  }
+
+  private async readJson<T>(filepath: string): Promise<T | undefined> {
+    try {
+      return JSON.parse(await fs.readFile(filepath, "utf-8")) as T;
+    } catch (error) {
+      if (isNotFound(error)) return undefined;
+      throw error;
+    }
+  }
+
+  private profilePath(id: string): string {
+    return path.join(this.profileDir, `${id}.json`);
+  }
+
+  private async listProfileFiles(): Promise<string[]> {
+    const entries = await fs.readdir(this.profileDir);
+    return entries.filter((f) => f.endsWith(".json"));
+  }
+
+  private async readProfile(id: string): Promise<Profile | undefined> {
+    if (!SAFE_ID.test(id)) return undefined;
+    const stored = await this.readJson<StoredProfile>(this.profilePath(id));
+    return stored ? fromStored(stored) : undefined;
+  }
+
+  private async writeProfile(profile: Profile): Promise<void> {
+    await this.writeAtomic(this.profilePath(profile.id), profile);
+  }
+
+  private revisionPath(profileId: string): string {
+    return path.join(this.revisionDir, `${profileId}.json`);
+  }
+
+  // Oldest first, as stored on disk
+  private async readRevisions(profileId: string): Promise<ProfileRevision[]> {
+    if (!SAFE_ID.test(profileId)) return [];
+    const stored = await this.readJson<StoredRevision[]>(this.revisionPath(profileId));
+    return (stored ?? []).map(revisionFromStored);
+  }
+
+  // Caller must hold the lock
+  private async recordRevision(
+    profile: Profile,
+    source: RevisionSource,
+    restoredFrom: number | null = null
+  ): Promise<void> {
+    const history = await this.readRevisions(profile.id);
+    history.push({
+      id: randomUUID(),
+      profileId: profile.id,
+      revision: (history[history.length - 1]?.revision ?? 0) + 1,
+      source,
+      restoredFrom,
+      snapshot: toProfileSnapshot(profile),
+      createdAt: profile.updatedAt,
+    });
+    await this.writeAtomic(this.revisionPath(profile.id), history);
+  }
+
+  private async applyProfileUpdate(
+    id: string,
+    updates: Partial<InsertProfile>,
+    source: RevisionSource,
+    restoredFrom: number | null = null,
+    expectedUpdatedAt?: Date
+  ): Promise<Profile | undefined> {
+    const existing = await this.readProfile(id);
+    if (!existing) {
+      return undefined;
+    }
+    if (expectedUpdatedAt && !isSameVersion(existing.updatedAt, expectedUpdatedAt)) {
+      throw new ProfileConflictError(existing);
+    }
+
+    const updated: Profile = {
+      ...existing,
+      ...updates,
+      id,
+      updatedAt: new Date(),
+    };
+    await this.writeProfile(updated);
+    await this.recordRevision(updated, source, restoredFrom);
+    return updated;
+  }
+
+  private sequenceProfilePath(id: string): string {
+    return path.join(this.sequenceProfileDir, `${id}.json`);
+  }
+
+  private async readSequenceProfile(id: string): Promise<SequenceProfile | undefined> {
+    if (!SAFE_ID.test(id)) return undefined;
+    const stored = await this.readJson<StoredSequenceProfile>(this.sequenceProfilePath(id));
+    return stored ? sequenceProfileFromStored(stored) : undefined;
+  }
+
+  private async readAllSequenceProfiles(): Promise<SequenceProfile[]> {
+    const files = (await fs.readdir(this.sequenceProfileDir)).filter((f) => f.endsWith(".json"));
+    const loaded = await Promise.all(files.map((f) => this.readSequenceProfile(f.slice(0, -".json".length))));
+    return loaded.filter((sp): sp is SequenceProfile => sp !== undefined);
+  }
+
+  private async readRegistry(): Promise<AbilityRegistry> {
+    const registry = await this.readJson<AbilityRegistry>(this.abilityFile);
+    return registry ?? { abilities: [], lastUpdated: new Date().toISOString() };
+  }
+
+  private async writeRegistry(registry: AbilityRegistry): Promise<AbilityRegistry> {
+    const updated = { ...registry, lastUpdated: new Date().toISOString() };
+    await this.writeAtomic(this.abilityFile, updated);
+    return updated;
+  }
+
+  // ==========================================================================
+  // PROFILE OPERATIONS
+  // ==========================================================================
+
+  async getAllProfiles(): Promise<Profile[]> {
+    await this.ensureReady();
+    const files = await this.listProfileFiles();
+    const loaded = await Promise.all(files.map((f) => this.readProfile(f.slice(0, -".json".length))));
+    return loaded
+      .filter((p): p is Profile => p !== undefined)
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  }
+
+  async getProfile(id: string): Promise<Profile | undefined> {
+    await this.ensureReady();
+    return this.readProfile(id);
+  }
+
+  async createProfile(insertProfile: InsertProfile): Promise<Profile> {
+    await this.ensureReady();
+    const now = new Date();
+    const profile: Profile = {
+      ...insertProfile,
+      description: insertProfile.description ?? null,
+      favorite: insertProfile.favorite ?? false,
+      id: randomUUID(),
+      createdAt: now,
+      updatedAt: now,
+    };
+    await this.withLock(async () => {
+      await this.writeProfile(profile);
+      await this.recordRevision(profile, "create");
+    });
+    return profile;
+  }
+
+  async updateProfile(
+    id: string,
+    updates: Partial<InsertProfile>,
+    options: UpdateProfileOptions = {}
+  ): Promise<Profile | undefined> {
+    await this.ensureReady();
+    return this.withLock(() =>
+      this.applyProfileUpdate(id, updates, "update", null, options.expectedUpdatedAt)
+    );
+  }
+
+  async deleteProfile(id: string): Promise<boolean> {
+    await this.ensureReady();
+    if (!SAFE_ID.test(id)) return false;
+    return this.withLock(async () => {
+      try {
+        await fs.unlink(this.profilePath(id));
+        await fs.rm(this.revisionPath(id), { force: true });
+        const linked = (await this.readAllSequenceProfiles()).filter((sp) => sp.profileId === id);
+        await Promise.all(linked.map((sp) => fs.rm(this.sequenceProfilePath(sp.id), { force: true })));
+        return true;
+      } catch (error) {
+        if (isNotFound(error)) return false;
+        throw error;
+      }
+    });
+  }
+
+  // ==========================================================================
+  // REVISION HISTORY OPERATIONS
+  // ==========================================================================
+
+  async getProfileRevisions(profileId: string): Promise<ProfileRevision[]> {
+    await this.ensureReady();
+    return (await this.readRevisions(profileId)).reverse();
+  }
+
+  async getProfileRevision(profileId: string, revisionId: string): Promise<ProfileRevision | undefined> {
+    await this.ensureReady();
+    return (await this.readRevisions(profileId)).find(r => r.id === revisionId);
+  }
+
+  async restoreProfileRevision(profileId: string, revisionId: string): Promise<Profile | undefined> {
+    await this.ensureReady();
+    return this.withLock(async () => {
+      const revision = (await this.readRevisions(profileId)).find(r => r.id === revisionId);
+      if (!revision) {
+        return undefined;
+      }
+      return this.applyProfileUpdate(profileId, revision.snapshot, "restore", revision.revision);
+    });
+  }
+
+  // ==========================================================================
+  // SEQUENCE PROFILE OPERATIONS
+  // ==========================================================================
+
+  async getSequenceProfiles(profileId: string): Promise<SequenceProfile[]> {
+    await this.ensureReady();
+    return (await this.readAllSequenceProfiles())
+      .filter((sp) => sp.profileId === profileId)
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  }
+
+  async getSequenceProfile(id: string): Promise<SequenceProfile | undefined> {
+    await this.ensureReady();
+    return this.readSequenceProfile(id);
+  }
+
+  async createSequenceProfile(insertSequenceProfile: InsertSequenceProfile): Promise<SequenceProfile> {
+    await this.ensureReady();
+    const now = new Date();
+    const sequenceProfile: SequenceProfile = {
+      ...insertSequenceProfile,
+      description: insertSequenceProfile.description ?? null,
+      id: randomUUID(),
+      createdAt: now,
+      updatedAt: now,
+    };
+    await this.withLock(() => this.writeAtomic(this.sequenceProfilePath(sequenceProfile.id), sequenceProfile));
+    return sequenceProfile;
+  }
+
+  async updateSequenceProfile(
+    id: string,
+    updates: Partial<InsertSequenceProfile>
+  ): Promise<SequenceProfile | undefined> {
+    await this.ensureReady();
+    return this.withLock(async () => {
+      const existing = await this.readSequenceProfile(id);
+      if (!existing) {
+        return undefined;
+      }
+
+      const updated: SequenceProfile = {
+        ...existing,
+        ...updates,
+        description: updates.description === undefined ? existing.description : updates.description,
+        id,
+        updatedAt: new Date(),
+      };
+      await this.writeAtomic(this.sequenceProfilePath(id), updated);
+      return updated;
+    });
+  }
+
+  async deleteSequenceProfile(id: string): Promise<boolean> {
+    await this.ensureReady();
+    if (!SAFE_ID.test(id)) return false;
+    return this.withLock(async () => {
+      try {
+        await fs.unlink(this.sequenceProfilePath(id));
+        return true;
+      } catch (error) {
+        if (isNotFound(error)) return false;
+        throw error;
+      }
+    });
+  }
+
+  // ==========================================================================
+  // ABILITY REGISTRY OPERATIONS
+  // ==========================================================================
+
+  async getAbilityRegistry(): Promise<AbilityRegistry> {
+    await this.ensureReady();
+    return this.readRegistry();
+  }
+
+  async updateAbilityRegistry(registry: AbilityRegistry): Promise<AbilityRegistry> {
+    await this.ensureReady();
+    return this.withLock(() => this.writeRegistry(registry));
+  }
+
+  async addAbility(abilityData: Omit<Ability, 'id'>): Promise<Ability> {
+    await this.ensureReady();
+    return this.withLock(async () => {
+      const registry = await this.readRegistry();
+      const ability: Ability = {
+        ...abilityData,
+        id: randomUUID(),
+      };
+      registry.abilities.push(ability);
+      await this.writeRegistry(registry);
+      return ability;
+    });
+  }
+
+  async updateAbility(id: string, updates: Partial<Ability>): Promise<Ability | undefined> {
+    await this.ensureReady();
+    return this.withLock(async () => {
+      const registry = await this.readRegistry();
+      const index = registry.abilities.findIndex(a => a.id === id);
+      if (index === -1) {
+        return undefined;
+      }
+
+      registry.abilities[index] = {
+        ...registry.abilities[index],
+        ...updates,
+        id, // Preserve the original ID
+      };
+      await this.writeRegistry(registry);
+      return registry.abilities[index];
+    });
+  }
+
+  async deleteAbility(id: string): Promise<boolean> {
+    await this.ensureReady();
+    return this.withLock(async () => {
+      const registry = await this.readRegistry();
+      const index = registry.abilities.findIndex(a => a.id === id);
+      if (index === -1) {
+        return false;
+      }
+      registry.abilities.splice(index, 1);
+      await this.writeRegistry(registry);
+      return true;
+    });
+  }
+}
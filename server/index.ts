@@ -10,6 +10,8 @@ declare module 'http' {
   }
 }
 app.use(express.json({
+  // Also accept application/merge-patch+json and application/json-patch+json
+  type: ["application/json", "application/*+json"],
   verify: (req, _res, buf) => {
     req.rawBody = buf;
   }
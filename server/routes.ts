@@ -1,8 +1,89 @@
-import type { Express } from "express";
+import type { Express, Request, Response } from "express";
 import { createServer, type Server } from "http";
+import { randomUUID } from "crypto";
 import { storage } from "./storage";
-import { insertProfileSchema, profileSchema, abilitySchema, abilityRegistrySchema } from "@shared/schema";
+import { ProfileConflictError } from "./storageErrors";
+import {
+  insertProfileSchema,
+  profileSchema,
+  abilitySchema,
+  abilityRegistrySchema,
+  insertSequenceProfileSchema,
+  validateMacroProfile,
+  diagnosticsFromZodError,
+  toMacroProfile,
+  type InsertProfile,
+  type Profile,
+} from "@shared/schema";
+import { diffProfileSnapshots, toProfileSnapshot } from "@shared/profileHistory";
+import { exportAgentProfile, agentProfileFilename } from "@shared/agentExport";
+import {
+  abilitiesToCsv,
+  abilityImportRequestSchema,
+  abilityTransferFormatSchema,
+  applyAbilityImport,
+  parseAbilityImport,
+  planAbilityImport,
+  type AbilityImportRequest,
+} from "@shared/abilityTransfer";
+import { applyJsonPatch, applyMergePatch, jsonPatchSchema, JsonPatchError } from "@shared/jsonPatch";
 import { z } from "zod";
+import macroRoutes from "../macro-server/routes";
+import { MACRO_API_PREFIX } from "../macro-shared/schema";
+
+// A profile's version is its updatedAt timestamp in milliseconds
+function profileETag(profile: Profile): string {
+  return `"${new Date(profile.updatedAt).getTime()}"`;
+}
+
+function sendProfile(res: Response, profile: Profile, status = 200) {
+  res.status(status).set("ETag", profileETag(profile)).json(profile);
+}
+
+function sendConflict(res: Response, current: Profile) {
+  res
+    .status(409)
+    .set("ETag", profileETag(current))
+    .json({ error: "Profile was modified by another client", current });
+}
+
+// If-Match may list several tags; "*" matches any existing profile
+function ifMatchSatisfied(header: string, profile: Profile): boolean {
+  const current = profileETag(profile);
+  return header
+    .split(",")
+    .map((tag) => tag.trim().replace(/^W\//, ""))
+    .some((tag) => tag === "*" || tag === current);
+}
+
+// Parse an import request and plan it against the current registry
+async function planImport(request: AbilityImportRequest) {
+  const registry = await storage.getAbilityRegistry();
+  const { abilities, errors } = parseAbilityImport(request.format, request.content);
+  return { registry, plan: planAbilityImport(registry, abilities, errors) };
+}
+
+/**
+ * Turn a PATCH body into profile updates according to its Content-Type:
+ * - application/json-patch+json: RFC 6902 operations against the stored profile
+ * - application/merge-patch+json: RFC 7396 deep merge into the stored profile
+ * - application/json: top-level fields replace the stored ones as a whole
+ * Patched documents are validated as complete profiles.
+ */
+function resolveProfileUpdates(req: Request, existing: Profile): Partial<InsertProfile> {
+  let patched: unknown;
+  if (req.is("application/json-patch+json")) {
+    patched = applyJsonPatch(toProfileSnapshot(existing), jsonPatchSchema.parse(req.body));
+  } else if (req.is("application/merge-patch+json")) {
+    patched = applyMergePatch(toProfileSnapshot(existing), req.body);
+  } else {
+    return insertProfileSchema.partial().parse(req.body);
+  }
+
+  const validated = insertProfileSchema.parse(patched);
+  // A removed description means "no description" rather than "leave unchanged"
+  return { ...validated, description: validated.description ?? null };
+}
 
 export async function registerRoutes(app: Express): Promise<Server> {
   // Get all profiles
@@ -22,7 +103,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (!profile) {
         return res.status(404).json({ error: "Profile not found" });
       }
-      res.json(profile);
+      sendProfile(res, profile);
     } catch (error) {
       res.status(500).json({ error: "Failed to fetch profile" });
     }
@@ -33,7 +114,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       const validated = insertProfileSchema.parse(req.body);
       const profile = await storage.createProfile(validated);
-      res.status(201).json(profile);
+      sendProfile(res, profile, 201);
     } catch (error) {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ error: "Invalid profile data", details: error.errors });
@@ -42,16 +123,45 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Update existing profile
+  // Update existing profile. Send If-Match with the ETag from a previous
+  // response to reject the write (409) if someone else saved in between.
   app.patch("/api/profiles/:id", async (req, res) => {
     try {
-      const validated = insertProfileSchema.partial().parse(req.body);
-      const profile = await storage.updateProfile(req.params.id, validated);
+      const existing = await storage.getProfile(req.params.id);
+      if (!existing) {
+        return res.status(404).json({ error: "Profile not found" });
+      }
+
+      const ifMatch = req.get("If-Match");
+      if (ifMatch && !ifMatchSatisfied(ifMatch, existing)) {
+        return sendConflict(res, existing);
+      }
+
+      const updates = resolveProfileUpdates(req, existing);
+      // Patches were computed against `existing`, so they must land on exactly that version
+      const isPatch = Boolean(req.is(["application/json-patch+json", "application/merge-patch+json"]));
+      const profile = await storage.updateProfile(
+        req.params.id,
+        updates,
+        ifMatch || isPatch ? { expectedUpdatedAt: existing.updatedAt } : {}
+      );
       if (!profile) {
         return res.status(404).json({ error: "Profile not found" });
       }
-      res.json(profile);
+      sendProfile(res, profile);
     } catch (error) {
+      if (error instanceof ProfileConflictError) {
+        return sendConflict(res, error.current);
+      }
+      if (error instanceof JsonPatchError) {
+        if (error.testFailed) {
+          const current = await storage.getProfile(req.params.id);
+          if (current) {
+            return sendConflict(res, current);
+          }
+        }
+        return res.status(422).json({ error: "Patch could not be applied", details: error.message });
+      }
       if (error instanceof z.ZodError) {
         return res.status(400).json({ error: "Invalid profile data", details: error.errors });
       }
@@ -72,14 +182,201 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Validate imported profile
+  // ============================================================================
+  // PROFILE REVISION ROUTES
+  // ============================================================================
+
+  // List revisions for a profile (newest first, snapshots omitted)
+  app.get("/api/profiles/:id/revisions", async (req, res) => {
+    try {
+      const profile = await storage.getProfile(req.params.id);
+      if (!profile) {
+        return res.status(404).json({ error: "Profile not found" });
+      }
+      const revisions = await storage.getProfileRevisions(req.params.id);
+      res.json(revisions.map(({ snapshot, ...summary }) => summary));
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch revisions" });
+    }
+  });
+
+  // Diff two revisions: ?from=<revisionId>&to=<revisionId>
+  app.get("/api/profiles/:id/revisions/diff", async (req, res) => {
+    try {
+      const { from, to } = z.object({ from: z.string(), to: z.string() }).parse(req.query);
+      const [fromRevision, toRevision] = await Promise.all([
+        storage.getProfileRevision(req.params.id, from),
+        storage.getProfileRevision(req.params.id, to),
+      ]);
+      if (!fromRevision || !toRevision) {
+        return res.status(404).json({ error: "Revision not found" });
+      }
+      res.json({
+        from: fromRevision.revision,
+        to: toRevision.revision,
+        diff: diffProfileSnapshots(fromRevision.snapshot, toRevision.snapshot),
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Both from and to revision ids are required", details: error.errors });
+      }
+      res.status(500).json({ error: "Failed to diff revisions" });
+    }
+  });
+
+  // Get a single revision including its snapshot
+  app.get("/api/profiles/:id/revisions/:revisionId", async (req, res) => {
+    try {
+      const revision = await storage.getProfileRevision(req.params.id, req.params.revisionId);
+      if (!revision) {
+        return res.status(404).json({ error: "Revision not found" });
+      }
+      res.json(revision);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch revision" });
+    }
+  });
+
+  // Restore a revision as the current profile (recorded as a new revision)
+  app.post("/api/profiles/:id/revisions/:revisionId/restore", async (req, res) => {
+    try {
+      const profile = await storage.restoreProfileRevision(req.params.id, req.params.revisionId);
+      if (!profile) {
+        return res.status(404).json({ error: "Revision not found" });
+      }
+      sendProfile(res, profile);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to restore revision" });
+    }
+  });
+
+  // ============================================================================
+  // SEQUENCE PROFILE ROUTES - Macro sequences linked to a profile
+  // ============================================================================
+
+  // List sequence profiles for a profile
+  app.get("/api/profiles/:id/sequence-profiles", async (req, res) => {
+    try {
+      const profile = await storage.getProfile(req.params.id);
+      if (!profile) {
+        return res.status(404).json({ error: "Profile not found" });
+      }
+      const sequenceProfiles = await storage.getSequenceProfiles(req.params.id);
+      res.json(sequenceProfiles);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch sequence profiles" });
+    }
+  });
+
+  // Get single sequence profile
+  app.get("/api/sequence-profiles/:id", async (req, res) => {
+    try {
+      const sequenceProfile = await storage.getSequenceProfile(req.params.id);
+      if (!sequenceProfile) {
+        return res.status(404).json({ error: "Sequence profile not found" });
+      }
+      res.json(sequenceProfile);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch sequence profile" });
+    }
+  });
+
+  // Create sequence profile
+  app.post("/api/sequence-profiles", async (req, res) => {
+    try {
+      const validated = insertSequenceProfileSchema.parse(req.body);
+      const sequenceValidation = validateMacroProfile(validated);
+      if (!sequenceValidation.valid) {
+        return res.status(400).json({ error: "Invalid macro sequences", diagnostics: sequenceValidation.diagnostics });
+      }
+      const profile = await storage.getProfile(validated.profileId);
+      if (!profile) {
+        return res.status(404).json({ error: "Profile not found" });
+      }
+      const sequenceProfile = await storage.createSequenceProfile(validated);
+      res.status(201).json(sequenceProfile);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid sequence profile data", diagnostics: diagnosticsFromZodError(error) });
+      }
+      res.status(500).json({ error: "Failed to create sequence profile" });
+    }
+  });
+
+  // Update sequence profile
+  app.patch("/api/sequence-profiles/:id", async (req, res) => {
+    try {
+      const validated = insertSequenceProfileSchema.partial().parse(req.body);
+      if (validated.macros || validated.gestures) {
+        // Triggers are checked against the gestures, so validate the merged result
+        const existing = await storage.getSequenceProfile(req.params.id);
+        if (!existing) {
+          return res.status(404).json({ error: "Sequence profile not found" });
+        }
+        const sequenceValidation = validateMacroProfile({
+          macros: validated.macros ?? existing.macros,
+          gestures: validated.gestures ?? existing.gestures,
+        });
+        if (!sequenceValidation.valid) {
+          return res.status(400).json({ error: "Invalid macro sequences", diagnostics: sequenceValidation.diagnostics });
+        }
+      }
+      if (validated.profileId && !(await storage.getProfile(validated.profileId))) {
+        return res.status(404).json({ error: "Profile not found" });
+      }
+      const sequenceProfile = await storage.updateSequenceProfile(req.params.id, validated);
+      if (!sequenceProfile) {
+        return res.status(404).json({ error: "Sequence profile not found" });
+      }
+      res.json(sequenceProfile);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid sequence profile data", diagnostics: diagnosticsFromZodError(error) });
+      }
+      res.status(500).json({ error: "Failed to update sequence profile" });
+    }
+  });
+
+  // Export as a ready-to-load local-macro-agent profile (422 with diagnostics if the agent would reject it)
+  app.get("/api/sequence-profiles/:id/agent-export", async (req, res) => {
+    try {
+      const sequenceProfile = await storage.getSequenceProfile(req.params.id);
+      if (!sequenceProfile) {
+        return res.status(404).json({ error: "Sequence profile not found" });
+      }
+      const result = exportAgentProfile(toMacroProfile(sequenceProfile));
+      if (!result.valid) {
+        return res.status(422).json({ error: "Profile failed agent validation", diagnostics: result.diagnostics });
+      }
+      res
+        .set("Content-Disposition", `attachment; filename="${agentProfileFilename(sequenceProfile.name)}"`)
+        .json(result.profile);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to export sequence profile" });
+    }
+  });
+
+  // Delete sequence profile
+  app.delete("/api/sequence-profiles/:id", async (req, res) => {
+    try {
+      const success = await storage.deleteSequenceProfile(req.params.id);
+      if (!success) {
+        return res.status(404).json({ error: "Sequence profile not found" });
+      }
+      res.status(204).send();
+    } catch (error) {
+      res.status(500).json({ error: "Failed to delete sequence profile" });
+    }
+  });
+
+  // Validate imported profile; problems come back as diagnostics with JSON paths
   app.post("/api/profiles/validate", async (req, res) => {
     try {
       const validated = profileSchema.parse(req.body);
-      res.json({ valid: true, profile: validated });
+      res.json({ valid: true, profile: validated, diagnostics: [] });
     } catch (error) {
       if (error instanceof z.ZodError) {
-        return res.status(400).json({ valid: false, errors: error.errors });
+        return res.status(400).json({ valid: false, diagnostics: diagnosticsFromZodError(error) });
       }
       res.status(500).json({ valid: false, error: "Validation failed" });
     }
@@ -99,6 +396,51 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Export the registry as a CSV or JSON download: ?format=csv|json (default json)
+  app.get("/api/abilities/export", async (req, res) => {
+    try {
+      const format = abilityTransferFormatSchema.parse(req.query.format ?? "json");
+      const registry = await storage.getAbilityRegistry();
+      res.set("Content-Disposition", `attachment; filename="abilities.${format}"`);
+      if (format === "csv") {
+        return res.type("text/csv").send(abilitiesToCsv(registry.abilities));
+      }
+      res.json(registry);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Format must be csv or json", details: error.errors });
+      }
+      res.status(500).json({ error: "Failed to export ability registry" });
+    }
+  });
+
+  // Preview a bulk import: additions, alias merges and key conflicts, nothing is saved
+  app.post("/api/abilities/import/preview", async (req, res) => {
+    try {
+      const { plan } = await planImport(abilityImportRequestSchema.parse(req.body));
+      res.json(plan);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid import request", details: error.errors });
+      }
+      res.status(500).json({ error: "Failed to preview import" });
+    }
+  });
+
+  // Apply a bulk import. Rows that failed to parse are skipped and reported back.
+  app.post("/api/abilities/import", async (req, res) => {
+    try {
+      const { registry, plan } = await planImport(abilityImportRequestSchema.parse(req.body));
+      const updated = await storage.updateAbilityRegistry(applyAbilityImport(registry, plan, randomUUID));
+      res.json({ registry: updated, plan });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid import request", details: error.errors });
+      }
+      res.status(500).json({ error: "Failed to import abilities" });
+    }
+  });
+
   // Update entire ability registry
   app.put("/api/abilities", async (req, res) => {
     try {
@@ -157,6 +499,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // ============================================================================
+  // MACRO SEQUENCER ROUTES - macro-server profiles and ability catalog
+  // ============================================================================
+
+  app.use(MACRO_API_PREFIX, macroRoutes);
+
   const httpServer = createServer(app);
   return httpServer;
 }
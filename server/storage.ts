@@ -1,13 +1,41 @@
-import { type Profile, type InsertProfile, type AbilityRegistry, type Ability } from "@shared/schema";
+import {
+  type Profile,
+  type InsertProfile,
+  type AbilityRegistry,
+  type Ability,
+  type ProfileRevision,
+  type RevisionSource,
+  type SequenceProfile,
+  type InsertSequenceProfile,
+} from "@shared/schema";
+import { toProfileSnapshot } from "@shared/profileHistory";
 import { randomUUID } from "crypto";
+import { createDb } from "./db";
+import { DbStorage } from "./dbStorage";
+import { FileStorage } from "./fileStorage";
+import { DEFAULT_PROFILE } from "./defaultProfile";
+import { ProfileConflictError, isSameVersion, type UpdateProfileOptions } from "./storageErrors";
 
 export interface IStorage {
   // Profile operations
   getAllProfiles(): Promise<Profile[]>;
   getProfile(id: string): Promise<Profile | undefined>;
   createProfile(profile: InsertProfile): Promise<Profile>;
-  updateProfile(id: string, profile: Partial<InsertProfile>): Promise<Profile | undefined>;
+  // Throws ProfileConflictError when options.expectedUpdatedAt no longer matches
+  updateProfile(id: string, profile: Partial<InsertProfile>, options?: UpdateProfileOptions): Promise<Profile | undefined>;
   deleteProfile(id: string): Promise<boolean>;
+
+  // Revision history operations (newest revision first)
+  getProfileRevisions(profileId: string): Promise<ProfileRevision[]>;
+  getProfileRevision(profileId: string, revisionId: string): Promise<ProfileRevision | undefined>;
+  restoreProfileRevision(profileId: string, revisionId: string): Promise<Profile | undefined>;
+
+  // Sequence profile operations (macro sequences linked to a profile)
+  getSequenceProfiles(profileId: string): Promise<SequenceProfile[]>;
+  getSequenceProfile(id: string): Promise<SequenceProfile | undefined>;
+  createSequenceProfile(sequenceProfile: InsertSequenceProfile): Promise<SequenceProfile>;
+  updateSequenceProfile(id: string, updates: Partial<InsertSequenceProfile>): Promise<SequenceProfile | undefined>;
+  deleteSequenceProfile(id: string): Promise<boolean>;
   
   // Ability Registry operations
   getAbilityRegistry(): Promise<AbilityRegistry>;
@@ -19,73 +47,69 @@ export interface IStorage {
 
 export class MemStorage implements IStorage {
   private profiles: Map<string, Profile>;
+  private revisions: Map<string, ProfileRevision[]>;
+  private sequenceProfiles: Map<string, SequenceProfile>;
   private abilityRegistry: AbilityRegistry;
 
   constructor() {
     this.profiles = new Map();
+    this.revisions = new Map();
+    this.sequenceProfiles = new Map();
     this.abilityRegistry = { abilities: [], lastUpdated: new Date().toISOString() };
     this.seedDefaultProfile();
   }
 
   private seedDefaultProfile() {
+    const now = new Date();
     const defaultProfile: Profile = {
+      ...DEFAULT_PROFILE,
       id: "default-profile",
-      name: "Default Profile",
-      description: "Standard gaming configuration" as string | null,
-      favorite: false,
-      devices: {
-        keyboard: {
-          enabled: true,
-          sharpKeysCompat: true,
-          customKeyMap: {},
-          detectRemapping: true,
-        },
-        azeron: {
-          enabled: true,
-          buttonCount: 29,
-          thumbPad: true,
-          sensitivity: 50,
-        },
-        razerMMO: {
-          enabled: true,
-          sideButtons: 12,
-          dpiStages: [800, 1600, 3200],
-          pollingRate: 1000,
-        },
-        swiftpoint: {
-          enabled: true,
-          tiltSensors: true,
-          tiltSensitivity: 50,
-          hapticFeedback: true,
-        },
-        fsrSensor: {
-          enabled: true,
-          analogThresholds: [0, 25, 50, 75, 100],
-          calibrationCurve: "linear",
-          deadzone: 5,
-        },
-      },
-      gestureSettings: {
-        multiPressWindow: 350,
-        longPressMin: 80,
-        longPressMax: 140,
-        cancelThreshold: 200,
-        debounceDelay: 10,
-        chargeMinHold: 300,
-        chargeMaxHold: 2000,
-        outputKeyPadding: 25,
-      },
-      inputMappings: [],
-      modifierDefaults: {
-        ctrl: false,
-        shift: false,
-        alt: false,
-      },
-      abilityBindings: [],
-      createdAt: new Date(),
-      updatedAt: new Date(),
+      createdAt: now,
+      updatedAt: now,
     };
     this.profiles.set(defaultProfile.id, defaultProfile);
+    this.recordRevision(defaultProfile, "create");
+  }
+
+  private recordRevision(profile: Profile, source: RevisionSource, restoredFrom: number | null = null) {
+    const history = this.revisions.get(profile.id) ?? [];
+    const revision: ProfileRevision = {
+      id: randomUUID(),
+      profileId: profile.id,
+      revision: (history[history.length - 1]?.revision ?? 0) + 1,
+      source,
+      restoredFrom,
+      snapshot: structuredClone(toProfileSnapshot(profile)),
+      createdAt: profile.updatedAt,
+    };
+    history.push(revision);
+    this.revisions.set(profile.id, history);
+  }
+
+  private applyProfileUpdate(
+    id: string,
+    updates: Partial<InsertProfile>,
+    source: RevisionSource,
+    restoredFrom: number | null = null,
+    expectedUpdatedAt?: Date
+  ): Profile | undefined {
+    const existing = this.profiles.get(id);
+    if (!existing) {
+      return undefined;
+    }
+    if (expectedUpdatedAt && !isSameVersion(existing.updatedAt, expectedUpdatedAt)) {
+      throw new ProfileConflictError(existing);
+    }
+
+    const updated: Profile = {
+      ...existing,
+      ...updates,
+      id,
+      updatedAt: new Date(),
+    };
+    this.profiles.set(id, updated);
+    this.recordRevision(updated, source, restoredFrom);
+    return updated;
   }
 
   async getAllProfiles(): Promise<Profile[]> {
@@ -108,30 +132,87 @@ export class MemStorage implements IStorage {
       updatedAt: now,
     };
     this.profiles.set(id, profile);
+    this.recordRevision(profile, "create");
     return profile;
   }
 
   async updateProfile(
     id: string,
-    updates: Partial<InsertProfile>
+    updates: Partial<InsertProfile>,
+    options: UpdateProfileOptions = {}
   ): Promise<Profile | undefined> {
-    const existing = this.profiles.get(id);
+    return this.applyProfileUpdate(id, updates, "update", null, options.expectedUpdatedAt);
+  }
+
+  async deleteProfile(id: string): Promise<boolean> {
+    this.revisions.delete(id);
+    Array.from(this.sequenceProfiles.values())
+      .filter(sp => sp.profileId === id)
+      .forEach(sp => this.sequenceProfiles.delete(sp.id));
+    return this.profiles.delete(id);
+  }
+
+  // Revision history operations
+  async getProfileRevisions(profileId: string): Promise<ProfileRevision[]> {
+    return [...(this.revisions.get(profileId) ?? [])].reverse();
+  }
+
+  async getProfileRevision(profileId: string, revisionId: string): Promise<ProfileRevision | undefined> {
+    return this.revisions.get(profileId)?.find(r => r.id === revisionId);
+  }
+
+  async restoreProfileRevision(profileId: string, revisionId: string): Promise<Profile | undefined> {
+    const revision = await this.getProfileRevision(profileId, revisionId);
+    if (!revision) {
+      return undefined;
+    }
+    return this.applyProfileUpdate(profileId, structuredClone(revision.snapshot), "restore", revision.revision);
+  }
+
+  // Sequence profile operations
+  async getSequenceProfiles(profileId: string): Promise<SequenceProfile[]> {
+    return Array.from(this.sequenceProfiles.values()).filter(sp => sp.profileId === profileId);
+  }
+
+  async getSequenceProfile(id: string): Promise<SequenceProfile | undefined> {
+    return this.sequenceProfiles.get(id);
+  }
+
+  async createSequenceProfile(insertSequenceProfile: InsertSequenceProfile): Promise<SequenceProfile> {
+    const now = new Date();
+    const sequenceProfile: SequenceProfile = {
+      ...insertSequenceProfile,
+      description: insertSequenceProfile.description ?? null,
+      id: randomUUID(),
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.sequenceProfiles.set(sequenceProfile.id, sequenceProfile);
+    return sequenceProfile;
+  }
+
+  async updateSequenceProfile(
+    id: string,
+    updates: Partial<InsertSequenceProfile>
+  ): Promise<SequenceProfile | undefined> {
+    const existing = this.sequenceProfiles.get(id);
     if (!existing) {
       return undefined;
     }
 
-    const updated: Profile = {
+    const updated: SequenceProfile = {
       ...existing,
       ...updates,
+      description: updates.description === undefined ? existing.description : updates.description,
       id,
       updatedAt: new Date(),
     };
-    this.profiles.set(id, updated);
+    this.sequenceProfiles.set(id, updated);
     return updated;
   }
 
-  async deleteProfile(id: string): Promise<boolean> {
-    return this.profiles.delete(id);
+  async deleteSequenceProfile(id: string): Promise<boolean> {
+    return this.sequenceProfiles.delete(id);
   }
 
   // Ability Registry operations
@@ -183,4 +264,30 @@ export class MemStorage implements IStorage {
   }
 }
 
-export const storage = new MemStorage();
+export type StorageDriver = "memory" | "postgres" | "file";
+
+/**
+ * Pick the storage driver from the environment.
+ * STORAGE_DRIVER wins; otherwise Postgres is used whenever DATABASE_URL is set.
+ * The file driver keeps JSON under STORAGE_DIR (default ./data) for offline use.
+ * MemStorage stays available for tests and throwaway sessions.
+ */
+export function createStorage(env: NodeJS.ProcessEnv = process.env): IStorage {
+  const driver = (env.STORAGE_DRIVER || (env.DATABASE_URL ? "postgres" : "memory")) as StorageDriver;
+
+  switch (driver) {
+    case "memory":
+      return new MemStorage();
+    case "postgres":
+      if (!env.DATABASE_URL) {
+        throw new Error("STORAGE_DRIVER=postgres requires DATABASE_URL");
+      }
+      return new DbStorage(createDb(env.DATABASE_URL));
+    case "file":
+      return new FileStorage(env.STORAGE_DIR || "./data");
+    default:
+      throw new Error(`Unknown STORAGE_DRIVER: ${driver}`);
+  }
+}
+
+export const storage = createStorage();
@@ -0,0 +1,23 @@
+import type { Profile } from "@shared/schema";
+
+// Thrown by updateProfile when the stored profile no longer matches the
+// version the caller based its changes on. Carries the current copy so the
+// client can rebase or show it.
+export class ProfileConflictError extends Error {
+  readonly current: Profile;
+
+  constructor(current: Profile) {
+    super(`Profile ${current.id} was modified by another client`);
+    this.name = "ProfileConflictError";
+    this.current = current;
+  }
+}
+
+export interface UpdateProfileOptions {
+  // Only apply the update if the profile's updatedAt still equals this value
+  expectedUpdatedAt?: Date;
+}
+
+export function isSameVersion(updatedAt: Date, expected: Date): boolean {
+  return new Date(updatedAt).getTime() === new Date(expected).getTime();
+}
@@ -0,0 +1,343 @@
+// ============================================================================
+// ABILITY REGISTRY IMPORT / EXPORT - CSV and JSON with alias-aware merging
+// ============================================================================
+
+import { z } from "zod";
+import {
+  abilitySchema,
+  normalizeAbilityName,
+  findAbilityByName,
+  type Ability,
+  type AbilityRegistry,
+} from "./schema";
+
+export const abilityTransferFormatSchema = z.enum(["csv", "json"]);
+
+export type AbilityTransferFormat = z.infer<typeof abilityTransferFormatSchema>;
+
+// Body of the preview and import routes
+export const abilityImportRequestSchema = z.object({
+  format: abilityTransferFormatSchema,
+  content: z.string().min(1, "Import content is empty"),
+});
+
+export type AbilityImportRequest = z.infer<typeof abilityImportRequestSchema>;
+
+// Imported entries may carry ids from another registry; they are ignored
+export const importedAbilitySchema = abilitySchema.omit({ id: true }).extend({
+  id: z.string().optional(),
+});
+
+export type ImportedAbility = Omit<Ability, "id">;
+
+export const ABILITY_CSV_COLUMNS = ["canonicalName", "aliases", "category", "description", "assignedKey"] as const;
+
+// Aliases share one CSV cell
+const ALIAS_SEPARATOR = "|";
+
+export interface AbilityImportError {
+  row: number;  // 1-based data row (CSV header excluded)
+  message: string;
+}
+
+export interface AbilityMerge {
+  existing: Ability;
+  result: Ability;
+  changes: string[];  // Field names that the import changes
+}
+
+export interface AbilityKeyConflict {
+  key: string;
+  abilities: string[];  // Canonical names sharing the key after import
+}
+
+export interface AbilityImportPlan {
+  additions: ImportedAbility[];
+  merges: AbilityMerge[];
+  unchanged: number;
+  keyConflicts: AbilityKeyConflict[];
+  errors: AbilityImportError[];
+}
+
+// ============================================================================
+// CSV
+// ============================================================================
+
+function escapeCsvCell(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+export function abilitiesToCsv(abilities: Ability[]): string {
+  const lines = [ABILITY_CSV_COLUMNS.join(",")];
+  for (const ability of abilities) {
+    lines.push(
+      [
+        ability.canonicalName,
+        ability.aliases.join(ALIAS_SEPARATOR),
+        ability.category ?? "",
+        ability.description ?? "",
+        ability.assignedKey ?? "",
+      ]
+        .map(escapeCsvCell)
+        .join(",")
+    );
+  }
+  return lines.join("\n") + "\n";
+}
+
+// RFC 4180: quoted cells may contain commas, doubled quotes and line breaks
+function parseCsvRows(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ",") {
+      row.push(cell);
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = "";
+    } else {
+      cell += char;
+    }
+  }
+  if (cell !== "" || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  // Skip blank lines
+  return rows.filter((r) => r.some((c) => c.trim() !== ""));
+}
+
+function parseCsv(text: string): { abilities: ImportedAbility[]; errors: AbilityImportError[] } {
+  const rows = parseCsvRows(text.replace(/^\uFEFF/, ""));
+  if (rows.length === 0) {
+    return { abilities: [], errors: [{ row: 0, message: "CSV is empty" }] };
+  }
+
+  const header = rows[0].map((h) => h.trim());
+  const columnIndex = new Map(header.map((name, index) => [name, index]));
+  if (!columnIndex.has("canonicalName")) {
+    return { abilities: [], errors: [{ row: 0, message: 'CSV header must include a "canonicalName" column' }] };
+  }
+
+  const abilities: ImportedAbility[] = [];
+  const errors: AbilityImportError[] = [];
+  rows.slice(1).forEach((cells, index) => {
+    const cell = (column: string) => {
+      const i = columnIndex.get(column);
+      const value = i === undefined ? "" : (cells[i] ?? "").trim();
+      return value === "" ? undefined : value;
+    };
+    const candidate = {
+      canonicalName: cell("canonicalName") ?? "",
+      aliases: (cell("aliases") ?? "")
+        .split(ALIAS_SEPARATOR)
+        .map((a) => a.trim())
+        .filter(Boolean),
+      category: cell("category"),
+      description: cell("description"),
+      assignedKey: cell("assignedKey"),
+    };
+    addValidated(candidate, index + 1, abilities, errors);
+  });
+  return { abilities, errors };
+}
+
+// ============================================================================
+// JSON
+// ============================================================================
+
+// Accepts an exported registry ({ abilities: [...] }) or a bare array of abilities
+function parseJson(text: string): { abilities: ImportedAbility[]; errors: AbilityImportError[] } {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (error) {
+    return { abilities: [], errors: [{ row: 0, message: `Invalid JSON: ${(error as Error).message}` }] };
+  }
+
+  const entries = Array.isArray(data)
+    ? data
+    : (data as { abilities?: unknown } | null)?.abilities;
+  if (!Array.isArray(entries)) {
+    return { abilities: [], errors: [{ row: 0, message: 'Expected an array of abilities or an object with an "abilities" array' }] };
+  }
+
+  const abilities: ImportedAbility[] = [];
+  const errors: AbilityImportError[] = [];
+  entries.forEach((entry, index) => addValidated(entry, index + 1, abilities, errors));
+  return { abilities, errors };
+}
+
+function addValidated(
+  candidate: unknown,
+  row: number,
+  abilities: ImportedAbility[],
+  errors: AbilityImportError[]
+) {
+  const result = importedAbilitySchema.safeParse(candidate);
+  if (!result.success) {
+    errors.push({ row, message: result.error.errors.map((e) => e.message).join("; ") });
+    return;
+  }
+  const { id: _id, ...ability } = result.data;
+  abilities.push(ability);
+}
+
+export function parseAbilityImport(
+  format: AbilityTransferFormat,
+  content: string
+): { abilities: ImportedAbility[]; errors: AbilityImportError[] } {
+  return format === "csv" ? parseCsv(content) : parseJson(content);
+}
+
+// ============================================================================
+// MERGE PLANNING
+// ============================================================================
+
+function mergeAliases(existing: Ability, incoming: ImportedAbility): string[] {
+  const taken = new Set([existing.canonicalName, ...existing.aliases].map(normalizeAbilityName));
+  const aliases = [...existing.aliases];
+  // A different spelling of the canonical name is kept as an alias
+  for (const alias of [incoming.canonicalName, ...incoming.aliases]) {
+    const normalized = normalizeAbilityName(alias);
+    if (normalized && !taken.has(normalized)) {
+      taken.add(normalized);
+      aliases.push(alias);
+    }
+  }
+  return aliases;
+}
+
+// Incoming values win for fields that are set; the existing canonical name is kept
+function mergeAbility(existing: Ability, incoming: ImportedAbility): Ability {
+  return {
+    ...existing,
+    aliases: mergeAliases(existing, incoming),
+    category: incoming.category ?? existing.category,
+    description: incoming.description ?? existing.description,
+    assignedKey: incoming.assignedKey ?? existing.assignedKey,
+    icon: incoming.icon ?? existing.icon,
+  };
+}
+
+function changedFields(before: Ability, after: Ability): string[] {
+  return (["aliases", "category", "description", "assignedKey", "icon"] as const).filter(
+    (field) => JSON.stringify(after[field]) !== JSON.stringify(before[field])
+  );
+}
+
+// Find the entry an incoming ability refers to by its canonical name or any alias
+function findMatch(registry: AbilityRegistry, incoming: ImportedAbility): Ability | undefined {
+  for (const name of [incoming.canonicalName, ...incoming.aliases]) {
+    const match = findAbilityByName(registry, name);
+    if (match) return match;
+  }
+  return undefined;
+}
+
+/**
+ * Work out what importing `incoming` into `registry` would do without
+ * changing anything. Rows that match an existing ability (or an earlier row
+ * of the same import) by name or alias are merged into it rather than added.
+ */
+export function planAbilityImport(
+  registry: AbilityRegistry,
+  incoming: ImportedAbility[],
+  errors: AbilityImportError[] = []
+): AbilityImportPlan {
+  // Working copy; additions get placeholder ids so later rows can match them
+  const working: AbilityRegistry = { ...registry, abilities: [...registry.abilities] };
+  const originals = new Map(registry.abilities.map((a) => [a.id, a]));
+  const pendingAdditions = new Map<string, Ability>();
+
+  incoming.forEach((ability, index) => {
+    const match = findMatch(working, ability);
+    if (!match) {
+      const added: Ability = { ...ability, id: `import-${index}` };
+      working.abilities.push(added);
+      pendingAdditions.set(added.id, added);
+      return;
+    }
+    const result = mergeAbility(match, ability);
+    working.abilities[working.abilities.indexOf(match)] = result;
+    if (pendingAdditions.has(match.id)) {
+      pendingAdditions.set(match.id, result);
+    }
+  });
+
+  const merges: AbilityMerge[] = [];
+  let unchanged = 0;
+  for (const ability of working.abilities) {
+    const existing = originals.get(ability.id);
+    // Skip additions and entries no row matched
+    if (!existing || ability === existing) continue;
+    const changes = changedFields(existing, ability);
+    if (changes.length > 0) {
+      merges.push({ existing, result: ability, changes });
+    } else {
+      unchanged++;
+    }
+  }
+
+  // Only report conflicts that involve something this import touches
+  const touched = new Set([...Array.from(pendingAdditions.keys()), ...merges.map((m) => m.existing.id)]);
+  const byKey = new Map<string, Ability[]>();
+  for (const ability of working.abilities) {
+    if (!ability.assignedKey) continue;
+    const key = ability.assignedKey.toLowerCase().trim();
+    byKey.set(key, [...(byKey.get(key) ?? []), ability]);
+  }
+  const keyConflicts: AbilityKeyConflict[] = [];
+  byKey.forEach((abilities) => {
+    if (abilities.length > 1 && abilities.some((a) => touched.has(a.id))) {
+      keyConflicts.push({
+        key: abilities[0].assignedKey!,
+        abilities: abilities.map((a) => a.canonicalName),
+      });
+    }
+  });
+
+  return {
+    additions: Array.from(pendingAdditions.values()).map(({ id: _id, ...ability }) => ability),
+    merges,
+    unchanged,
+    keyConflicts,
+    errors,
+  };
+}
+
+// The registry after applying a plan; `createId` supplies ids for additions
+export function applyAbilityImport(
+  registry: AbilityRegistry,
+  plan: AbilityImportPlan,
+  createId: () => string
+): AbilityRegistry {
+  const merged = new Map(plan.merges.map((m) => [m.existing.id, m.result]));
+  return {
+    ...registry,
+    abilities: [
+      ...registry.abilities.map((a) => merged.get(a.id) ?? a),
+      ...plan.additions.map((a) => ({ ...a, id: createId() })),
+    ],
+  };
+}
@@ -0,0 +1,95 @@
+// ============================================================================
+// AGENT EXPORT - Convert a MacroProfile into a local-macro-agent profile
+// ============================================================================
+
+import {
+  AGENT_PROFILE_SCHEMA_VERSION,
+  DEFAULT_CONCURRENCY,
+  validateAgentProfile,
+  hasErrors,
+  type AgentProfile,
+  type Diagnostic,
+  type MacroBinding as AgentMacroBinding,
+} from "../agent-profile";
+import type { MacroProfile, MacroBinding } from "./schema";
+
+export type { AgentProfile, AgentMacroBinding };
+
+// Diagnostic paths index the exported profile, whose macros line up with the builder's
+export interface AgentExportResult {
+  valid: boolean;
+  profile: AgentProfile;
+  diagnostics: Diagnostic[];
+}
+
+function toAgentBinding(macro: MacroBinding): AgentMacroBinding {
+  return {
+    name: macro.name,
+    trigger: macro.trigger,
+    sequence: macro.sequence.map((step) => ({
+      key: step.key,
+      call: step.call,
+      name: step.name,  // Kept for debugging output in the agent
+      action: step.action,
+      modifiers: step.modifiers,
+      holdMs: step.holdMs,
+      minDelay: step.minDelay,
+      maxDelay: step.maxDelay,
+      echoHits: step.echoHits,
+    })),
+    enabled: macro.enabled,
+    concurrency: macro.concurrency ?? DEFAULT_CONCURRENCY,
+    onComplete: macro.onComplete,
+  };
+}
+
+/**
+ * Build the agent profile. Builder-only settings (step defaults) and ids are
+ * dropped; the agent repeats steps with echoHits > 1 itself.
+ */
+export function toAgentProfile(profile: MacroProfile): AgentProfile {
+  const { gestureSettings } = profile;
+  return {
+    schemaVersion: AGENT_PROFILE_SCHEMA_VERSION,
+    name: profile.name,
+    description: profile.description ?? "",
+    gestureSettings: {
+      multiPressWindow: gestureSettings.multiPressWindow,
+      debounceDelay: gestureSettings.debounceDelay,
+      longPressMin: gestureSettings.longPressMin,
+      longPressMax: gestureSettings.longPressMax,
+      superLongMin: gestureSettings.superLongMin,
+      superLongMax: gestureSettings.superLongMax,
+      cancelThreshold: gestureSettings.cancelThreshold,
+      superLongOverflow: gestureSettings.superLongOverflow,
+    },
+    gestures: profile.gestures,
+    safety: profile.safety,
+    macros: profile.macros.map(toAgentBinding),
+  };
+}
+
+/**
+ * Convert and validate in one pass. Errors are what the agent's ProfileLoader
+ * would reject; warnings are accepted by the agent but probably unintended.
+ */
+export function exportAgentProfile(profile: MacroProfile): AgentExportResult {
+  const agentProfile = toAgentProfile(profile);
+
+  // The agent's ProfileLoader runs exactly this check
+  const { diagnostics } = validateAgentProfile(agentProfile);
+
+  return {
+    valid: !hasErrors(diagnostics),
+    profile: agentProfile,
+    diagnostics,
+  };
+}
+
+// File name the agent's profiles/ directory expects. Only [\w.-] survive, so
+// the name is safe in a Content-Disposition header and the agent's control
+// API accepts it.
+export function agentProfileFilename(name: string): string {
+  const base = name.toLowerCase().replace(/[^\w.-]+/g, "-").replace(/^[.-]+|-+$/g, "");
+  return `${base || "profile"}-macros.json`;
+}
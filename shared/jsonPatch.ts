@@ -0,0 +1,173 @@
+// ============================================================================
+// JSON PATCH (RFC 6902) AND JSON MERGE PATCH (RFC 7396)
+// ============================================================================
+
+import { z } from "zod";
+import { isDeepEqual } from "./profileHistory";
+
+export const jsonPatchOperationSchema = z.discriminatedUnion("op", [
+  z.object({ op: z.literal("add"), path: z.string(), value: z.unknown() }),
+  z.object({ op: z.literal("remove"), path: z.string() }),
+  z.object({ op: z.literal("replace"), path: z.string(), value: z.unknown() }),
+  z.object({ op: z.literal("move"), from: z.string(), path: z.string() }),
+  z.object({ op: z.literal("copy"), from: z.string(), path: z.string() }),
+  z.object({ op: z.literal("test"), path: z.string(), value: z.unknown() }),
+]);
+
+export const jsonPatchSchema = z.array(jsonPatchOperationSchema);
+
+export type JsonPatchOperation = z.infer<typeof jsonPatchOperationSchema>;
+
+export class JsonPatchError extends Error {
+  // True when a "test" operation failed, i.e. the document is not in the expected state
+  readonly testFailed: boolean;
+
+  constructor(message: string, testFailed = false) {
+    super(message);
+    this.name = "JsonPatchError";
+    this.testFailed = testFailed;
+  }
+}
+
+type Container = Record<string, unknown> | unknown[];
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+// "/inputMappings/0/actionName" -> ["inputMappings", "0", "actionName"]
+function parsePointer(pointer: string): string[] {
+  if (pointer === "") return [];
+  if (!pointer.startsWith("/")) {
+    throw new JsonPatchError(`Invalid JSON pointer "${pointer}"`);
+  }
+  return pointer
+    .slice(1)
+    .split("/")
+    .map((token) => token.replace(/~1/g, "/").replace(/~0/g, "~"));
+}
+
+function arrayIndex(array: unknown[], token: string, allowEnd: boolean): number {
+  if (allowEnd && token === "-") return array.length;
+  if (!/^(0|[1-9][0-9]*)$/.test(token)) {
+    throw new JsonPatchError(`Invalid array index "${token}"`);
+  }
+  const index = Number(token);
+  const max = allowEnd ? array.length : array.length - 1;
+  if (index > max) {
+    throw new JsonPatchError(`Array index ${index} out of bounds`);
+  }
+  return index;
+}
+
+function getValue(doc: unknown, tokens: string[], pointer: string): unknown {
+  let current = doc;
+  for (const token of tokens) {
+    if (Array.isArray(current)) {
+      current = current[arrayIndex(current, token, false)];
+    } else if (isObject(current) && Object.prototype.hasOwnProperty.call(current, token)) {
+      current = current[token];
+    } else {
+      throw new JsonPatchError(`Path "${pointer}" does not exist`);
+    }
+  }
+  return current;
+}
+
+function getParent(doc: unknown, tokens: string[], pointer: string): { parent: Container; key: string } {
+  if (tokens.length === 0) {
+    throw new JsonPatchError("Operations on the document root are not supported");
+  }
+  const parent = getValue(doc, tokens.slice(0, -1), pointer);
+  if (!Array.isArray(parent) && !isObject(parent)) {
+    throw new JsonPatchError(`Parent of "${pointer}" is not an object or array`);
+  }
+  return { parent, key: tokens[tokens.length - 1] };
+}
+
+function addValue(doc: unknown, pointer: string, value: unknown): void {
+  const { parent, key } = getParent(doc, parsePointer(pointer), pointer);
+  if (Array.isArray(parent)) {
+    parent.splice(arrayIndex(parent, key, true), 0, value);
+  } else {
+    parent[key] = value;
+  }
+}
+
+function removeValue(doc: unknown, pointer: string): unknown {
+  const tokens = parsePointer(pointer);
+  const removed = getValue(doc, tokens, pointer);
+  const { parent, key } = getParent(doc, tokens, pointer);
+  if (Array.isArray(parent)) {
+    parent.splice(arrayIndex(parent, key, false), 1);
+  } else {
+    delete parent[key];
+  }
+  return removed;
+}
+
+/**
+ * Apply an RFC 6902 patch to a copy of `document`.
+ * Operations are applied in order and the whole patch fails if any one does,
+ * so the caller never sees a partially patched document.
+ */
+export function applyJsonPatch<T>(document: T, operations: JsonPatchOperation[]): T {
+  const doc = structuredClone(document) as unknown;
+
+  for (const operation of operations) {
+    switch (operation.op) {
+      case "add":
+        addValue(doc, operation.path, structuredClone(operation.value));
+        break;
+      case "remove":
+        removeValue(doc, operation.path);
+        break;
+      case "replace":
+        removeValue(doc, operation.path);
+        addValue(doc, operation.path, structuredClone(operation.value));
+        break;
+      case "move": {
+        if (operation.path.startsWith(`${operation.from}/`)) {
+          throw new JsonPatchError(`Cannot move "${operation.from}" into one of its children`);
+        }
+        const value = removeValue(doc, operation.from);
+        addValue(doc, operation.path, value);
+        break;
+      }
+      case "copy": {
+        const value = getValue(doc, parsePointer(operation.from), operation.from);
+        addValue(doc, operation.path, structuredClone(value));
+        break;
+      }
+      case "test": {
+        const value = getValue(doc, parsePointer(operation.path), operation.path);
+        if (!isDeepEqual(value, operation.value)) {
+          throw new JsonPatchError(`Test failed at "${operation.path}"`, true);
+        }
+        break;
+      }
+    }
+  }
+
+  return doc as T;
+}
+
+/**
+ * Apply an RFC 7396 merge patch: objects merge recursively, null removes a
+ * key, and any other value (including arrays) replaces the target outright.
+ */
+export function applyMergePatch<T>(target: T, patch: unknown): T {
+  if (!isObject(patch)) {
+    return structuredClone(patch) as T;
+  }
+
+  const result: Record<string, unknown> = isObject(target) ? { ...target } : {};
+  for (const [key, value] of Object.entries(patch)) {
+    if (value === null) {
+      delete result[key];
+    } else {
+      result[key] = applyMergePatch(result[key], value);
+    }
+  }
+  return result as T;
+}
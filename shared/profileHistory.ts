@@ -0,0 +1,126 @@
+// ============================================================================
+// PROFILE HISTORY - Snapshots and structural diffs between profile revisions
+// ============================================================================
+
+import type { Profile, ProfileSnapshot, InputMapping } from "./schema";
+
+export interface FieldChange {
+  path: string;       // Dot path inside the profile, e.g. "azeron.sensitivity"
+  before: unknown;
+  after: unknown;
+}
+
+export interface MappingChange {
+  id: string;
+  before: InputMapping;
+  after: InputMapping;
+  fields: string[];   // Top-level mapping fields that differ
+}
+
+export interface ProfileDiff {
+  inputMappings: {
+    added: InputMapping[];
+    removed: InputMapping[];
+    changed: MappingChange[];
+  };
+  gestureSettings: FieldChange[];
+  devices: FieldChange[];
+  // name, description, favorite, modifierDefaults, abilityBindings
+  other: FieldChange[];
+  hasChanges: boolean;
+}
+
+// Strip identity and timestamps so only user-editable content is versioned
+export function toProfileSnapshot(profile: Profile): ProfileSnapshot {
+  const { id: _id, createdAt: _createdAt, updatedAt: _updatedAt, ...snapshot } = profile;
+  return snapshot;
+}
+
+// Structural equality that ignores key order (jsonb columns reorder keys)
+export function isDeepEqual(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (typeof a !== "object" || typeof b !== "object" || a === null || b === null) {
+    return false;
+  }
+  if (Array.isArray(a) !== Array.isArray(b)) return false;
+
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((item, i) => isDeepEqual(item, b[i]));
+  }
+
+  const aRecord = a as Record<string, unknown>;
+  const bRecord = b as Record<string, unknown>;
+  const keys = new Set([...Object.keys(aRecord), ...Object.keys(bRecord)]);
+  return Array.from(keys).every((key) => isDeepEqual(aRecord[key], bRecord[key]));
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+// Walk nested objects and report leaf changes; arrays are compared as a whole
+function diffObjects(before: unknown, after: unknown, prefix: string): FieldChange[] {
+  if (!isPlainObject(before) || !isPlainObject(after)) {
+    return isDeepEqual(before, after) ? [] : [{ path: prefix, before, after }];
+  }
+
+  const changes: FieldChange[] = [];
+  const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+  for (const key of Array.from(keys)) {
+    const path = prefix ? `${prefix}.${key}` : key;
+    changes.push(...diffObjects(before[key], after[key], path));
+  }
+  return changes;
+}
+
+function diffMappings(before: InputMapping[], after: InputMapping[]): ProfileDiff["inputMappings"] {
+  const beforeById = new Map(before.map((m) => [m.id, m]));
+  const afterById = new Map(after.map((m) => [m.id, m]));
+
+  const added = after.filter((m) => !beforeById.has(m.id));
+  const removed = before.filter((m) => !afterById.has(m.id));
+  const changed: MappingChange[] = [];
+
+  for (const mapping of after) {
+    const previous = beforeById.get(mapping.id);
+    if (!previous || isDeepEqual(previous, mapping)) continue;
+
+    const fields = diffObjects(previous, mapping, "").map((c) => c.path.split(".")[0]);
+    changed.push({
+      id: mapping.id,
+      before: previous,
+      after: mapping,
+      fields: Array.from(new Set(fields)),
+    });
+  }
+
+  return { added, removed, changed };
+}
+
+/**
+ * Compare two profile snapshots.
+ * Input mappings are matched by id so a moved or edited mapping is reported
+ * as changed rather than as a remove/add pair.
+ */
+export function diffProfileSnapshots(before: ProfileSnapshot, after: ProfileSnapshot): ProfileDiff {
+  const inputMappings = diffMappings(before.inputMappings ?? [], after.inputMappings ?? []);
+  const gestureSettings = diffObjects(before.gestureSettings, after.gestureSettings, "");
+  const devices = diffObjects(before.devices, after.devices, "");
+
+  const other: FieldChange[] = [];
+  for (const field of ["name", "description", "favorite", "modifierDefaults", "abilityBindings"] as const) {
+    if (!isDeepEqual(before[field], after[field])) {
+      other.push({ path: field, before: before[field], after: after[field] });
+    }
+  }
+
+  const hasChanges =
+    inputMappings.added.length > 0 ||
+    inputMappings.removed.length > 0 ||
+    inputMappings.changed.length > 0 ||
+    gestureSettings.length > 0 ||
+    devices.length > 0 ||
+    other.length > 0;
+
+  return { inputMappings, gestureSettings, devices, other, hasChanges };
+}
@@ -1,7 +1,28 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, jsonb, boolean, timestamp } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, jsonb, boolean, timestamp, integer, unique } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import {
+  SEQUENCE_CONSTRAINTS,
+  refineStep,
+  validateSequence,
+  bindingWarnings,
+  followUpDiagnostics,
+  hasErrors,
+  gestureDiagnostics,
+  DEFAULT_GESTURES,
+  type Diagnostic,
+  type GestureDefinition,
+  gestureDefinitionSchema,
+  concurrencyPolicySchema,
+  safetySchema,
+  DEFAULT_SAFETY,
+  type SafetySettings,
+  sequenceStepObject as agentSequenceStepObject,
+  gestureSettingsSchema as agentGestureSettingsSchema,
+  gestureTypeSchema as agentGestureTypeSchema,
+  inputKeySchema as agentInputKeySchema,
+} from "../agent-profile";
 
 // Gesture Settings Schema
 export const gestureSettingsSchema = z.object({
@@ -179,6 +200,33 @@ export type SwiftpointConfig = z.infer<typeof swiftpointConfigSchema>;
 export type FSRSensorConfig = z.infer<typeof fsrSensorConfigSchema>;
 export type InputMapping = z.infer<typeof inputMappingSchema>;
 
+// ============================================================================
+// PROFILE REVISION HISTORY - One snapshot per create/update/restore
+// ============================================================================
+
+// Profile content without identity or timestamps
+export type ProfileSnapshot = Omit<Profile, "id" | "createdAt" | "updatedAt">;
+
+export const revisionSourceSchema = z.enum(["create", "update", "restore"]);
+
+export type RevisionSource = z.infer<typeof revisionSourceSchema>;
+
+// Drizzle Profile Revision Table
+export const profileRevisions = pgTable("profile_revisions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  profileId: varchar("profile_id").notNull().references(() => profiles.id, { onDelete: "cascade" }),
+  revision: integer("revision").notNull(),
+  source: text("source").notNull().$type<RevisionSource>(),
+  restoredFrom: integer("restored_from"),  // Revision number copied by a restore
+  snapshot: jsonb("snapshot").notNull().$type<ProfileSnapshot>(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  unique("profile_revisions_profile_revision").on(table.profileId, table.revision),
+]);
+
+export type ProfileRevision = typeof profileRevisions.$inferSelect;
+export type ProfileRevisionSummary = Omit<ProfileRevision, "snapshot">;
+
 // Gesture Event Schema (for runtime gesture detection)
 export const gestureEventSchema = z.object({
   timestamp: z.number(),
@@ -194,56 +242,77 @@ export type GestureEvent = z.infer<typeof gestureEventSchema>;
 // MACRO SEQUENCE SCHEMA - For local macro agent execution
 // ============================================================================
 
-// Sequence step timing constraints
-export const SEQUENCE_CONSTRAINTS = {
-  MIN_DELAY: 25,           // Never faster than 25ms
-  MIN_VARIANCE: 4,         // max - min must be >= 4ms
-  MAX_UNIQUE_KEYS: 4,      // Maximum 4 unique keys per sequence
-  MAX_STEPS_PER_KEY: 6,    // Maximum 6 steps per key (echoHits don't count toward this)
-  MAX_ECHO_HITS: 6,        // Each step can have 1-6 echo hits (repeats within the step)
-  MAX_REPEATS_PER_KEY: 6,  // Legacy alias for MAX_ECHO_HITS - kept for backward compatibility
-} as const;
-
-// Single step in a macro sequence
-export const sequenceStepSchema = z.object({
+// Limits, keys and gestures come from the versioned agent profile schema, so
+// anything the builder accepts also loads in the agent
+export {
+  AGENT_PROFILE_SCHEMA_VERSION,
+  SEQUENCE_CONSTRAINTS,
+  INPUT_KEYS as MACRO_TRIGGER_KEYS,
+  DEFAULT_GESTURES,
+  CANCEL_GESTURE,
+  HOLD_TIERS,
+  MAX_GESTURE_PRESSES,
+  holdTier,
+  resolveGesture,
+  canExtendGesture,
+  gestureNames,
+  gestureDiagnostics,
+  describeGesture,
+  CONCURRENCY_MODES,
+  DEFAULT_CONCURRENCY,
+  MAX_QUEUE_DEPTH,
+  DEFAULT_SAFETY,
+  MAX_HOTKEY_KEYS,
+  describeHotkey,
+  STEP_ACTIONS,
+  MODIFIER_KEYS,
+  chordId,
+  describeStep,
+  sequenceDuration,
+  MOUSE_BUTTON_OUTPUTS,
+  SCROLL_OUTPUTS,
+  mouseButtonOutput,
+  scrollOutput,
+  expandSequence,
+  executionSteps,
+  followUpDiagnostics,
+  validateSequence,
+  bindingWarnings,
+  hasErrors,
+  formatDiagnostic,
+  diagnosticsFromZodError,
+  type Diagnostic,
+  type DiagnosticCode,
+  type DiagnosticPath,
+  type DiagnosticSeverity,
+  type GestureDefinition,
+  type HoldTier,
+  type ConcurrencyMode,
+  type ConcurrencyPolicy,
+  type Hotkey,
+  type SafetySettings,
+  type StepAction,
+  type ModifierKey,
+  type MouseButtonOutput,
+  type ScrollOutput,
+  type ExpandedStep,
+} from "../agent-profile";
+
+// Single step in a macro sequence; the builder always stores echoHits
+export const sequenceStepSchema = agentSequenceStepObject.extend({
   id: z.string(),
-  name: z.string().optional(),                          // Optional step name for visualization
-  key: z.string().min(1, "Key is required"),           // The key to press (e.g., "a", "f1")
-  minDelay: z.number().min(SEQUENCE_CONSTRAINTS.MIN_DELAY, 
-    `Minimum delay must be at least ${SEQUENCE_CONSTRAINTS.MIN_DELAY}ms`),
-  maxDelay: z.number().min(SEQUENCE_CONSTRAINTS.MIN_DELAY + SEQUENCE_CONSTRAINTS.MIN_VARIANCE),
-  echoHits: z.number().min(1).max(SEQUENCE_CONSTRAINTS.MAX_REPEATS_PER_KEY).default(1), // Repetitions
-}).refine(
-  (step) => step.maxDelay - step.minDelay >= SEQUENCE_CONSTRAINTS.MIN_VARIANCE,
-  { message: `Variance (max - min) must be at least ${SEQUENCE_CONSTRAINTS.MIN_VARIANCE}ms` }
-);
+  echoHits: z.number().default(1), // Repetitions, 1-6
+}).superRefine(refineStep);
 
 export type SequenceStep = z.infer<typeof sequenceStepSchema>;
 
-// Trigger gesture types for macro sequences (matches local agent)
-export const macroGestureTypeSchema = z.enum([
-  "single",
-  "long",
-  "double",
-  "double_long",
-  "triple",
-  "triple_long",
-  "quadruple_long",
-  "super_long",
-  "cancel",
-]);
+// Trigger gesture name; the profile's gestures say which names exist
+export const macroGestureTypeSchema = agentGestureTypeSchema;
 
 export type MacroGestureType = z.infer<typeof macroGestureTypeSchema>;
 
 // Available trigger keys (22 input keys)
-export const MACRO_TRIGGER_KEYS = [
-  "W", "A", "S", "D",
-  "B", "I", "T", "C", "H", "Y", "U", "P",
-  "1", "2", "3", "4", "5", "6",
-  "LEFT_CLICK", "RIGHT_CLICK", "MIDDLE_CLICK", "SCROLL_UP"
-] as const;
-
-export const macroTriggerKeySchema = z.enum(MACRO_TRIGGER_KEYS);
+export const macroTriggerKeySchema = agentInputKeySchema;
 
 export type MacroTriggerKey = z.infer<typeof macroTriggerKeySchema>;
 
@@ -258,23 +327,18 @@ export const macroBindingSchema = z.object({
   }),
   sequence: z.array(sequenceStepSchema),
   enabled: z.boolean().default(true),
+  concurrency: concurrencyPolicySchema.optional(), // Unset: the agent's default (drop)
+  onComplete: z.string().min(1).optional(),         // Name of the binding to run after this one
 });
 
 export type MacroBinding = z.infer<typeof macroBindingSchema>;
 
-// Gesture detection settings for local agent
-export const macroGestureSettingsSchema = z.object({
-  multiPressWindow: z.number().min(100).max(1000).default(350),
-  debounceDelay: z.number().min(0).max(50).default(10),
-  longPressMin: z.number().min(50).max(300).default(80),
-  longPressMax: z.number().min(100).max(500).default(140),
-  superLongMin: z.number().min(200).max(1000).default(300),
-  superLongMax: z.number().min(500).max(5000).default(2000),
-  cancelThreshold: z.number().min(1000).max(10000).default(3000),
+// Gesture detection settings for local agent, plus builder defaults for new steps
+export const macroGestureSettingsSchema = agentGestureSettingsSchema.extend({
   // Global timing defaults for new steps
   defaultMinDelay: z.number().min(SEQUENCE_CONSTRAINTS.MIN_DELAY).max(200).default(30),
   defaultMaxDelay: z.number().min(SEQUENCE_CONSTRAINTS.MIN_DELAY + SEQUENCE_CONSTRAINTS.MIN_VARIANCE).max(300).default(40),
-  defaultEchoHits: z.number().min(1).max(SEQUENCE_CONSTRAINTS.MAX_REPEATS_PER_KEY).default(1),
+  defaultEchoHits: z.number().min(1).max(SEQUENCE_CONSTRAINTS.MAX_ECHO_HITS).default(1),
 });
 
 export type MacroGestureSettings = z.infer<typeof macroGestureSettingsSchema>;
@@ -284,11 +348,48 @@ export const macroProfileSchema = z.object({
   name: z.string(),
   description: z.string().optional(),
   gestureSettings: macroGestureSettingsSchema,
+  gestures: z.array(gestureDefinitionSchema).default(DEFAULT_GESTURES),
+  safety: safetySchema.default(DEFAULT_SAFETY),
   macros: z.array(macroBindingSchema),
 });
 
 export type MacroProfile = z.infer<typeof macroProfileSchema>;
 
+// Drizzle Sequence Profile Table - a MacroProfile saved on the server,
+// linked to the gesture-mapping profile it belongs to
+export const sequenceProfiles = pgTable("sequence_profiles", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  profileId: varchar("profile_id").notNull().references(() => profiles.id, { onDelete: "cascade" }),
+  name: text("name").notNull(),
+  description: text("description"),
+  gestureSettings: jsonb("gesture_settings").notNull().$type<MacroGestureSettings>(),
+  gestures: jsonb("gestures").notNull().default(DEFAULT_GESTURES).$type<GestureDefinition[]>(),
+  safety: jsonb("safety").notNull().default(DEFAULT_SAFETY).$type<SafetySettings>(),
+  macros: jsonb("macros").notNull().default([]).$type<MacroBinding[]>(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export const insertSequenceProfileSchema = macroProfileSchema.extend({
+  profileId: z.string().min(1, "Profile id is required"),
+  description: z.string().nullable().optional(),
+});
+
+export type SequenceProfile = typeof sequenceProfiles.$inferSelect;
+export type InsertSequenceProfile = z.infer<typeof insertSequenceProfileSchema>;
+
+// Strip server fields so a stored sequence profile can be edited and exported as a MacroProfile
+export function toMacroProfile(sequenceProfile: SequenceProfile): MacroProfile {
+  return {
+    name: sequenceProfile.name,
+    description: sequenceProfile.description ?? undefined,
+    gestureSettings: sequenceProfile.gestureSettings,
+    gestures: sequenceProfile.gestures,
+    safety: sequenceProfile.safety,
+    macros: sequenceProfile.macros,
+  };
+}
+
 // ============================================================================
 // ABILITY REGISTRY SCHEMA - For managing game abilities and keybindings
 // ============================================================================
@@ -314,6 +415,21 @@ export const abilityRegistrySchema = z.object({
 
 export type AbilityRegistry = z.infer<typeof abilityRegistrySchema>;
 
+// Drizzle Ability Table - one row per registry entry
+// Aliases are stored as a JSON array so alias matching stays in application code
+export const abilities = pgTable("abilities", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  canonicalName: text("canonical_name").notNull(),
+  aliases: jsonb("aliases").notNull().default([]).$type<string[]>(),
+  category: text("category"),
+  description: text("description"),
+  assignedKey: text("assigned_key"),
+  icon: text("icon"),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export type AbilityRow = typeof abilities.$inferSelect;
+
 // Profile ability binding - which ability is active per keybind for this profile
 // When multiple abilities share the same key, profile picks ONE
 export const profileAbilityBindingSchema = z.object({
@@ -350,51 +466,17 @@ export function getAbilitiesForKey(registry: AbilityRegistry, key: string): Abil
   );
 }
 
-// Validation helper to check sequence constraints
-export function validateSequence(steps: SequenceStep[]): { valid: boolean; errors: string[] } {
-  const errors: string[] = [];
-  
-  // Count unique keys from original steps (not expanded)
-  const uniqueKeys = new Set(steps.map(s => s.key));
-  if (uniqueKeys.size > SEQUENCE_CONSTRAINTS.MAX_UNIQUE_KEYS) {
-    errors.push(`Too many unique keys: ${uniqueKeys.size}/${SEQUENCE_CONSTRAINTS.MAX_UNIQUE_KEYS}`);
-  }
-  
-  // Count STEPS per key (not expanded presses - echoHits don't count toward step budget)
-  // Max 6 steps per key, where each step can have 1-6 echoHits independently
-  const stepCounts = new Map<string, number>();
-  for (const step of steps) {
-    stepCounts.set(step.key, (stepCounts.get(step.key) || 0) + 1);
-  }
-  
-  Array.from(stepCounts.entries()).forEach(([key, count]) => {
-    if (count > SEQUENCE_CONSTRAINTS.MAX_STEPS_PER_KEY) {
-      errors.push(`Key "${key}" exceeds max steps: ${count}/${SEQUENCE_CONSTRAINTS.MAX_STEPS_PER_KEY}`);
-    }
-  });
-  
-  // Validate echoHits per step (1-6 per step)
-  for (let i = 0; i < steps.length; i++) {
-    const step = steps[i];
-    const echoHits = step.echoHits || 1;
-    if (echoHits < 1 || echoHits > SEQUENCE_CONSTRAINTS.MAX_ECHO_HITS) {
-      errors.push(`Step ${i + 1}: echoHits ${echoHits} must be 1-${SEQUENCE_CONSTRAINTS.MAX_ECHO_HITS}`);
-    }
-  }
-  
-  // Check timing constraints
-  for (let i = 0; i < steps.length; i++) {
-    const step = steps[i];
-    
-    if (step.minDelay < SEQUENCE_CONSTRAINTS.MIN_DELAY) {
-      errors.push(`Step ${i + 1}: minDelay ${step.minDelay}ms < ${SEQUENCE_CONSTRAINTS.MIN_DELAY}ms minimum`);
-    }
-    
-    const variance = step.maxDelay - step.minDelay;
-    if (variance < SEQUENCE_CONSTRAINTS.MIN_VARIANCE) {
-      errors.push(`Step ${i + 1}: variance ${variance}ms < ${SEQUENCE_CONSTRAINTS.MIN_VARIANCE}ms minimum`);
-    }
-  }
-  
-  return { valid: errors.length === 0, errors };
+// Validate every macro in a profile; paths start at "macros" like the agent's
+export function validateMacroProfile(
+  profile: Pick<MacroProfile, "macros" | "gestures">
+): { valid: boolean; diagnostics: Diagnostic[] } {
+  const diagnostics = [
+    ...gestureDiagnostics(profile.gestures, profile.macros),
+    ...profile.macros.flatMap((macro, index) =>
+      validateSequence(macro.sequence, ["macros", index, "sequence"], profile.macros, macro.name).diagnostics
+    ),
+    ...followUpDiagnostics(profile.macros),
+    ...bindingWarnings(profile.macros),
+  ];
+  return { valid: !hasErrors(diagnostics), diagnostics };
 }